@@ -1,55 +1,133 @@
 #!/usr/bin/env node
-import { registerActions } from "./mcp/actions.js";
-import { registerTemplates } from "./prompts/templates.js"; 
-
-
 // Polyfill fetch for Node.js versions < 18
 import fetch from "node-fetch";
 if (!globalThis.fetch) {
   globalThis.fetch = fetch as unknown as typeof globalThis.fetch;
 }
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-// Remove the HTTP transport import
-// import { HttpServerTransport } from "@modelcontextprotocol/sdk/server/http.js";
+import { parseArgs } from 'node:util';
+import { readFileSync } from 'node:fs';
 import { config } from 'dotenv';
 
 import { z } from "zod";
 
 // Import handlers from resources
-import { createConsulClient } from './resources/consul-client.js';
-import { ServiceManager } from './resources/services.js';
-import { HealthManager } from './resources/health.js';
-import { DiagramGenerator } from './tools/diagram-generator.js';
-import { ServiceAnalyzer } from './tools/status-analyzer.js';
+import { ConsulClientPool, createConsulClient } from './resources/consul-client.js';
+import { parseDuration } from './resources/consul-api.js';
+import { createMetricsProvider } from './resources/metrics.js';
+import { AccessMode, ConsulMcpServer, TransportType } from './server/server.js';
+import { AuthOptions, TlsOptions } from './server/auth.js';
 
 // Load environment variables
 config();
 
 // Default configuration values
 const DEFAULT_CONSUL_HTTP_ADDR = 'http://localhost:8500';
-const SERVER_NAME = "consul-mcp-server";
-const VERSION = "0.1.0";
+const DEFAULT_HTTP_PORT = 3000;
+const TRANSPORTS: TransportType[] = ['stdio', 'http'];
+const ACCESS_MODES: AccessMode[] = ['read-only', 'read-write'];
 
 // ... [rest of your Zod schemas] ...
 
+/**
+ * Reads the transport options from the command line, falling back to the environment
+ */
+function parseCliOptions(): { transport: TransportType; port: number; host?: string; accessMode: AccessMode } {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      'access-mode': { type: 'string' }
+    }
+  });
+
+  const transport = values.transport || process.env.MCP_TRANSPORT || 'stdio';
+  if (!TRANSPORTS.includes(transport as TransportType)) {
+    throw new Error(`Unknown transport "${transport}", expected one of: ${TRANSPORTS.join(', ')}`);
+  }
+
+  const port = parseInt(values.port || process.env.PORT || String(DEFAULT_HTTP_PORT));
+  if (Number.isNaN(port)) {
+    throw new Error(`Invalid port "${values.port || process.env.PORT}"`);
+  }
+
+  const accessMode = values['access-mode'] || process.env.MCP_ACCESS_MODE || 'read-only';
+  if (!ACCESS_MODES.includes(accessMode as AccessMode)) {
+    throw new Error(`Unknown access mode "${accessMode}", expected one of: ${ACCESS_MODES.join(', ')}`);
+  }
+
+  return {
+    transport: transport as TransportType,
+    port,
+    host: values.host || process.env.HOST || undefined,
+    accessMode: accessMode as AccessMode
+  };
+}
+
+/**
+ * Reads HTTP client authentication settings from the environment
+ */
+function readAuthOptions(): AuthOptions {
+  const tokens = (process.env.MCP_AUTH_TOKENS || '').split(',');
+  if (process.env.MCP_AUTH_TOKENS_FILE) {
+    tokens.push(...readFileSync(process.env.MCP_AUTH_TOKENS_FILE, 'utf8').split('\n'));
+  }
+
+  return {
+    bearerTokens: tokens.map(token => token.trim()).filter(token => token.length > 0),
+    clientCertificates: Boolean(process.env.MCP_TLS_CA),
+    consulTokenPassthrough: process.env.CONSUL_TOKEN_PASSTHROUGH === 'true'
+  };
+}
+
+/**
+ * Reads the HTTPS certificate, key and optional client CA from the environment
+ */
+function readTlsOptions(): TlsOptions | undefined {
+  if (!process.env.MCP_TLS_CERT && !process.env.MCP_TLS_KEY) return undefined;
+  if (!process.env.MCP_TLS_CERT || !process.env.MCP_TLS_KEY) {
+    throw new Error('MCP_TLS_CERT and MCP_TLS_KEY must be set together');
+  }
+
+  return {
+    cert: readFileSync(process.env.MCP_TLS_CERT),
+    key: readFileSync(process.env.MCP_TLS_KEY),
+    ca: process.env.MCP_TLS_CA ? readFileSync(process.env.MCP_TLS_CA) : undefined
+  };
+}
+
 async function main() {
   try {
+    const cliOptions = parseCliOptions();
     const consulAddr = process.env.CONSUL_HTTP_ADDR || DEFAULT_CONSUL_HTTP_ADDR;
     const consulToken = process.env.CONSUL_HTTP_TOKEN || undefined;
     
     console.error(`Starting Consul MCP Server...`);
     console.error(`Connecting to Consul at: ${consulAddr}`);
     
-    // Initialize Consul client
-    const consulClient = await createConsulClient(consulAddr, consulToken);
+    const metricsProvider = createMetricsProvider({
+      provider: process.env.METRICS_PROVIDER,
+      prometheusUrl: process.env.PROMETHEUS_URL,
+      window: process.env.METRICS_WINDOW,
+      queriesFile: process.env.PROMETHEUS_QUERIES_FILE
+    });
+    console.error(`Metrics provider: ${metricsProvider.source}`);
     
-    // Initialize service managers
-    const serviceManager = new ServiceManager(consulClient);
-    const healthManager = new HealthManager(consulClient);
-    const diagramGenerator = new DiagramGenerator();
-    const serviceAnalyzer = new ServiceAnalyzer(consulClient);
+    // Initialize Consul client
+    const concurrency = process.env.CONSUL_FETCH_CONCURRENCY ? parseInt(process.env.CONSUL_FETCH_CONCURRENCY) : undefined;
+    const connectionNameHeuristics = process.env.CONNECTION_NAME_HEURISTICS === 'true';
+    const consulClient = await createConsulClient(consulAddr, consulToken, {
+      metricsProvider,
+      concurrency,
+      connectionNameHeuristics,
+      cache: process.env.CONSUL_CACHE === 'false' ? undefined : {
+        wait: process.env.CONSUL_CACHE_WAIT,
+        maxStalenessMs: process.env.CONSUL_CACHE_MAX_STALENESS
+          ? parseDuration(process.env.CONSUL_CACHE_MAX_STALENESS)
+          : undefined
+      }
+    });
     
     // Test connection to Consul
     try {
@@ -60,94 +138,35 @@ async function main() {
       console.error('The server will start, but functionality may be limited');
     }
     
-    // --- Create MCP Server ---
-    const server = new McpServer({
-      name: SERVER_NAME,
-      version: VERSION
+    const auth = readAuthOptions();
+    console.error(`Access mode: ${cliOptions.accessMode}`);
+    const mcpServer = new ConsulMcpServer(consulClient, cliOptions.port, {
+      auth,
+      accessMode: cliOptions.accessMode,
+      // HTTP callers use their own ACL token; the server token still serves stdio
+      consulClientPool: auth.consulTokenPassthrough
+        ? new ConsulClientPool(consulAddr, { metricsProvider, concurrency, connectionNameHeuristics })
+        : undefined
     });
     
-    // Register tools as before...
-    registerActions(server, consulClient);
-
-// Register a high-level "root" Consul resource that links to subresources
-server.resource("consul", "consul://", async () => {
-  console.error("Read requested for consul://");
-  return {
-    contents: [
-      {
-        uri: "consul://",
-        text: JSON.stringify({
-          type: "success",
-          resources: [
-            {
-              uri: "consul://services",
-              title: "Registered Consul Services"
-            },
-            {
-              uri: "consul://health-summary",
-              title: "Consul Health Summary"
-            }
-          ]
-        }, null, 2)
-      }
-    ]
-  };
-});
-
-// Register a detailed health summary resource
-server.resource("health_summary", "consul://health-summary", async () => {
-  console.error("Read requested for consul://health-summary");
-  const summary = await healthManager.getHealthSummary();
-  return {
-    contents: [
-      {
-        uri: "consul://health-summary",
-        text: JSON.stringify(summary, null, 2)
-      }
-    ]
-  };
-});
-
-// Register a detailed services list resource
-server.resource("services", "consul://services", async () => {
-  console.error("Read requested for consul://services");
-  const services = await serviceManager.getAllServices();
-  return {
-    contents: [
-      {
-        uri: "consul://services",
-        text: JSON.stringify(services, null, 2)
-      }
-    ]
-  };
-});
-
-    const templates = registerTemplates();
-    for (const [name, template] of Object.entries(templates)) {
-      server.prompt(name, (_extra) => ({
-        messages: [
-          {
-            role: "user",
-            content: {
-              type: "text",
-              text: template
-            }
-          }
-        ]
-      }));
+    if (cliOptions.transport === 'http') {
+      await mcpServer.startWithHttp({
+        host: cliOptions.host,
+        tls: readTlsOptions(),
+        sessionIdleTimeoutMs: process.env.MCP_SESSION_IDLE_TIMEOUT
+          ? parseDuration(process.env.MCP_SESSION_IDLE_TIMEOUT)
+          : undefined
+      });
+    } else {
+      await mcpServer.startWithStdio();
+      console.error(`For Claude Desktop, configure the MCP server in settings.`);
     }
     
-    // Use only StdioServerTransport
-    console.error(`Starting with StdioServerTransport`);
-    const stdioTransport = new StdioServerTransport();
-    await server.connect(stdioTransport);
-    
-    console.error(`Consul MCP Server running with stdio transport`);
-    console.error(`For Claude Desktop, configure the MCP server in settings.`);
-    
     // Handle graceful shutdown
     const shutdown = async () => {
       console.error('Shutting down...');
+      await mcpServer.close();
+      consulClient.close();
       process.exit(0);
     };
 
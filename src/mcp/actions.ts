@@ -1,51 +1,376 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ConsulClient } from '../resources/consul-client.js';
-import { ServiceManager } from '../resources/services.js';
+import {
+  ALL_DATACENTERS,
+  ConsulClient,
+  ConsulScope,
+  ConsulService,
+  DiscoveryChain,
+  HealthCheck
+} from '../resources/consul-client.js';
+import { BlastRadius, ServiceManager } from '../resources/services.js';
 import { HealthManager } from '../resources/health.js';
+import { NodeDetails, NodeManager, NodeSummary } from '../resources/nodes.js';
+import { IntentionManager, IntentionRequest } from '../resources/intentions.js';
+import { KvChange, KvManager, KvValue, parseKvDocument } from '../resources/kv.js';
+import { RegistrationChange, RegistrationManager } from '../resources/registration.js';
 import { DiagramGenerator } from '../tools/diagram-generator.js';
-import { ServiceAnalyzer } from '../tools/status-analyzer.js';
+import { DiagramFocus } from '../tools/service-graph.js';
+import { ServiceAnalyzer, TOPOLOGY_DEFINITIONS, TopologyAnalysis } from '../tools/status-analyzer.js';
+import { ConnectivityExplanation, IntentionSimulator } from '../tools/intention-simulator.js';
 
 import {
   MCP_ACTIONS,
+  DatacenterSchema,
+  DiagramFocusSchema,
+  DiagramFormatSchema,
+  DiagramImageSchema,
+  NamespaceSchema,
+  PartitionSchema,
+  ListDatacentersSchema,
   GetServicesSchema,
   GetHealthChecksSchema,
   GetServiceConnectionsSchema,
   CreateServiceDiagramSchema,
   AnalyzeServiceSchema,
-  GetServiceMetricsSchema
+  GetServiceMetricsSchema,
+  CheckIntentionSchema,
+  UpsertIntentionSchema,
+  DeleteIntentionSchema,
+  ExplainConnectivitySchema,
+  KvGetSchema,
+  KvListSchema,
+  KvPutSchema,
+  KvDeleteSchema,
+  KvDiffSchema,
+  KvApplySchema,
+  RegisterServiceSchema,
+  DeregisterServiceSchema,
+  SetMaintenanceModeSchema,
+  ListConfigEntriesSchema,
+  GetConfigEntrySchema,
+  GetDiscoveryChainSchema,
+  GetBlastRadiusSchema,
+  AnalyzeTopologySchema,
+  GetNodesSchema,
+  GetNodeSchema
 } from './protocol.js';
 
-export function registerActions(server: McpServer, consulClient: ConsulClient): void {
-  const serviceManager = new ServiceManager(consulClient);
-  const healthManager = new HealthManager(consulClient);
+export interface ActionOptions {
+  allowWrites?: boolean; // Register the tools that change Consul
+}
+
+type IntentionArgs = z.infer<typeof UpsertIntentionSchema>;
+
+/**
+ * Gets the client for tools that work on one datacenter, such as writes
+ * @param subject What the tool works on, for the error message, e.g. "Intentions are managed in"
+ */
+function targetClient(consulClient: ConsulClient, args: ConsulScope, subject: string): ConsulClient {
+  if (args.datacenter === ALL_DATACENTERS) {
+    throw new Error(`${subject} one datacenter at a time`);
+  }
+  return consulClient.withScope(args);
+}
+
+function intentionClient(consulClient: ConsulClient, args: ConsulScope): ConsulClient {
+  return targetClient(consulClient, args, 'Intentions are managed in');
+}
+
+function kvClient(consulClient: ConsulClient, args: ConsulScope): ConsulClient {
+  return targetClient(consulClient, args, 'KV keys are read and written in');
+}
+
+function registrationClient(consulClient: ConsulClient, args: ConsulScope): ConsulClient {
+  return targetClient(consulClient, args, 'Service instances are changed in');
+}
+
+function configClient(consulClient: ConsulClient, args: ConsulScope): ConsulClient {
+  return targetClient(consulClient, args, 'Config entries are read from');
+}
+
+/**
+ * Maps the diagram focus arguments; undefined when none are given
+ */
+export function toDiagramFocus(args: z.infer<typeof DiagramFocusSchema>): DiagramFocus | undefined {
+  const focus: DiagramFocus = {
+    service: args.focus_service,
+    depth: args.depth,
+    direction: args.direction,
+    pathFrom: args.path_from,
+    pathTo: args.path_to,
+    tags: args.tags,
+    nodes: args.nodes,
+    health: args.health
+  };
+  return Object.values(focus).some(value => value !== undefined) ? focus : undefined;
+}
+
+function toIntentionRequest(args: IntentionArgs): IntentionRequest {
+  return {
+    source: args.source,
+    destination: args.destination,
+    sourceNamespace: args.source_namespace,
+    sourcePartition: args.source_partition,
+    action: args.action,
+    permissions: args.permissions,
+    description: args.description,
+    configEntry: args.config_entry
+  };
+}
+
+/**
+ * Maps a service instance to the get_services response format
+ */
+function toServiceResponse(service: ConsulService) {
+  return {
+    id: service.id,
+    name: service.name,
+    address: service.address,
+    port: service.port.toString(),
+    tags: service.tags,
+    node: service.node,
+    datacenter: service.datacenter,
+    namespace: service.namespace,
+    partition: service.partition,
+    health: {
+      status: service.health.status,
+      maintenance: service.health.maintenance ?? false,
+      checks: service.health.checks.map(check => ({
+        id: check.id,
+        name: check.name,
+        status: check.status,
+        output: check.output
+      }))
+    }
+  };
+}
+
+/**
+ * Maps a blast radius to the get_blast_radius response format
+ */
+export function toBlastRadiusResponse(radius: BlastRadius) {
+  return {
+    failure: radius.failure,
+    datacenter: radius.datacenter,
+    failed_services: radius.failedServices,
+    degraded_services: radius.degradedServices,
+    affected_services: radius.affectedServices,
+    cycles: radius.cycles,
+    single_points_of_failure: radius.singlePointsOfFailure
+  };
+}
+
+/**
+ * Maps a topology analysis to the analyze_topology response format
+ */
+export function toTopologyResponse(topology: TopologyAnalysis) {
+  return {
+    datacenter: topology.datacenter,
+    service_count: topology.serviceCount,
+    connection_count: topology.connectionCount,
+    centrality: topology.centrality.map(entry => ({
+      service: entry.service,
+      betweenness: entry.betweenness,
+      fan_in: entry.fanIn,
+      fan_out: entry.fanOut
+    })),
+    cycles: topology.cycles,
+    articulation_points: topology.articulationPoints,
+    longest_chains: topology.longestChains,
+    fan_in_outliers: topology.fanInOutliers,
+    fan_out_outliers: topology.fanOutOutliers,
+    isolated_services: topology.isolatedServices,
+    definitions: TOPOLOGY_DEFINITIONS
+  };
+}
+
+/**
+ * Maps a node summary to the get_nodes response format
+ */
+export function toNodeSummaryResponse(node: NodeSummary) {
+  return {
+    id: node.id,
+    name: node.name,
+    address: node.address,
+    datacenter: node.datacenter,
+    partition: node.partition,
+    status: node.status,
+    serf_status: node.serfStatus,
+    service_count: node.serviceCount,
+    failing_service_count: node.failingServiceCount
+  };
+}
+
+/**
+ * Maps node details to the get_node response format
+ */
+export function toNodeResponse(node: NodeDetails) {
+  const toCheck = (check: HealthCheck) => ({ id: check.id, name: check.name, status: check.status, output: check.output });
+  return {
+    id: node.id,
+    name: node.name,
+    address: node.address,
+    datacenter: node.datacenter,
+    partition: node.partition,
+    tagged_addresses: node.taggedAddresses,
+    meta: node.meta,
+    health: {
+      status: node.health.status,
+      checks: node.health.checks.map(toCheck)
+    },
+    serf: node.serf && {
+      name: node.serf.name,
+      address: node.serf.address,
+      port: node.serf.port,
+      status: node.serf.status,
+      role: node.serf.role,
+      tags: node.serf.tags
+    },
+    services: node.services.map(service => ({ ...service, checks: service.checks.map(toCheck) }))
+  };
+}
+
+function toRegistrationChangeResponse(change: RegistrationChange) {
+  return {
+    before: change.before && toServiceResponse(change.before),
+    after: change.after && toServiceResponse(change.after)
+  };
+}
+
+/**
+ * Maps a discovery chain to the get_discovery_chain response format
+ */
+export function toDiscoveryChainResponse(chain: DiscoveryChain) {
+  return {
+    service: chain.serviceName,
+    namespace: chain.namespace,
+    partition: chain.partition,
+    datacenter: chain.datacenter,
+    protocol: chain.protocol,
+    is_default: chain.isDefault,
+    start_node: chain.startNode,
+    nodes: chain.nodes.map(node => ({
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      routes: node.routes?.map(route => ({
+        match: route.match,
+        destination: route.destination,
+        next_node: route.nextNode
+      })),
+      splits: node.splits?.map(split => ({ weight: split.weight, next_node: split.nextNode })),
+      resolver: node.resolver && {
+        target: node.resolver.target,
+        connect_timeout: node.resolver.connectTimeout,
+        is_default: node.resolver.isDefault,
+        failover_targets: node.resolver.failoverTargets
+      }
+    })),
+    targets: chain.targets.map(target => ({
+      id: target.id,
+      service: target.service,
+      service_subset: target.serviceSubset,
+      namespace: target.namespace,
+      partition: target.partition,
+      datacenter: target.datacenter,
+      peer: target.peer
+    }))
+  };
+}
+
+/**
+ * Maps a decoded KV entry to the kv_get and kv_list response format
+ */
+export function toKvEntryResponse(entry: KvValue) {
+  return {
+    key: entry.key,
+    value: entry.value,
+    encoding: entry.encoding,
+    size: entry.size,
+    truncated: entry.truncated,
+    flags: entry.flags,
+    modify_index: entry.modifyIndex,
+    create_index: entry.createIndex,
+    lock_index: entry.lockIndex,
+    session: entry.session,
+    namespace: entry.namespace,
+    partition: entry.partition
+  };
+}
+
+type KvChangeArgs = z.infer<typeof KvApplySchema>['changes'][number];
+
+function toKvChange(change: KvChangeArgs): KvChange {
+  return {
+    op: change.op,
+    key: change.key,
+    value: change.value,
+    encoding: change.encoding,
+    sourceKey: change.source_key,
+    sourceIndex: change.source_index,
+    cas: change.cas,
+    flags: change.flags
+  };
+}
+
+function toKvChangeArgs(change: KvChange): KvChangeArgs {
+  return {
+    op: change.op,
+    key: change.key,
+    value: change.value,
+    encoding: change.encoding,
+    source_key: change.sourceKey,
+    source_index: change.sourceIndex,
+    cas: change.cas,
+    flags: change.flags
+  };
+}
+
+/**
+ * Maps a connectivity explanation to the explain_connectivity response
+ */
+export function toExplanationResponse(explanation: ConnectivityExplanation) {
+  return {
+    source: explanation.source,
+    destination: explanation.destination,
+    decision: explanation.decision,
+    default_policy: explanation.defaultPolicy,
+    default_policy_source: explanation.defaultPolicySource,
+    matched_intention: explanation.matchedIntention,
+    matched_permission: explanation.matchedPermission,
+    chain: explanation.chain,
+    considered: explanation.considered
+  };
+}
+
+export function registerActions(server: McpServer, consulClient: ConsulClient, options: ActionOptions = {}): void {
   const diagramGenerator = new DiagramGenerator();
-  const serviceAnalyzer = new ServiceAnalyzer(consulClient);
+
+  server.tool(
+    MCP_ACTIONS.LIST_DATACENTERS,
+    ListDatacentersSchema.shape,
+    async (_args, _extra) => {
+      const datacenters = await consulClient.listDatacenters();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ datacenters }, null, 2)
+          }
+        ]
+      };
+    }
+  );
 
   server.tool(
     MCP_ACTIONS.GET_SERVICES,
     GetServicesSchema.shape,
-    async (_args, _extra) => {
+    async (args, _extra) => {
       console.error("Tool called: GET_SERVICES");
-      const services = await consulClient.getServices();
+      const services = await consulClient.acrossDatacenters(args, client => client.getServices());
       const data = {
-        services: services.map(service => ({
-          id: service.id,
-          name: service.name,
-          address: service.address,
-          port: service.port.toString(),
-          tags: service.tags,
-          node: service.node,
-          health: {
-            status: service.health.status,
-            checks: service.health.checks.map(check => ({
-              id: check.id,
-              name: check.name,
-              status: check.status,
-              output: check.output
-            }))
-          }
-        }))
+        services: services.map(toServiceResponse)
       };
       return {
         content: [
@@ -61,12 +386,18 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
   server.tool(
     MCP_ACTIONS.GET_HEALTH_CHECKS,
     z.object({
-      failing_only: z.boolean().optional().default(false)
+      failing_only: z.boolean().optional().default(false),
+      datacenter: DatacenterSchema,
+      namespace: NamespaceSchema,
+      partition: PartitionSchema
     }).shape,
     async (args, _extra) => {
-      const healthChecks = args.failing_only
-        ? await healthManager.getFailingHealthChecks()
-        : await healthManager.getAllHealthChecks();
+      const healthChecks = await consulClient.acrossDatacenters(args, client => {
+        const healthManager = new HealthManager(client);
+        return args.failing_only
+          ? healthManager.getFailingHealthChecks()
+          : healthManager.getAllHealthChecks();
+      });
   
       return {
         content: [
@@ -78,6 +409,10 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
                 name: check.name,
                 status: check.status,
                 service_name: check.serviceName,
+                node: check.node,
+                datacenter: check.datacenter,
+                namespace: check.namespace,
+                partition: check.partition,
                 output: check.output,
                 analysis: check.analysis
               }))
@@ -91,14 +426,15 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
   server.tool(
     MCP_ACTIONS.GET_SERVICE_CONNECTIONS,
     z.object({
-      failing_only: z.boolean().optional().default(false)
+      failing_only: z.boolean().optional().default(false),
+      datacenter: DatacenterSchema,
+      namespace: NamespaceSchema,
+      partition: PartitionSchema
     }).shape,
     async (args, _extra) => {
-      const failingOnly = args.failing_only ?? false;
-
-      const connections = args.failing_only
-        ? await consulClient.getFailingConnections()
-        : await consulClient.getServiceConnections();
+      const connections = await consulClient.acrossDatacenters(args, client =>
+        args.failing_only ? client.getFailingConnections() : client.getServiceConnections()
+      );
 
       return {
         content: [
@@ -108,11 +444,20 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
               connections: connections.map(conn => ({
                 source: conn.source,
                 destination: conn.destination,
+                datacenter: conn.datacenter,
+                source_namespace: conn.sourceNamespace,
+                source_partition: conn.sourcePartition,
+                destination_namespace: conn.destinationNamespace,
+                destination_partition: conn.destinationPartition,
                 status: conn.status,
                 protocol: conn.protocol,
                 latency: conn.latency,
                 error_rate: conn.errorRate,
-                error_message: conn.errorMessage
+                request_volume: conn.requestVolume,
+                error_message: conn.errorMessage,
+                metrics_source: conn.metricsSource,
+                metrics_window: conn.metricsWindow,
+                evidence: conn.evidence
               }))
             }, null, 2)
           }
@@ -125,24 +470,48 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
     MCP_ACTIONS.CREATE_SERVICE_DIAGRAM,
     z.object({
       include_health: z.boolean().optional().default(false),
-      include_metrics: z.boolean().optional().default(false)
+      include_metrics: z.boolean().optional().default(false),
+      format: DiagramFormatSchema,
+      image: DiagramImageSchema,
+      ...DiagramFocusSchema.shape,
+      datacenter: DatacenterSchema,
+      namespace: NamespaceSchema,
+      partition: PartitionSchema
     }).shape,
     async (args, _extra) => {
 
-      const services = await consulClient.getServices();
-      const connections = await consulClient.getServiceConnections();
+      const services = await consulClient.acrossDatacenters(args, client => client.getServices());
+      const connections = await consulClient.acrossDatacenters(args, client => client.getServiceConnections());
+      const traffic = await consulClient.acrossDatacenters(args, client => client.getTrafficPolicies());
 
-      const diagram = await diagramGenerator.generateServiceDiagram(
-        services,
-        connections,
-        {
-          includeHealth: args.include_health ?? false,
-          includeMetrics: args.include_metrics ?? false
-        }
-      );
+      const options = {
+        includeHealth: args.include_health ?? false,
+        includeMetrics: args.include_metrics ?? false,
+        format: args.format,
+        focus: toDiagramFocus(args)
+      };
+      const diagram = await diagramGenerator.generateServiceDiagram(services, connections, options, traffic);
+
+      if (!args.image) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: diagram
+            }
+          ]
+        };
+      }
 
+      // The source stays alongside the image for clients that only read text
+      const image = await diagramGenerator.generateServiceImage(services, connections, options, args.image, traffic);
       return {
         content: [
+          {
+            type: "image",
+            data: image.data.toString('base64'),
+            mimeType: image.mimeType
+          },
           {
             type: "text",
             text: diagram
@@ -156,29 +525,47 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
     MCP_ACTIONS.ANALYZE_SERVICE,
     z.object({
       service_name: z.string().optional().default("consul"),
+      datacenter: DatacenterSchema,
+      namespace: NamespaceSchema,
+      partition: PartitionSchema
     }).shape,
     async (args, _extra) => {
-      const serviceDetails = await serviceManager.getServiceByName(args.service_name);
-      if (!serviceDetails) {
+      // Only datacenters the service is registered in produce a result
+      const results = await consulClient.acrossDatacenters(args, async client => {
+        const serviceManager = new ServiceManager(client);
+        const serviceDetails = await serviceManager.getServiceByName(args.service_name);
+        if (!serviceDetails) return [];
+
+        const analysis = await new ServiceAnalyzer(client).analyzeService(args.service_name);
+        const metrics = await serviceManager.getServiceMetrics(args.service_name);
+
+        return [{
+          service: {
+            name: serviceDetails.name,
+            datacenter: serviceDetails.datacenter,
+            namespace: serviceDetails.namespace,
+            partition: serviceDetails.partition,
+            health: serviceDetails.health,
+            connections: serviceDetails.connections,
+            metrics
+          },
+          analysis
+        }];
+      });
+
+      if (results.length === 0) {
         throw new Error(`Service ${args.service_name} not found`);
       }
 
-      const analysis = await serviceAnalyzer.analyzeService(args.service_name);
-      const metrics = await serviceManager.getServiceMetrics(args.service_name);
-
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({
-              service: {
-                name: serviceDetails.name,
-                health: serviceDetails.health,
-                connections: serviceDetails.connections,
-                metrics
-              },
-              analysis
-            }, null, 2)
+            text: JSON.stringify(
+              args.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0],
+              null,
+              2
+            )
           }
         ]
       };
@@ -189,17 +576,466 @@ export function registerActions(server: McpServer, consulClient: ConsulClient):
     MCP_ACTIONS.GET_SERVICE_METRICS,
     z.object({
       service_name: z.string().optional().default("consul"),
+      service_id: z.string().optional(),
+      datacenter: DatacenterSchema,
+      namespace: NamespaceSchema,
+      partition: PartitionSchema
     }).shape,
     async (args, _extra) => {
-      const metrics = await serviceManager.getServiceMetrics(args.service_name);
+      const metrics = await consulClient.acrossDatacenters(args, async client =>
+        [await new ServiceManager(client).getServiceMetrics(args.service_name, args.service_id)]
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              metrics: args.datacenter === ALL_DATACENTERS ? metrics : metrics[0]
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.CHECK_INTENTION,
+    CheckIntentionSchema.shape,
+    async (args, _extra) => {
+      const allowed = await new IntentionManager(intentionClient(consulClient, args))
+        .check(toIntentionRequest(args));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ allowed }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.EXPLAIN_CONNECTIVITY,
+    ExplainConnectivitySchema.shape,
+    async (args, _extra) => {
+      const explanation = await new IntentionSimulator(intentionClient(consulClient, args)).explain(
+        {
+          source: { name: args.source, namespace: args.source_namespace, partition: args.source_partition },
+          destination: { name: args.destination, namespace: args.namespace, partition: args.partition },
+          http: args.http
+        },
+        { intentions: args.intentions, defaultPolicy: args.default_policy }
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(toExplanationResponse(explanation), null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.KV_GET,
+    KvGetSchema.shape,
+    async (args, _extra) => {
+      const entry = await new KvManager(kvClient(consulClient, args)).get(args.key, args.max_bytes);
+      if (!entry) {
+        throw new Error(`Key ${args.key} not found`);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ entry: toKvEntryResponse(entry) }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.KV_LIST,
+    KvListSchema.shape,
+    async (args, _extra) => {
+      const listing = await new KvManager(kvClient(consulClient, args)).list(args.prefix, {
+        keysOnly: args.keys_only,
+        separator: args.separator,
+        limit: args.limit,
+        maxValueBytes: args.max_bytes
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ...listing,
+              entries: listing.entries?.map(toKvEntryResponse)
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.KV_DIFF,
+    KvDiffSchema.shape,
+    async (args, _extra) => {
+      if ((args.source_prefix === undefined) === (args.document === undefined)) {
+        throw new Error('Pass either source_prefix or document');
+      }
+
+      const source = args.document !== undefined ? parseKvDocument(args.document) : args.source_prefix!;
+      const diff = await new KvManager(kvClient(consulClient, args)).diff(source, args.target_prefix, {
+        includeDeletes: args.include_deletes,
+        limit: args.limit,
+        maxValueBytes: args.max_bytes
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              ...diff,
+              entries: diff.entries.map(entry => ({
+                key: entry.key,
+                status: entry.status,
+                source_value: entry.sourceValue,
+                target_value: entry.targetValue
+              })),
+              changes: diff.changes.map(toKvChangeArgs)
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.LIST_CONFIG_ENTRIES,
+    ListConfigEntriesSchema.shape,
+    async (args, _extra) => {
+      const entries = await configClient(consulClient, args).listConfigEntries(args.kind);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ kind: args.kind, entries }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.GET_CONFIG_ENTRY,
+    GetConfigEntrySchema.shape,
+    async (args, _extra) => {
+      const entry = await configClient(consulClient, args).getConfigEntry(args.kind, args.name);
+      if (!entry) {
+        throw new Error(`No ${args.kind} config entry named ${args.name}`);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ entry }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.GET_DISCOVERY_CHAIN,
+    GetDiscoveryChainSchema.shape,
+    async (args, _extra) => {
+      const chain = await configClient(consulClient, args).getDiscoveryChain(args.service);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              chain: toDiscoveryChainResponse(chain),
+              diagram: diagramGenerator.generateDiscoveryChainDiagram(chain)
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.GET_BLAST_RADIUS,
+    GetBlastRadiusSchema.shape,
+    async (args, _extra) => {
+      const failure = { service: args.service, node: args.node };
+      const results = await consulClient.acrossDatacenters(args, async client => {
+        const radius = await new ServiceManager(client).getBlastRadius(failure);
+        return radius ? [toBlastRadiusResponse(radius)] : [];
+      });
+
+      if (results.length === 0) {
+        throw new Error(`${args.service ? `Service ${args.service}` : `Node ${args.node}`} not found`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              args.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0],
+              null,
+              2
+            )
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.ANALYZE_TOPOLOGY,
+    AnalyzeTopologySchema.shape,
+    async (args, _extra) => {
+      const results = await consulClient.acrossDatacenters(args, async client =>
+        [toTopologyResponse(await new ServiceAnalyzer(client).analyzeTopology())]
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              args.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0],
+              null,
+              2
+            )
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.GET_NODES,
+    GetNodesSchema.shape,
+    async (args, _extra) => {
+      const nodes = await consulClient.acrossDatacenters(args, client => new NodeManager(client).getNodes());
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ nodes: nodes.map(toNodeSummaryResponse) }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.GET_NODE,
+    GetNodeSchema.shape,
+    async (args, _extra) => {
+      const results = await consulClient.acrossDatacenters(args, async client => {
+        const node = await new NodeManager(client).getNode(args.node);
+        return node ? [toNodeResponse(node)] : [];
+      });
+
+      if (results.length === 0) {
+        throw new Error(`Node ${args.node} not found`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              args.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0],
+              null,
+              2
+            )
+          }
+        ]
+      };
+    }
+  );
+
+  if (!options.allowWrites) return;
+
+  server.tool(
+    MCP_ACTIONS.UPSERT_INTENTION,
+    UpsertIntentionSchema.shape,
+    async (args, _extra) => {
+      const intentions = await new IntentionManager(intentionClient(consulClient, args))
+        .upsert(toIntentionRequest(args));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ intentions }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.DELETE_INTENTION,
+    DeleteIntentionSchema.shape,
+    async (args, _extra) => {
+      const deleted = await new IntentionManager(intentionClient(consulClient, args))
+        .delete(toIntentionRequest(args));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ deleted }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.KV_PUT,
+    KvPutSchema.shape,
+    async (args, _extra) => {
+      const written = await new KvManager(kvClient(consulClient, args)).put(args.key, args.value, {
+        encoding: args.encoding,
+        cas: args.cas,
+        flags: args.flags
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ key: args.key, written }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.KV_DELETE,
+    KvDeleteSchema.shape,
+    async (args, _extra) => {
+      const deleted = await new KvManager(kvClient(consulClient, args)).delete(args.key, {
+        recurse: args.recurse,
+        cas: args.cas
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ key: args.key, deleted }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.KV_APPLY,
+    KvApplySchema.shape,
+    async (args, _extra) => {
+      const result = await new KvManager(kvClient(consulClient, args))
+        .apply(args.changes.map(toKvChange), { dryRun: args.dry_run });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              dry_run: result.dryRun,
+              committed: result.committed,
+              operations: result.operations,
+              errors: result.errors
+            }, null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.REGISTER_SERVICE,
+    RegisterServiceSchema.shape,
+    async (args, _extra) => {
+      const check = args.check && {
+        http: args.check.http,
+        tcp: args.check.tcp,
+        grpc: args.check.grpc,
+        ttl: args.check.ttl,
+        interval: args.check.interval,
+        timeout: args.check.timeout,
+        deregisterCriticalServiceAfter: args.check.deregister_critical_service_after
+      };
+      const change = await new RegistrationManager(registrationClient(consulClient, args)).register({
+        target: args.target ?? 'agent',
+        node: args.node,
+        nodeAddress: args.node_address,
+        service: {
+          id: args.id,
+          name: args.name,
+          address: args.address,
+          port: args.port,
+          tags: args.tags,
+          meta: args.meta,
+          check
+        }
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(toRegistrationChangeResponse(change), null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.DEREGISTER_SERVICE,
+    DeregisterServiceSchema.shape,
+    async (args, _extra) => {
+      const change = await new RegistrationManager(registrationClient(consulClient, args)).deregister({
+        target: args.target ?? 'agent',
+        serviceId: args.service_id,
+        node: args.node
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(toRegistrationChangeResponse(change), null, 2)
+          }
+        ]
+      };
+    }
+  );
+
+  server.tool(
+    MCP_ACTIONS.SET_MAINTENANCE_MODE,
+    SetMaintenanceModeSchema.shape,
+    async (args, _extra) => {
+      const change = await new RegistrationManager(registrationClient(consulClient, args)).setMaintenance(
+        { target: args.target ?? 'agent', serviceId: args.service_id, node: args.node },
+        args.enable,
+        args.reason
+      );
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify({ metrics }, null, 2)
+            text: JSON.stringify(toRegistrationChangeResponse(change), null, 2)
           }
         ]
       };
     }
   );
-}
\ No newline at end of file
+}
@@ -1,9 +1,34 @@
 import { z } from 'zod';
+import { CONFIG_ENTRY_KINDS } from '../resources/consul-client.js';
+import { DIAGRAM_FORMATS } from '../tools/diagram-renderers.js';
+import { DIAGRAM_IMAGE_TYPES } from '../tools/svg-renderer.js';
 
 // Define schemas for the MCP actions
 
+// Optional datacenter argument accepted by every action; "*" queries all datacenters
+export const DatacenterSchema = z.string().optional()
+  .describe('Datacenter to query. Omit for the local datacenter, or "*" for every datacenter');
+
+// Optional Consul Enterprise scope arguments, accepted by every action that reads services
+export const NamespaceSchema = z.string().optional()
+  .describe('Consul Enterprise namespace. Omit for the namespace of the ACL token');
+
+export const PartitionSchema = z.string().optional()
+  .describe('Consul Enterprise admin partition. Omit for the partition of the ACL token');
+
+// Schema for ListDatacenters action
+export const ListDatacentersSchema = z.object({});
+
+export const ListDatacentersResponseSchema = z.object({
+  datacenters: z.array(z.string()),
+});
+
 // Schema for GetServices action
-export const GetServicesSchema = z.object({});
+export const GetServicesSchema = z.object({
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
 
 export const GetServicesResponseSchema = z.object({
   services: z.array(z.object({
@@ -11,9 +36,13 @@ export const GetServicesResponseSchema = z.object({
     name: z.string(),
     address: z.string(),
     port: z.number(),
+    datacenter: z.string().optional(),
+    namespace: z.string().optional(),
+    partition: z.string().optional(),
     tags: z.array(z.string()),
     health: z.object({
       status: z.string(),
+      maintenance: z.boolean().optional(),
       checks: z.array(z.object({
         id: z.string(),
         name: z.string(),
@@ -27,6 +56,9 @@ export const GetServicesResponseSchema = z.object({
 // Schema for GetHealthChecks action
 export const GetHealthChecksSchema = z.object({
   failing_only: z.boolean().optional(),
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
 });
 
 export const GetHealthChecksResponseSchema = z.object({
@@ -35,6 +67,10 @@ export const GetHealthChecksResponseSchema = z.object({
     name: z.string(),
     status: z.string(),
     service_name: z.string().optional(),
+    node: z.string().optional(),
+    datacenter: z.string().optional(),
+    namespace: z.string().optional(),
+    partition: z.string().optional(),
     output: z.string().optional(),
     analysis: z.object({
       possible_issues: z.array(z.string()).optional(),
@@ -47,39 +83,102 @@ export const GetHealthChecksResponseSchema = z.object({
 // Schema for GetServiceConnections action
 export const GetServiceConnectionsSchema = z.object({
   failing_only: z.boolean().optional(),
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
 });
 
 export const GetServiceConnectionsResponseSchema = z.object({
   connections: z.array(z.object({
     source: z.string(),
     destination: z.string(),
+    datacenter: z.string().optional(),
+    source_namespace: z.string().optional(),
+    source_partition: z.string().optional(),
+    destination_namespace: z.string().optional(),
+    destination_partition: z.string().optional(),
     status: z.string(),
     protocol: z.string().optional(),
     latency: z.number().optional(),
     error_rate: z.number().optional(),
+    request_volume: z.number().optional(),
     error_message: z.string().optional(),
+    metrics_source: z.enum(['prometheus', 'none']).optional(),
+    metrics_window: z.string().optional(),
+    // Where the connection was found; "name-heuristic" only appears when enabled
+    evidence: z.array(z.enum([
+      'intention',
+      'proxy-upstream',
+      'service-router',
+      'service-resolver',
+      'service-meta',
+      'name-heuristic',
+    ])).optional(),
   })),
 });
 
+// Diagram source format; "json" is the plain nodes and edges graph
+export const DiagramFormatSchema = z.enum(DIAGRAM_FORMATS).optional()
+  .describe('Diagram format: mermaid (default), dot (Graphviz), plantuml, d2, or json for the nodes and edges graph');
+
+// Image to render alongside the diagram source
+export const DiagramImageSchema = z.enum(DIAGRAM_IMAGE_TYPES).optional()
+  .describe('Also return the diagram as an image: svg, or png for clients that cannot display SVG');
+
+// Arguments that draw part of the mesh instead of all of it
+export const DiagramFocusSchema = z.object({
+  focus_service: z.string().optional()
+    .describe('Draw only this service and the services around it'),
+  depth: z.number().int().min(1).optional()
+    .describe('How many hops from focus_service to draw; defaults to 1'),
+  direction: z.enum(['upstream', 'downstream', 'both']).optional()
+    .describe('Follow connections to the services focus_service calls (upstream), that call it (downstream), or both (default)'),
+  path_from: z.string().optional()
+    .describe('Draw and highlight every path from this service to path_to'),
+  path_to: z.string().optional()
+    .describe('Service the paths from path_from end at'),
+  tags: z.array(z.string()).optional()
+    .describe('Only draw instances with all of these tags'),
+  nodes: z.array(z.string()).optional()
+    .describe('Only draw instances on one of these nodes'),
+  health: z.array(z.enum(['passing', 'warning', 'critical', 'unknown'])).optional()
+    .describe('Only draw instances with one of these health statuses'),
+});
+
 // Schema for CreateServiceDiagram action
 export const CreateServiceDiagramSchema = z.object({
   include_health: z.boolean().optional(),
   include_metrics: z.boolean().optional(),
+  format: DiagramFormatSchema,
+  image: DiagramImageSchema,
+  ...DiagramFocusSchema.shape,
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
 });
 
 export const CreateServiceDiagramResponseSchema = z.object({
   diagram: z.string(),
-  format: z.string(), // "mermaid", "graphviz", etc.
+  format: z.enum(DIAGRAM_FORMATS),
 });
 
+// SVG document returned by the diagram image endpoint
+export const ServiceDiagramSvgSchema = z.string().describe('SVG document');
+
 // Schema for AnalyzeService action
 export const AnalyzeServiceSchema = z.object({
   service_name: z.string(),
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
 });
 
-export const AnalyzeServiceResponseSchema = z.object({
+const ServiceAnalysisResultSchema = z.object({
   service: z.object({
     name: z.string(),
+    datacenter: z.string().optional(),
+    namespace: z.string().optional(),
+    partition: z.string().optional(),
     health: z.object({
       status: z.string(),
       checks: z.array(z.object({
@@ -99,10 +198,12 @@ export const AnalyzeServiceResponseSchema = z.object({
       })).optional(),
     }).optional(),
     metrics: z.object({
-      cpu_usage: z.number().optional(),
-      memory_usage: z.number().optional(),
-      request_rate: z.number().optional(),
-      error_rate: z.number().optional(),
+      source: z.enum(['prometheus', 'none']),
+      window: z.string().nullable(),
+      cpu_usage: z.number().nullable().optional(),
+      memory_usage: z.number().nullable().optional(),
+      request_rate: z.number().nullable().optional(),
+      error_rate: z.number().nullable().optional(),
     }).optional(),
   }),
   analysis: z.object({
@@ -111,36 +212,651 @@ export const AnalyzeServiceResponseSchema = z.object({
   }),
 });
 
+// With datacenter "*" there is one result per datacenter the service exists in
+export const AnalyzeServiceResponseSchema = z.union([
+  ServiceAnalysisResultSchema,
+  z.object({ datacenters: z.array(ServiceAnalysisResultSchema) }),
+]);
+
 // Schema for GetServiceMetrics action
 export const GetServiceMetricsSchema = z.object({
   service_name: z.string(),
+  service_id: z.string().optional(),
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+// Metrics without data are null rather than estimated; `source` and `window`
+// say where the measured values came from.
+const ServiceMetricsSchema = z.object({
+  serviceName: z.string(),
+  datacenter: z.string().optional(),
+  source: z.enum(['prometheus', 'none']),
+  window: z.string().nullable(),
+  cpu: z.object({
+    usage: z.number().nullable(),
+    cores: z.number().nullable(),
+  }),
+  memory: z.object({
+    used: z.number().nullable(),
+    total: z.number().nullable(),
+  }),
+  network: z.object({
+    rxBytes: z.number().nullable(),
+    txBytes: z.number().nullable(),
+  }),
+  requestRate: z.number().nullable(),
+  errorRate: z.number().nullable(),
+  responseTime: z.object({
+    p50: z.number().nullable(),
+    p90: z.number().nullable(),
+    p99: z.number().nullable(),
+  }),
 });
 
+// With datacenter "*" there is one sample per datacenter
 export const GetServiceMetricsResponseSchema = z.object({
-  metrics: z.object({
-    service_name: z.string(),
-    cpu: z.object({
-      usage: z.number(),
-      cores: z.number().optional(),
-    }).optional(),
-    memory: z.object({
-      used: z.number().optional(),
-      total: z.number().optional(),
-    }).optional(),
-    network: z.object({
-      rxBytes: z.number().optional(),
-      txBytes: z.number().optional(),
-    }).optional(),
-    request_rate: z.number().optional(),
-    error_rate: z.number().optional(),
-    response_time: z.object({
-      p50: z.number().optional(),
-      p90: z.number().optional(),
-      p99: z.number().optional(),
-    }).optional(),
+  metrics: z.union([ServiceMetricsSchema, z.array(ServiceMetricsSchema)]),
+});
+
+// Schema for the mesh-wide analysis
+export const AnalyzeServiceMeshSchema = z.object({
+  datacenter: z.string().optional().describe('Datacenter to analyze. Omit for the local datacenter'),
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const AnalyzeServiceMeshResponseSchema = z.object({
+  summary: z.string(),
+  issues: z.array(z.string()),
+  recommendations: z.array(z.string()),
+});
+
+// Intentions in Consul's service-intentions config entry format
+const IntentionActionSchema = z.enum(['allow', 'deny']);
+
+export const IntentionPermissionSchema = z.object({
+  Action: IntentionActionSchema,
+  HTTP: z.object({
+    PathExact: z.string().optional(),
+    PathPrefix: z.string().optional(),
+    PathRegex: z.string().optional(),
+    Methods: z.array(z.string()).optional(),
+    Header: z.array(z.object({
+      Name: z.string(),
+      Present: z.boolean().optional(),
+      Exact: z.string().optional(),
+      Prefix: z.string().optional(),
+      Suffix: z.string().optional(),
+      Regex: z.string().optional(),
+      Invert: z.boolean().optional(),
+    })).optional(),
+  }).optional(),
+});
+
+const IntentionSourceSchema = z.object({
+  Name: z.string(),
+  Namespace: z.string().optional(),
+  Partition: z.string().optional(),
+  Peer: z.string().optional(),
+  Action: IntentionActionSchema.optional(),
+  Permissions: z.array(IntentionPermissionSchema).optional(),
+  Description: z.string().optional(),
+  Precedence: z.number().optional(),
+  Type: z.string().optional(),
+});
+
+export const IntentionsConfigEntrySchema = z.object({
+  Kind: z.literal('service-intentions'),
+  Name: z.string().describe('Destination service'),
+  Namespace: z.string().optional(),
+  Partition: z.string().optional(),
+  Sources: z.array(IntentionSourceSchema),
+  Meta: z.record(z.string()).optional(),
+});
+
+// Writes go to exactly one datacenter
+const TargetDatacenterSchema = z.string().optional()
+  .describe('Datacenter to use. Omit for the local datacenter');
+
+// Schema for UpsertIntention action
+export const UpsertIntentionSchema = z.object({
+  source: z.string().optional().describe('Source service name'),
+  destination: z.string().optional().describe('Destination service name'),
+  source_namespace: z.string().optional(),
+  source_partition: z.string().optional(),
+  action: IntentionActionSchema.optional().describe('L4 action. Set either action or permissions'),
+  permissions: z.array(IntentionPermissionSchema).optional()
+    .describe('L7 permissions, evaluated in order, for HTTP-based destinations'),
+  description: z.string().optional(),
+  config_entry: IntentionsConfigEntrySchema.optional()
+    .describe('A complete service-intentions config entry, instead of source and destination. Replaces every intention of its destination'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const UpsertIntentionResponseSchema = z.object({
+  intentions: IntentionsConfigEntrySchema,
+});
+
+// Schema for DeleteIntention action
+export const DeleteIntentionSchema = z.object({
+  source: z.string().describe('Source service name'),
+  destination: z.string().describe('Destination service name'),
+  source_namespace: z.string().optional(),
+  source_partition: z.string().optional(),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const DeleteIntentionResponseSchema = z.object({
+  deleted: z.boolean(),
+});
+
+// Schema for CheckIntention action
+export const CheckIntentionSchema = DeleteIntentionSchema;
+
+export const CheckIntentionResponseSchema = z.object({
+  allowed: z.boolean(),
+});
+
+// Schema for ExplainConnectivity action
+export const ExplainConnectivitySchema = z.object({
+  source: z.string().describe('Source service name'),
+  destination: z.string().describe('Destination service name'),
+  source_namespace: z.string().optional(),
+  source_partition: z.string().optional(),
+  http: z.object({
+    path: z.string().optional(),
+    method: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+  }).optional().describe('HTTP request to evaluate L7 permissions against'),
+  intentions: z.array(IntentionsConfigEntrySchema).optional()
+    .describe('Recorded service-intentions config entries to evaluate instead of reading them from Consul'),
+  default_policy: IntentionActionSchema.optional()
+    .describe('Default ACL policy. Omit to read it from Consul; with recorded intentions "allow" is assumed'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+const ConsideredIntentionSchema = z.object({
+  source: z.string(),
+  destination: z.string(),
+  precedence: z.number(),
+  matches: z.boolean(),
+  action: IntentionActionSchema.optional(),
+  permissions: z.array(IntentionPermissionSchema).optional(),
+  description: z.string().optional(),
+});
+
+export const ExplainConnectivityResponseSchema = z.object({
+  source: z.string(),
+  destination: z.string(),
+  decision: z.enum(['allow', 'deny', 'depends-on-request']),
+  default_policy: IntentionActionSchema,
+  default_policy_source: z.enum(['argument', 'consul', 'assumed']),
+  matched_intention: ConsideredIntentionSchema.nullable(),
+  matched_permission: z.object({
+    index: z.number(),
+    permission: IntentionPermissionSchema,
+  }).nullable(),
+  chain: z.array(z.string()),
+  considered: z.array(ConsideredIntentionSchema),
+});
+
+// Schema for KvGet action
+export const KvGetSchema = z.object({
+  key: z.string().describe('Key to read'),
+  max_bytes: z.number().int().positive().optional()
+    .describe('Truncate the value to this many bytes. Defaults to 16384'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+const KvEntrySchema = z.object({
+  key: z.string(),
+  value: z.string().nullable(),
+  encoding: z.enum(['utf8', 'base64']).describe('base64 for values that are not UTF-8 text'),
+  size: z.number().describe('Size of the whole value in bytes'),
+  truncated: z.boolean(),
+  flags: z.number(),
+  modify_index: z.number().describe('Pass as cas to kv_put to update the key only if it has not changed'),
+  create_index: z.number(),
+  lock_index: z.number(),
+  session: z.string().optional(),
+  namespace: z.string().optional(),
+  partition: z.string().optional(),
+});
+
+export const KvGetResponseSchema = z.object({
+  entry: KvEntrySchema,
+});
+
+// Schema for KvList action
+export const KvListSchema = z.object({
+  prefix: z.string().optional().default('').describe('Key prefix. Omit to list the whole store'),
+  keys_only: z.boolean().optional().describe('List key names without values'),
+  separator: z.string().optional()
+    .describe('With keys_only, list keys only up to this separator, e.g. "/" for one level'),
+  limit: z.number().int().positive().optional().describe('Maximum number of keys. Defaults to 100'),
+  max_bytes: z.number().int().positive().optional()
+    .describe('Truncate each value to this many bytes. Defaults to 1024'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const KvListResponseSchema = z.object({
+  prefix: z.string(),
+  keys: z.array(z.string()).optional(),
+  entries: z.array(KvEntrySchema).optional(),
+  total: z.number(),
+  truncated: z.boolean(),
+});
+
+// Schema for KvPut action
+export const KvPutSchema = z.object({
+  key: z.string().describe('Key to write'),
+  value: z.string(),
+  encoding: z.enum(['utf8', 'base64']).optional().describe('Encoding of value. Defaults to utf8'),
+  cas: z.number().int().nonnegative().optional()
+    .describe('Only write if the key is still at this modify_index; 0 only creates a new key'),
+  flags: z.number().int().nonnegative().optional(),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const KvPutResponseSchema = z.object({
+  key: z.string(),
+  written: z.boolean().describe('False when cas no longer matched'),
+});
+
+// Schema for KvDelete action
+export const KvDeleteSchema = z.object({
+  key: z.string().describe('Key to delete, or the prefix to delete with recurse'),
+  recurse: z.boolean().optional().describe('Delete every key under the prefix'),
+  cas: z.number().int().nonnegative().optional()
+    .describe('Only delete if the key is still at this modify_index'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const KvDeleteResponseSchema = z.object({
+  key: z.string(),
+  deleted: z.boolean().describe('False when cas no longer matched'),
+});
+
+const KvChangeSchema = z.object({
+  op: z.enum(['set', 'delete', 'check']),
+  key: z.string(),
+  value: z.string().optional().describe('For set, unless source_key is given'),
+  encoding: z.enum(['utf8', 'base64']).optional().describe('Encoding of value. Defaults to utf8'),
+  source_key: z.string().optional().describe('For set: copy the value of this key'),
+  source_index: z.number().int().positive().optional()
+    .describe('For source_key: only if the source key is still at this modify_index'),
+  cas: z.number().int().nonnegative().optional()
+    .describe('Only if the key is still at this modify_index; 0 if it must not exist. Required for check'),
+  flags: z.number().int().nonnegative().optional(),
+});
+
+// Schema for KvDiff action
+export const KvDiffSchema = z.object({
+  source_prefix: z.string().optional().describe('Prefix with the desired keys and values, e.g. "config/staging/"'),
+  document: z.string().optional()
+    .describe('JSON or YAML document with the desired keys and values, instead of source_prefix. Nested objects become "/"-separated keys'),
+  target_prefix: z.string().describe('Prefix to compare, and to change with the returned change set, e.g. "config/prod/"'),
+  include_deletes: z.boolean().optional()
+    .describe('Delete keys that are missing from the source in the change set'),
+  limit: z.number().int().positive().optional().describe('Maximum number of differences. Defaults to 100'),
+  max_bytes: z.number().int().positive().optional()
+    .describe('Truncate each value to this many bytes. Defaults to 1024'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const KvDiffResponseSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  added: z.number(),
+  removed: z.number(),
+  changed: z.number(),
+  unchanged: z.number(),
+  entries: z.array(z.object({
+    key: z.string().describe('Relative to the prefixes'),
+    status: z.enum(['added', 'removed', 'changed']),
+    source_value: z.string().optional(),
+    target_value: z.string().optional(),
+  })),
+  changes: z.array(KvChangeSchema).describe('Change set for kv_apply that makes the target match the source'),
+  truncated: z.boolean().describe('Whether entries and changes stop at limit, or where the change set fills one transaction'),
+});
+
+// Schema for KvApply action
+export const KvApplySchema = z.object({
+  changes: z.array(KvChangeSchema)
+    .describe('Changes to apply in one transaction, at most 64, such as the change set from kv_diff'),
+  dry_run: z.boolean().optional().describe('Report what each change would do without applying it'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const KvApplyResponseSchema = z.object({
+  dry_run: z.boolean(),
+  committed: z.boolean().describe('False after a dry run, or when the transaction was rolled back'),
+  operations: z.array(z.object({
+    op: z.enum(['set', 'delete', 'check']),
+    key: z.string(),
+    action: z.enum(['create', 'update', 'unchanged', 'delete', 'none']).optional(),
+    conflict: z.string().optional(),
+  })),
+  errors: z.array(z.object({
+    key: z.string(),
+    message: z.string(),
+  })),
+});
+
+// Registrations go through the local agent, or straight to the catalog for nodes without an agent
+const RegistrationTargetSchema = z.enum(['agent', 'catalog']).optional()
+  .describe('"agent" (default) registers with the agent this server connects to; "catalog" writes the catalog directly, for nodes without an agent');
+
+const CatalogNodeSchema = z.string().optional().describe('Node of the service instance. Required for the catalog');
+
+const ServiceInstanceSchema = GetServicesResponseSchema.shape.services.element;
+
+const RegistrationChangeResponseSchema = z.object({
+  before: ServiceInstanceSchema.nullable().describe('The instance before the change; null when it was not registered'),
+  after: ServiceInstanceSchema.nullable().describe('The instance after the change; null when it is not registered'),
+});
+
+// Schema for RegisterService action
+export const RegisterServiceSchema = z.object({
+  name: z.string().describe('Service name'),
+  id: z.string().optional().describe('Instance ID. Defaults to the name; an existing instance with this ID is replaced'),
+  address: z.string().optional(),
+  port: z.number().int().min(0).max(65535).optional(),
+  tags: z.array(z.string()).optional(),
+  meta: z.record(z.string()).optional(),
+  check: z.object({
+    http: z.string().optional().describe('URL to GET'),
+    tcp: z.string().optional().describe('host:port to connect to'),
+    grpc: z.string().optional().describe('host:port/service of a gRPC health endpoint'),
+    ttl: z.string().optional().describe('TTL check, updated by the service itself'),
+    interval: z.string().optional().describe('Required for http, tcp and grpc checks, e.g. "10s"'),
+    timeout: z.string().optional(),
+    deregister_critical_service_after: z.string().optional(),
+  }).optional().describe('Health check, for agent registrations'),
+  target: RegistrationTargetSchema,
+  node: CatalogNodeSchema,
+  node_address: z.string().optional().describe('Address of the node. Required for the catalog'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const RegisterServiceResponseSchema = RegistrationChangeResponseSchema;
+
+// Schema for DeregisterService action
+export const DeregisterServiceSchema = z.object({
+  service_id: z.string().describe('Instance ID'),
+  target: RegistrationTargetSchema,
+  node: CatalogNodeSchema,
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const DeregisterServiceResponseSchema = RegistrationChangeResponseSchema;
+
+// Schema for SetMaintenanceMode action
+export const SetMaintenanceModeSchema = z.object({
+  service_id: z.string().describe('Instance ID'),
+  enable: z.boolean().describe('true drains the instance from discovery; false returns it to service'),
+  reason: z.string().optional().describe('Shown in the maintenance check'),
+  target: RegistrationTargetSchema,
+  node: CatalogNodeSchema,
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const SetMaintenanceModeResponseSchema = RegistrationChangeResponseSchema;
+
+const ConfigEntryKindSchema = z.enum(CONFIG_ENTRY_KINDS);
+
+// Config entries in Consul's format; the fields besides these depend on the kind
+const ConfigEntrySchema = z.object({
+  Kind: z.string(),
+  Name: z.string(),
+  Namespace: z.string().optional(),
+  Partition: z.string().optional(),
+}).passthrough();
+
+// Schema for ListConfigEntries action
+export const ListConfigEntriesSchema = z.object({
+  kind: ConfigEntryKindSchema,
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const ListConfigEntriesResponseSchema = z.object({
+  kind: ConfigEntryKindSchema,
+  entries: z.array(ConfigEntrySchema),
+});
+
+// Schema for GetConfigEntry action
+export const GetConfigEntrySchema = z.object({
+  kind: ConfigEntryKindSchema,
+  name: z.string().describe('Entry name: the service for service-level kinds, "global" for proxy-defaults, "mesh" for mesh'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const GetConfigEntryResponseSchema = z.object({
+  entry: ConfigEntrySchema,
+});
+
+// Schema for GetDiscoveryChain action
+export const GetDiscoveryChainSchema = z.object({
+  service: z.string().describe('Service whose outbound traffic to explain'),
+  datacenter: TargetDatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+export const GetDiscoveryChainResponseSchema = z.object({
+  chain: z.object({
+    service: z.string(),
+    namespace: z.string().optional(),
+    partition: z.string().optional(),
+    datacenter: z.string(),
+    protocol: z.string(),
+    is_default: z.boolean().describe('True when no config entries customize the chain'),
+    start_node: z.string(),
+    nodes: z.array(z.object({
+      id: z.string(),
+      type: z.enum(['router', 'splitter', 'resolver']),
+      name: z.string(),
+      routes: z.array(z.object({
+        match: z.record(z.unknown()).optional().describe('HTTP match; unset for the catch-all route'),
+        destination: z.record(z.unknown()).optional(),
+        next_node: z.string(),
+      })).optional(),
+      splits: z.array(z.object({
+        weight: z.number(),
+        next_node: z.string(),
+      })).optional(),
+      resolver: z.object({
+        target: z.string(),
+        connect_timeout: z.string().optional(),
+        is_default: z.boolean(),
+        failover_targets: z.array(z.string()),
+      }).optional(),
+    })),
+    targets: z.array(z.object({
+      id: z.string(),
+      service: z.string(),
+      service_subset: z.string().optional(),
+      namespace: z.string().optional(),
+      partition: z.string().optional(),
+      datacenter: z.string(),
+      peer: z.string().optional(),
+    })),
   }),
+  diagram: z.string().describe('Mermaid flowchart of the chain'),
 });
 
+// Schema for GetBlastRadius action
+export const GetBlastRadiusSchema = z.object({
+  service: z.string().optional().describe('Service that fails'),
+  node: z.string().optional().describe('Node that fails, taking every service instance on it down. Give this or service'),
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+// Affected services lose a dependency; their path runs from them to the failure
+const BlastRadiusSchema = z.object({
+  failure: z.object({
+    service: z.string().optional(),
+    node: z.string().optional(),
+  }),
+  datacenter: z.string().optional(),
+  failed_services: z.array(z.string()).describe('Services with no instance left'),
+  degraded_services: z.array(z.string()).describe('Services that keep instances on other nodes'),
+  affected_services: z.array(z.object({
+    service: z.string(),
+    hops: z.number(),
+    path: z.array(z.string()),
+  })),
+  cycles: z.array(z.array(z.string())).describe('Dependency cycles through the blast radius'),
+  single_points_of_failure: z.array(z.object({
+    service: z.string(),
+    node: z.string(),
+    dependents: z.number(),
+  })).describe('Services in the blast radius that others depend on and that run on one node'),
+});
+
+export const GetBlastRadiusResponseSchema = z.union([
+  BlastRadiusSchema,
+  z.object({ datacenters: z.array(BlastRadiusSchema) }),
+]);
+
+// Schema for AnalyzeTopology action
+export const AnalyzeTopologySchema = z.object({
+  datacenter: DatacenterSchema,
+  namespace: NamespaceSchema,
+  partition: PartitionSchema,
+});
+
+const TopologyAnalysisSchema = z.object({
+  datacenter: z.string().optional(),
+  service_count: z.number(),
+  connection_count: z.number(),
+  centrality: z.array(z.object({
+    service: z.string(),
+    betweenness: z.number(),
+    fan_in: z.number(),
+    fan_out: z.number(),
+  })),
+  cycles: z.array(z.array(z.string())),
+  articulation_points: z.array(z.string()),
+  longest_chains: z.array(z.object({
+    services: z.array(z.string()),
+    depth: z.number(),
+  })),
+  fan_in_outliers: z.array(z.object({ service: z.string(), count: z.number() })),
+  fan_out_outliers: z.array(z.object({ service: z.string(), count: z.number() })),
+  isolated_services: z.array(z.string()),
+  definitions: z.record(z.string()).describe('What each finding means'),
+});
+
+export const AnalyzeTopologyResponseSchema = z.union([
+  TopologyAnalysisSchema,
+  z.object({ datacenters: z.array(TopologyAnalysisSchema) }),
+]);
+
+// Schema for GetNodes action; nodes belong to partitions, not namespaces
+export const GetNodesSchema = z.object({
+  datacenter: DatacenterSchema,
+  partition: PartitionSchema,
+});
+
+const SerfStatusSchema = z.enum(['none', 'alive', 'leaving', 'left', 'failed']);
+
+export const GetNodesResponseSchema = z.object({
+  nodes: z.array(z.object({
+    id: z.string().optional(),
+    name: z.string(),
+    address: z.string(),
+    datacenter: z.string().optional(),
+    partition: z.string().optional(),
+    status: z.string().describe('Worst node-level check, such as serfHealth'),
+    serf_status: z.union([SerfStatusSchema, z.literal('unknown')])
+      .describe('Gossip status seen by the local agent; "unknown" for nodes it has no member for, such as nodes in other datacenters'),
+    service_count: z.number(),
+    failing_service_count: z.number(),
+  })),
+});
+
+// Schema for GetNode action
+export const GetNodeSchema = z.object({
+  node: z.string().describe('Node name'),
+  datacenter: DatacenterSchema,
+  partition: PartitionSchema,
+});
+
+const NodeCheckSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.string(),
+  output: z.string(),
+});
+
+const NodeDetailsSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  address: z.string(),
+  datacenter: z.string().optional(),
+  partition: z.string().optional(),
+  tagged_addresses: z.record(z.string()),
+  meta: z.record(z.string()),
+  health: z.object({
+    status: z.string(),
+    checks: z.array(NodeCheckSchema),
+  }),
+  serf: z.object({
+    name: z.string(),
+    address: z.string(),
+    port: z.number(),
+    status: SerfStatusSchema,
+    role: z.string().optional(),
+    tags: z.record(z.string()),
+  }).nullable(),
+  services: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    port: z.string(),
+    status: z.string().describe('Includes the node checks'),
+    checks: z.array(NodeCheckSchema),
+  })),
+});
+
+export const GetNodeResponseSchema = z.union([
+  NodeDetailsSchema,
+  z.object({ datacenters: z.array(NodeDetailsSchema) }),
+]);
+
 // Define MCP action names
 export const MCP_ACTIONS = {
   GET_SERVICES: 'get_services',
@@ -149,6 +865,27 @@ export const MCP_ACTIONS = {
   CREATE_SERVICE_DIAGRAM: 'create_service_diagram',
   ANALYZE_SERVICE: 'analyze_service',
   GET_SERVICE_METRICS: 'get_service_metrics',
+  LIST_DATACENTERS: 'list_datacenters',
+  CHECK_INTENTION: 'check_intention',
+  UPSERT_INTENTION: 'upsert_intention',
+  DELETE_INTENTION: 'delete_intention',
+  EXPLAIN_CONNECTIVITY: 'explain_connectivity',
+  KV_GET: 'kv_get',
+  KV_LIST: 'kv_list',
+  KV_PUT: 'kv_put',
+  KV_DELETE: 'kv_delete',
+  KV_DIFF: 'kv_diff',
+  KV_APPLY: 'kv_apply',
+  REGISTER_SERVICE: 'register_service',
+  DEREGISTER_SERVICE: 'deregister_service',
+  SET_MAINTENANCE_MODE: 'set_maintenance_mode',
+  LIST_CONFIG_ENTRIES: 'list_config_entries',
+  GET_CONFIG_ENTRY: 'get_config_entry',
+  GET_DISCOVERY_CHAIN: 'get_discovery_chain',
+  GET_BLAST_RADIUS: 'get_blast_radius',
+  ANALYZE_TOPOLOGY: 'analyze_topology',
+  GET_NODES: 'get_nodes',
+  GET_NODE: 'get_node',
 };
 
 // Define the console message templates for better outputs
@@ -159,4 +896,25 @@ export const CONSOLE_TEMPLATES = {
   CREATE_SERVICE_DIAGRAM: 'Generating service mesh diagram',
   ANALYZE_SERVICE: 'Analyzing service: {{service_name}}',
   GET_SERVICE_METRICS: 'Retrieving metrics for service: {{service_name}}',
+  LIST_DATACENTERS: 'Listing Consul datacenters',
+  CHECK_INTENTION: 'Checking whether {{source}} may connect to {{destination}}',
+  UPSERT_INTENTION: 'Writing the intention from {{source}} to {{destination}}',
+  DELETE_INTENTION: 'Deleting the intention from {{source}} to {{destination}}',
+  EXPLAIN_CONNECTIVITY: 'Explaining whether {{source}} may connect to {{destination}}',
+  KV_GET: 'Reading KV key: {{key}}',
+  KV_LIST: 'Listing KV keys under: {{prefix}}',
+  KV_PUT: 'Writing KV key: {{key}}',
+  KV_DELETE: 'Deleting KV key: {{key}}',
+  KV_DIFF: 'Comparing KV prefix {{target_prefix}}',
+  KV_APPLY: 'Applying KV changes',
+  REGISTER_SERVICE: 'Registering service: {{name}}',
+  DEREGISTER_SERVICE: 'Deregistering service instance: {{service_id}}',
+  SET_MAINTENANCE_MODE: 'Setting maintenance mode of service instance: {{service_id}}',
+  LIST_CONFIG_ENTRIES: 'Listing {{kind}} config entries',
+  GET_CONFIG_ENTRY: 'Reading {{kind}} config entry: {{name}}',
+  GET_DISCOVERY_CHAIN: 'Compiling the discovery chain of service: {{service}}',
+  GET_BLAST_RADIUS: 'Working out the blast radius of a failure',
+  ANALYZE_TOPOLOGY: 'Analyzing the service mesh topology',
+  GET_NODES: 'Listing Consul nodes',
+  GET_NODE: 'Reading node: {{node}}',
 };
\ No newline at end of file
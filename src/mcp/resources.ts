@@ -0,0 +1,222 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+import { CACHE_KEYS, ConsulClient } from '../resources/consul-client.js';
+import { ServiceManager } from '../resources/services.js';
+import { HealthManager } from '../resources/health.js';
+import { KvManager } from '../resources/kv.js';
+import { NodeManager } from '../resources/nodes.js';
+import { toKvEntryResponse, toNodeResponse } from './actions.js';
+
+// State cache keys each subscribable resource is derived from
+const SUBSCRIBABLE_RESOURCES: Record<string, string[]> = {
+  "consul://services": [
+    CACHE_KEYS.SERVICES,
+    CACHE_KEYS.HEALTH,
+    CACHE_KEYS.INTENTIONS,
+    CACHE_KEYS.SERVICE_ROUTERS,
+    CACHE_KEYS.SERVICE_RESOLVERS
+  ],
+  "consul://health-summary": [CACHE_KEYS.HEALTH]
+};
+
+// Changes to several cache keys usually arrive together; send one update for them
+const NOTIFY_DEBOUNCE_MS = 250;
+
+export function registerResources(server: McpServer, consulClient: ConsulClient): void {
+  const serviceManager = new ServiceManager(consulClient);
+  const healthManager = new HealthManager(consulClient);
+
+  // Register a high-level "root" Consul resource that links to subresources
+  server.resource("consul", "consul://", async () => {
+    console.error("Read requested for consul://");
+    return {
+      contents: [
+        {
+          uri: "consul://",
+          text: JSON.stringify({
+            type: "success",
+            resources: [
+              {
+                uri: "consul://services",
+                title: "Registered Consul Services"
+              },
+              {
+                uri: "consul://health-summary",
+                title: "Consul Health Summary"
+              },
+              {
+                uriTemplate: "consul://kv/{+path}",
+                title: "Consul KV Entry"
+              },
+              {
+                uriTemplate: "consul://nodes/{node}",
+                title: "Consul Node"
+              }
+            ]
+          }, null, 2)
+        }
+      ]
+    };
+  });
+
+  // Register a detailed health summary resource
+  server.resource("health_summary", "consul://health-summary", async () => {
+    console.error("Read requested for consul://health-summary");
+    const summary = await healthManager.getHealthSummary();
+    return {
+      contents: [
+        {
+          uri: "consul://health-summary",
+          text: JSON.stringify(summary, null, 2)
+        }
+      ]
+    };
+  });
+
+  // Register a detailed services list resource
+  server.resource("services", "consul://services", async () => {
+    console.error("Read requested for consul://services");
+    const services = await serviceManager.getAllServices();
+    return {
+      contents: [
+        {
+          uri: "consul://services",
+          text: JSON.stringify(services, null, 2)
+        }
+      ]
+    };
+  });
+
+  // Register KV entries; a path ending in "/" lists the keys under it
+  server.resource("kv", new ResourceTemplate("consul://kv/{+path}", { list: undefined }), async (uri, variables) => {
+    const path = decodeURIComponent(String(variables.path));
+    console.error(`Read requested for ${uri.href}`);
+    const kvManager = new KvManager(consulClient);
+
+    if (path.endsWith("/")) {
+      const listing = await kvManager.list(path, { keysOnly: true });
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            text: JSON.stringify(listing, null, 2)
+          }
+        ]
+      };
+    }
+
+    const entry = await kvManager.get(path);
+    if (!entry) {
+      throw new McpError(ErrorCode.InvalidParams, `Key ${path} not found`);
+    }
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(toKvEntryResponse(entry), null, 2)
+        }
+      ]
+    };
+  });
+
+  // Register nodes with their checks, Serf membership and service instances
+  server.resource("node", new ResourceTemplate("consul://nodes/{node}", { list: undefined }), async (uri, variables) => {
+    const name = decodeURIComponent(String(variables.node));
+    console.error(`Read requested for ${uri.href}`);
+
+    const node = await new NodeManager(consulClient).getNode(name);
+    if (!node) {
+      throw new McpError(ErrorCode.InvalidParams, `Node ${name} not found`);
+    }
+    return {
+      contents: [
+        {
+          uri: uri.href,
+          text: JSON.stringify(toNodeResponse(node), null, 2)
+        }
+      ]
+    };
+  });
+
+  registerResourceSubscriptions(server, consulClient);
+}
+
+/**
+ * Advertises resource subscriptions and sends notifications/resources/updated
+ * whenever the Consul state behind a subscribed resource changes. Changes are
+ * detected by the ConsulClient state cache, so nothing is advertised without it.
+ * @param server The MCP server instance
+ * @param consulClient ConsulClient with a state cache
+ */
+function registerResourceSubscriptions(server: McpServer, consulClient: ConsulClient): void {
+  if (!consulClient.hasStateCache()) {
+    console.error('[MCP] State cache disabled, resource subscriptions are not available');
+    return;
+  }
+
+  const subscriptions = new Set<string>();
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  server.server.registerCapabilities({
+    resources: { subscribe: true }
+  });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const keys = SUBSCRIBABLE_RESOURCES[uri];
+    if (!keys) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} does not support subscriptions`);
+    }
+
+    subscriptions.add(uri);
+    // Reading the state starts its blocking-query watch
+    await consulClient.watchState(keys);
+    console.error(`Subscribed to ${uri}`);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    console.error(`Unsubscribed from ${request.params.uri}`);
+    return {};
+  });
+
+  const notify = (uri: string) => {
+    if (pending.has(uri)) return;
+
+    const timer = setTimeout(() => {
+      pending.delete(uri);
+      if (!subscriptions.has(uri)) return;
+
+      server.server.sendResourceUpdated({ uri }).catch(error => {
+        console.error(`Failed to send resource update for ${uri}:`, error);
+      });
+    }, NOTIFY_DEBOUNCE_MS);
+    timer.unref?.();
+    pending.set(uri, timer);
+  };
+
+  const unsubscribe = consulClient.onStateChange(event => {
+    for (const uri of subscriptions) {
+      if (SUBSCRIBABLE_RESOURCES[uri].includes(event.key)) {
+        notify(uri);
+      }
+    }
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    subscriptions.clear();
+    for (const timer of pending.values()) {
+      clearTimeout(timer);
+    }
+    pending.clear();
+    previousOnClose?.();
+  };
+}
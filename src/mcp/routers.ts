@@ -18,7 +18,28 @@ export function configureRouter(server: McpServer): void {
     MCP_ACTIONS.GET_SERVICE_CONNECTIONS,
     MCP_ACTIONS.CREATE_SERVICE_DIAGRAM,
     MCP_ACTIONS.ANALYZE_SERVICE,
-    MCP_ACTIONS.GET_SERVICE_METRICS
+    MCP_ACTIONS.GET_SERVICE_METRICS,
+    MCP_ACTIONS.LIST_DATACENTERS,
+    MCP_ACTIONS.CHECK_INTENTION,
+    MCP_ACTIONS.UPSERT_INTENTION,
+    MCP_ACTIONS.DELETE_INTENTION,
+    MCP_ACTIONS.EXPLAIN_CONNECTIVITY,
+    MCP_ACTIONS.KV_GET,
+    MCP_ACTIONS.KV_LIST,
+    MCP_ACTIONS.KV_PUT,
+    MCP_ACTIONS.KV_DELETE,
+    MCP_ACTIONS.KV_DIFF,
+    MCP_ACTIONS.KV_APPLY,
+    MCP_ACTIONS.REGISTER_SERVICE,
+    MCP_ACTIONS.DEREGISTER_SERVICE,
+    MCP_ACTIONS.SET_MAINTENANCE_MODE,
+    MCP_ACTIONS.LIST_CONFIG_ENTRIES,
+    MCP_ACTIONS.GET_CONFIG_ENTRY,
+    MCP_ACTIONS.GET_DISCOVERY_CHAIN,
+    MCP_ACTIONS.GET_BLAST_RADIUS,
+    MCP_ACTIONS.ANALYZE_TOPOLOGY,
+    MCP_ACTIONS.GET_NODES,
+    MCP_ACTIONS.GET_NODE
   ];
 
   for (const action of actions) {
@@ -37,24 +37,34 @@ export class TemplateManager {
    */
   private registerHelpers(): void {
     // Helper to format numbers
-    Handlebars.registerHelper('formatNumber', function(value: number, decimals: number = 2) {
+    Handlebars.registerHelper('formatNumber', function(value: number | null, decimals: number = 2) {
+      if (value === null || value === undefined) return 'unavailable';
       return value.toFixed(decimals);
     });
     
     // Helper to format percentages
-    Handlebars.registerHelper('formatPercent', function(value: number, decimals: number = 1) {
+    Handlebars.registerHelper('formatPercent', function(value: number | null, decimals: number = 1) {
+      if (value === null || value === undefined) return 'unavailable';
       return (value * 100).toFixed(decimals) + '%';
     });
     
     // Helper to format duration in ms
-    Handlebars.registerHelper('formatDuration', function(value: number) {
-      if (value < 1000) {
+    Handlebars.registerHelper('formatDuration', function(value: number | null) {
+      if (value === null || value === undefined) {
+        return 'unavailable';
+      } else if (value < 1000) {
         return `${value}ms`;
       } else {
         return `${(value / 1000).toFixed(2)}s`;
       }
     });
     
+    // Helper to divide two numbers; unavailable when either is
+    Handlebars.registerHelper('divide', function(a: number | null, b: number | null) {
+      if (a === null || a === undefined || !b) return null;
+      return a / b;
+    });
+
     // Helper to check if a value is greater than a threshold
     Handlebars.registerHelper('gt', function(a: number, b: number) {
       return a > b;
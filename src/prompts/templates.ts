@@ -156,30 +156,33 @@ export function registerTemplates(): Record<string, string> {
   
       // Template for service metrics
       "service_metrics": `
-  You are analyzing metrics for the service "{{metrics.service_name}}". Here's the data:
+  You are analyzing metrics for the service "{{metrics.serviceName}}". Here's the data:
+  
+  Source: {{metrics.source}}{{#if metrics.window}} (rate window {{metrics.window}}){{/if}}
+  Values shown as "unavailable" were not measured. Do not estimate or invent them.
   
   CPU:
   - Usage: {{formatPercent metrics.cpu.usage}}
   {{#if metrics.cpu.cores}}- Cores: {{metrics.cpu.cores}}{{/if}}
   
   Memory:
-  - Used: {{metrics.memory.used}}MB
-  - Total: {{metrics.memory.total}}MB
+  - Used: {{formatNumber metrics.memory.used 0}} MB
+  - Total: {{formatNumber metrics.memory.total 0}} MB
   - Usage: {{formatPercent (divide metrics.memory.used metrics.memory.total)}}
   
   {{#if metrics.network}}
   Network:
-  - Received: {{metrics.network.rxBytes}} bytes
-  - Transmitted: {{metrics.network.txBytes}} bytes
+  - Received: {{formatNumber metrics.network.rxBytes 0}} bytes/s
+  - Transmitted: {{formatNumber metrics.network.txBytes 0}} bytes/s
   {{/if}}
   
-  Request Rate: {{metrics.request_rate}} req/min
-  Error Rate: {{formatPercent metrics.error_rate}}
+  Request Rate: {{formatNumber metrics.requestRate 1}} req/min
+  Error Rate: {{formatPercent metrics.errorRate}}
   
   Response Time:
-  - P50 (median): {{formatDuration metrics.response_time.p50}}
-  - P90: {{formatDuration metrics.response_time.p90}}
-  - P99: {{formatDuration metrics.response_time.p99}}
+  - P50 (median): {{formatDuration metrics.responseTime.p50}}
+  - P90: {{formatDuration metrics.responseTime.p90}}
+  - P99: {{formatDuration metrics.responseTime.p99}}
   
   Please analyze these metrics and provide:
   1. Is this service performing within acceptable parameters?
@@ -0,0 +1,133 @@
+// src/resources/consul-api.ts
+
+/**
+ * Error returned by the Consul HTTP API, carrying the HTTP status and body
+ */
+export class ConsulApiError extends Error {
+  readonly status: number;
+  readonly body?: string;
+
+  constructor(message: string, status: number, body?: string) {
+    super(message);
+    this.name = 'ConsulApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export interface ConsulApiOptions {
+  baseUrl: string;  // Consul address including the /v1 prefix
+  token?: string;
+  timeoutMs?: number;
+}
+
+export interface ConsulRequestOptions {
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;   // Sent as JSON, except strings and bytes which are sent as-is
+  index?: string;   // Blocking query index
+  wait?: string;    // Blocking query wait time, e.g. "30s"
+  signal?: AbortSignal;
+}
+
+export interface ConsulResponse<T> {
+  data: T;
+  index: string | null; // X-Consul-Index, when the endpoint supports blocking
+}
+
+/**
+ * Minimal client for the parts of the Consul HTTP API that the `consul`
+ * package does not cover (Connect intentions, config entries, ...)
+ */
+export class ConsulApi {
+  private baseUrl: string;
+  private token?: string;
+  private timeoutMs: number;
+
+  /**
+   * Creates a new ConsulApi
+   * @param options Consul address, ACL token and request timeout
+   */
+  constructor(options: ConsulApiOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.token = options.token;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  async get<T>(path: string, options: ConsulRequestOptions = {}): Promise<ConsulResponse<T>> {
+    return this.request<T>('GET', path, options);
+  }
+
+  async put<T>(path: string, options: ConsulRequestOptions = {}): Promise<ConsulResponse<T>> {
+    return this.request<T>('PUT', path, options);
+  }
+
+  async delete<T>(path: string, options: ConsulRequestOptions = {}): Promise<ConsulResponse<T>> {
+    return this.request<T>('DELETE', path, options);
+  }
+
+  private async request<T>(method: string, path: string, options: ConsulRequestOptions): Promise<ConsulResponse<T>> {
+    const url = new URL(`${this.baseUrl}${path}`);
+
+    for (const [key, value] of Object.entries(options.query || {})) {
+      if (value !== undefined) url.searchParams.set(key, String(value));
+    }
+    if (options.index) url.searchParams.set('index', options.index);
+    if (options.wait) url.searchParams.set('wait', options.wait);
+
+    const headers: Record<string, string> = {};
+    if (this.token) headers['X-Consul-Token'] = this.token;
+    const raw = typeof options.body === 'string' || options.body instanceof Uint8Array;
+    if (options.body !== undefined && !raw) headers['Content-Type'] = 'application/json';
+
+    // Blocking queries may legitimately hold the connection for the whole wait time
+    const timeoutMs = this.timeoutMs + (options.wait ? parseDuration(options.wait) : 0);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    options.signal?.addEventListener('abort', abort);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: options.body === undefined ? undefined : raw ? options.body as string | Uint8Array : JSON.stringify(options.body),
+        signal: controller.signal
+      });
+      text = await response.text();
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+
+    if (!response.ok) {
+      throw new ConsulApiError(`Consul ${method} ${path} failed with HTTP ${response.status}: ${text.trim()}`, response.status, text);
+    }
+
+    return {
+      data: (text ? JSON.parse(text) : undefined) as T,
+      index: response.headers.get('x-consul-index')
+    };
+  }
+}
+
+/**
+ * Parses a Consul duration such as "500ms", "30s" or "5m" into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid duration: ${value}`);
+
+  const amount = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'ms':
+      return amount;
+    case 'm':
+      return amount * 60000;
+    case 'h':
+      return amount * 3600000;
+    default:
+      return amount * 1000;
+  }
+}
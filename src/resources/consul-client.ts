@@ -1,11 +1,244 @@
 // src/resources/consul-client.ts
 import Consul from 'consul';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import { ConsulApi, ConsulApiError, parseDuration } from './consul-api.js';
+import { MetricsProvider, MetricsSource, NoMetricsProvider } from './metrics.js';
+import {
+  BlockingQuery,
+  CacheEntryStatus,
+  StateCache,
+  StateCacheOptions,
+  StateChangeListener
+} from './state-cache.js';
+
+// Upper bound on Consul (and metrics) requests a single call keeps in flight
+const DEFAULT_CONCURRENCY = 8;
+
+// Keys of the Consul data kept in the state cache
+export const CACHE_KEYS = {
+  SERVICES: 'catalog-services',
+  HEALTH: 'health-checks',
+  INTENTIONS: 'intentions',
+  SERVICE_ROUTERS: 'service-routers',
+  SERVICE_SPLITTERS: 'service-splitters',
+  SERVICE_RESOLVERS: 'service-resolvers'
+};
+
+// Serf member statuses, indexed by the numeric status /agent/members returns
+const SERF_STATUSES: SerfStatus[] = ['none', 'alive', 'leaving', 'left', 'failed'];
+
+// Datacenter argument that fans a read out to every known datacenter
+export const ALL_DATACENTERS = '*';
+
+// Where a ConsulClient reads from. Namespaces and admin partitions are
+// Consul Enterprise features; without them the token's defaults apply.
+export interface ConsulScope {
+  datacenter?: string; // Query this datacenter instead of the agent's own
+  namespace?: string;
+  partition?: string;
+}
+
+export interface ConsulClientOptions extends ConsulScope {
+  metricsProvider?: MetricsProvider;
+  concurrency?: number;
+  api?: ConsulApi;
+  cache?: StateCacheOptions;
+  connectionNameHeuristics?: boolean; // Also guess connections from service names, e.g. "web" -> "api"
+}
 
 export class ConsulClient {
   private client: Consul.Consul;
+  private api?: ConsulApi;
+  private metricsProvider: MetricsProvider;
+  private concurrency: number;
+  private cache?: StateCache;
+  private options: ConsulClientOptions;
+  private datacenter?: string;
+  private namespace?: string;
+  private partition?: string;
+  private localDatacenter?: Promise<string | undefined>;
+  private scopedClients = new Map<string, ConsulClient>();
+  private serviceNodes?: { index: string; nodes: Promise<RawCatalogService[]> };
 
-  constructor(client: Consul.Consul) {
+  constructor(client: Consul.Consul, options: ConsulClientOptions = {}) {
     this.client = client;
+    this.options = options;
+    this.api = options.api;
+    this.metricsProvider = options.metricsProvider || new NoMetricsProvider();
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.datacenter = options.datacenter;
+    this.namespace = options.namespace;
+    this.partition = options.partition;
+
+    if (options.cache) {
+      this.cache = new StateCache(options.cache);
+      this.registerCacheSources(this.cache);
+    }
+  }
+
+  getMetricsProvider(): MetricsProvider {
+    return this.metricsProvider;
+  }
+
+  /**
+   * Subscribes to changes of the cached Consul state. Without a cache no
+   * events are ever emitted. Returns a function that unsubscribes.
+   */
+  onStateChange(listener: StateChangeListener): () => void {
+    return this.cache ? this.cache.onChange(listener) : () => undefined;
+  }
+
+  hasStateCache(): boolean {
+    return this.cache !== undefined;
+  }
+
+  /**
+   * Makes sure the given cache keys are loaded and watched for changes
+   */
+  async watchState(keys: string[]): Promise<void> {
+    const cache = this.cache;
+    if (!cache) return;
+
+    await Promise.all(keys.filter(key => cache.has(key)).map(key =>
+      cache.get(key).catch(error => {
+        console.error(`Failed to watch ${key}:`, error);
+      })
+    ));
+  }
+
+  getCacheStatus(): CacheEntryStatus[] {
+    return this.cache ? this.cache.status() : [];
+  }
+
+  close(): void {
+    this.cache?.close();
+    for (const client of this.scopedClients.values()) {
+      client.close();
+    }
+  }
+
+  /**
+   * Gets a client that reads from the given datacenter, namespace and
+   * partition. Clients are kept per scope, each with its own state cache.
+   * @param scope Parts of the scope to change; omitted parts stay as they are
+   */
+  withScope(scope: ConsulScope): ConsulClient {
+    const next: ConsulScope = {
+      datacenter: scope.datacenter || this.datacenter,
+      namespace: scope.namespace || this.namespace,
+      partition: scope.partition || this.partition
+    };
+    if (
+      next.datacenter === this.datacenter &&
+      next.namespace === this.namespace &&
+      next.partition === this.partition
+    ) {
+      return this;
+    }
+
+    const key = [next.datacenter, next.partition, next.namespace].join('/');
+    let client = this.scopedClients.get(key);
+    if (!client) {
+      client = new ConsulClient(this.client, { ...this.options, ...next });
+      this.scopedClients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Runs a read against one datacenter, or against every known datacenter
+   * when the scope names ALL_DATACENTERS, and concatenates the results
+   * @param scope Datacenter (or ALL_DATACENTERS), namespace and partition to read from
+   * @param read Read to run with each datacenter's client
+   */
+  async acrossDatacenters<T>(scope: ConsulScope, read: (client: ConsulClient) => Promise<T[]>): Promise<T[]> {
+    if (scope.datacenter !== ALL_DATACENTERS) {
+      return read(this.withScope(scope));
+    }
+
+    const datacenters = await this.listDatacenters();
+    const results = await mapWithConcurrency(datacenters, this.concurrency, datacenter =>
+      read(this.withScope({ ...scope, datacenter }))
+    );
+    return results.flat();
+  }
+
+  /**
+   * Gets the name of the datacenter this client queries. For the local
+   * datacenter it is read from the agent once.
+   */
+  async getDatacenter(): Promise<string | undefined> {
+    if (this.datacenter) return this.datacenter;
+
+    if (!this.localDatacenter) {
+      this.localDatacenter = (async () => {
+        const self = await this.client.agent.self<RawAgentSelf>();
+        return self?.Config?.Datacenter;
+      })().catch(error => {
+        console.error('Error reading the local datacenter:', error);
+        this.localDatacenter = undefined;
+        return undefined;
+      });
+    }
+    return this.localDatacenter;
+  }
+
+  /**
+   * Lists the datacenters known to the cluster, nearest first
+   */
+  async listDatacenters(): Promise<string[]> {
+    const datacenters = await this.client.catalog.datacenters<string[]>();
+    return Array.isArray(datacenters) ? datacenters : [];
+  }
+
+  /**
+   * Query options that scope a `consul` package call to this client's datacenter
+   */
+  private scope(): { dc?: string } {
+    return this.datacenter ? { dc: this.datacenter } : {};
+  }
+
+  /**
+   * Query parameters that scope an HTTP API call to this client's datacenter,
+   * namespace and partition
+   */
+  private apiScope(): Record<string, string | undefined> {
+    return { dc: this.datacenter, ns: this.namespace, partition: this.partition };
+  }
+
+  /**
+   * Whether reads must go through the HTTP API. The `consul` package only
+   * forwards query parameters it knows, and `ns` and `partition` are not among them.
+   */
+  private needsApi(): boolean {
+    return Boolean(this.namespace || this.partition);
+  }
+
+  private requireApi(): ConsulApi {
+    if (!this.api) throw new Error('Consul HTTP API is not configured');
+    return this.api;
+  }
+
+  /**
+   * Reads an endpoint through the `consul` package, or through the HTTP API
+   * for namespace and partition scoped clients
+   * @param path HTTP API path, e.g. /catalog/services
+   * @param lib The equivalent `consul` package call, given the datacenter scope
+   */
+  private async read<T>(path: string, lib: (scope: { dc?: string }) => Promise<T>): Promise<T> {
+    if (!this.needsApi()) return lib(this.scope());
+    const { data } = await this.requireApi().get<T>(path, { query: this.apiScope() });
+    return data;
+  }
+
+  /**
+   * Like read, but as a BlockingQuery for the state cache
+   */
+  private blockingRead<T>(path: string, lib: (opts: Record<string, unknown>) => Promise<unknown>): BlockingQuery<T> {
+    if (!this.needsApi()) return libQuery<T>(opts => lib({ ...opts, ...this.scope() }));
+    const api = this.requireApi();
+    return ({ index, wait, signal }) => api.get<T>(path, { query: this.apiScope(), index, wait, signal });
   }
 
   async testConnection(): Promise<boolean> {
@@ -17,79 +250,83 @@ export class ConsulClient {
     }
   }
 
+  /**
+   * Gets every service instance in the catalog with its health. Checks for the
+   * whole datacenter are read once and joined in memory, and service nodes are
+   * fetched with bounded concurrency, so the number of Consul calls grows with
+   * the number of services rather than the number of instances.
+   */
   async getServices(): Promise<ConsulService[]> {
     try {
-      const serviceNames = await this.client.catalog.service.list();
-      const services: ConsulService[] = [];
+      const [serviceNames, checks, datacenter] = await Promise.all([
+        this.readServiceNames(),
+        this.readHealthChecks(),
+        this.getDatacenter()
+      ]);
 
       if (typeof serviceNames !== 'object' || serviceNames === null) {
-        return services;
+        return [];
       }
 
-      for (const serviceName of Object.keys(serviceNames as Record<string, unknown>)) {
-        if (serviceName === 'consul') continue;
-
-        const serviceDetails = await this.client.catalog.service.nodes(serviceName);
-
-        if (!Array.isArray(serviceDetails)) continue;
-
-        for (const service of serviceDetails) {
-          const health = await this.getServiceHealth(service.ServiceID);
-
-          services.push({
-            id: service.ServiceID,
-            name: service.ServiceName,
-            address: service.ServiceAddress || service.Address,
-            port: service.ServicePort.toString(),
-            node: service.Node,
-            tags: service.ServiceTags || [],
-            meta: service.ServiceMeta || {},
-            health: {
-              status: health.status,
-              checks: health.checks
-            }
-          });
-        }
-      }
+      const checkIndex = indexChecks(checks);
+      const nodes = await this.readServiceNodes(Object.keys(serviceNames));
 
-      return services;
+      return nodes.map(service => {
+        const instanceChecks = [
+          ...(checkIndex.byNode.get(service.Node) || []),
+          ...(checkIndex.byService.get(`${service.Node}/${service.ServiceID}`) || [])
+        ].map(check => this.toHealthCheck(check, datacenter));
+
+        return {
+          id: service.ServiceID,
+          name: service.ServiceName,
+          address: service.ServiceAddress || service.Address,
+          port: service.ServicePort.toString(),
+          node: service.Node,
+          datacenter,
+          namespace: service.Namespace || this.namespace,
+          partition: service.Partition || this.partition,
+          kind: service.ServiceKind || undefined,
+          proxy: toServiceProxy(service.ServiceProxy),
+          tags: service.ServiceTags || [],
+          meta: service.ServiceMeta || {},
+          health: this.summarizeHealth(instanceChecks)
+        };
+      });
     } catch (error) {
       console.error('Error getting services:', error);
       return [];
     }
   }
 
-  async getServiceHealth(serviceId: string): Promise<ServiceHealth> {
+  /**
+   * Gets the health of a service from the catalog-wide health API. Node-level
+   * checks (serfHealth, node maintenance) count towards each instance's status.
+   * @param serviceName The service to look up
+   * @param serviceId Optional instance ID; without it all instances are combined
+   */
+  async getServiceHealth(serviceName: string, serviceId?: string): Promise<ServiceHealth> {
     try {
-      const checks = await this.client.agent.check.list();
-      const serviceChecks: HealthCheck[] = [];
-      let overallStatus: HealthStatus = 'passing';
-
-      if (typeof checks !== 'object' || checks === null) return { status: 'unknown', checks: [] };
-
-      for (const checkId in checks as Record<string, any>) {
-        const check = (checks as Record<string, any>)[checkId];
-        if (check.ServiceID === serviceId) {
-          serviceChecks.push({
-            id: checkId,
-            name: check.Name,
-            status: check.Status as HealthStatus,
-            output: check.Output,
-            notes: check.Notes
-          });
-
-          if (check.Status === 'critical') {
-            overallStatus = 'critical';
-          } else if (check.Status === 'warning' && overallStatus !== 'critical') {
-            overallStatus = 'warning';
-          }
-        }
+      if (this.cache) {
+        const instances = (await this.getServices())
+          .filter(service => service.name === serviceName && (!serviceId || service.id === serviceId));
+        return this.summarizeHealth(instances.flatMap(service => service.health.checks));
       }
 
-      return {
-        status: overallStatus,
-        checks: serviceChecks
-      };
+      const [entries, datacenter] = await Promise.all([
+        this.read<RawServiceEntry[]>(`/health/service/${encodeURIComponent(serviceName)}`, scope =>
+          this.client.health.service<RawServiceEntry[]>({ service: serviceName, ...scope })
+        ),
+        this.getDatacenter()
+      ]);
+
+      if (!Array.isArray(entries)) return { status: 'unknown', checks: [] };
+
+      const checks = entries
+        .filter(entry => !serviceId || entry.Service.ID === serviceId)
+        .flatMap(entry => (entry.Checks || []).map(check => this.toHealthCheck(check, datacenter)));
+
+      return this.summarizeHealth(checks);
     } catch {
       return {
         status: 'unknown',
@@ -100,25 +337,7 @@ export class ConsulClient {
 
   async getAllHealthChecks(): Promise<HealthCheck[]> {
     try {
-      const checks = await this.client.agent.check.list();
-      const result: HealthCheck[] = [];
-
-      if (typeof checks !== 'object' || checks === null) return result;
-
-      for (const checkId in checks as Record<string, any>) {
-        const check = (checks as Record<string, any>)[checkId];
-        result.push({
-          id: checkId,
-          name: check.Name,
-          status: check.Status as HealthStatus,
-          output: check.Output,
-          notes: check.Notes,
-          serviceId: check.ServiceID,
-          serviceName: check.ServiceName
-        });
-      }
-
-      return result;
+      return await this.getHealthChecksInState('any');
     } catch (error) {
       console.error('Error getting health checks:', error);
       return [];
@@ -127,86 +346,382 @@ export class ConsulClient {
 
   async getFailingHealthChecks(): Promise<HealthCheck[]> {
     try {
-      const allChecks = await this.getAllHealthChecks();
-      return allChecks.filter(check =>
-        check.status === 'warning' || check.status === 'critical');
+      const [warning, critical] = await Promise.all([
+        this.getHealthChecksInState('warning'),
+        this.getHealthChecksInState('critical')
+      ]);
+      return [...warning, ...critical];
     } catch (error) {
       console.error('Error getting failing health checks:', error);
       return [];
     }
   }
 
+  /**
+   * Gets every node in the catalog with the health of its node-level checks,
+   * such as serfHealth. Service checks are left to the services.
+   */
+  async getNodes(): Promise<ConsulNode[]> {
+    try {
+      const [nodes, checks, datacenter] = await Promise.all([
+        this.read<RawCatalogNode[]>('/catalog/nodes', scope => this.client.catalog.node.list<RawCatalogNode[]>(scope)),
+        this.readHealthChecks(),
+        this.getDatacenter()
+      ]);
+      if (!Array.isArray(nodes)) return [];
+
+      const checkIndex = indexChecks(checks);
+      return nodes.map(node => this.toConsulNode(node, checkIndex.byNode.get(node.Node) || [], datacenter));
+    } catch (error) {
+      console.error('Error getting nodes:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets one node from the catalog
+   * @returns The node with its node-level health, or null when it is not registered
+   */
+  async getNode(name: string): Promise<ConsulNode | null> {
+    const [node, checks, datacenter] = await Promise.all([
+      this.read<{ Node: RawCatalogNode | null } | null>(`/catalog/node/${encodeURIComponent(name)}`, scope =>
+        this.client.catalog.node.services<{ Node: RawCatalogNode | null } | null>({ node: name, ...scope })
+      ),
+      this.readHealthChecks(),
+      this.getDatacenter()
+    ]);
+    if (!node?.Node) return null;
+
+    return this.toConsulNode(node.Node, checks.filter(check => check.Node === name && !check.ServiceID), datacenter);
+  }
+
+  /**
+   * Gets the Serf LAN members the local agent knows of. Members of other
+   * datacenters are not among them. Without node:read there are none.
+   */
+  async getMembers(): Promise<SerfMember[]> {
+    try {
+      const members = await this.read<RawAgentMember[]>('/agent/members', () =>
+        this.client.agent.members<RawAgentMember[]>()
+      );
+      if (!Array.isArray(members)) return [];
+
+      return members.map(member => ({
+        name: member.Name,
+        address: member.Addr,
+        port: member.Port,
+        status: SERF_STATUSES[member.Status] ?? 'none',
+        datacenter: member.Tags?.dc,
+        role: member.Tags?.role,
+        tags: member.Tags || {}
+      }));
+    } catch (error) {
+      console.error('Error getting agent members:', error);
+      return [];
+    }
+  }
+
+  private async getHealthChecksInState(state: 'any' | HealthStatus): Promise<HealthCheck[]> {
+    const [checks, datacenter] = await Promise.all([
+      this.cache
+        ? this.readHealthChecks().then(all => all.filter(check => state === 'any' || check.Status === state))
+        : this.read<RawHealthCheck[]>(`/health/state/${state}`, scope =>
+          this.client.health.state<RawHealthCheck[]>({ state, ...scope })
+        ),
+      this.getDatacenter()
+    ]);
+    if (!Array.isArray(checks)) return [];
+    return checks.map(check => this.toHealthCheck(check, datacenter));
+  }
+
+  private registerCacheSources(cache: StateCache): void {
+    if (this.needsApi() && !this.api) return;
+
+    cache.register(CACHE_KEYS.SERVICES, this.blockingRead<Record<string, string[]>>(
+      '/catalog/services',
+      opts => this.client.catalog.service.list(opts)
+    ));
+    cache.register(CACHE_KEYS.HEALTH, this.blockingRead<RawHealthCheck[]>(
+      '/health/state/any',
+      opts => this.client.health.state({ ...opts, state: 'any' })
+    ));
+    if (this.api) {
+      const api = this.api;
+      const register = (key: string, path: string) => cache.register<unknown[]>(key, ({ index, wait, signal }) =>
+        api.get<unknown[]>(path, { query: this.apiScope(), index, wait, signal })
+      );
+      register(CACHE_KEYS.INTENTIONS, '/connect/intentions');
+      register(CACHE_KEYS.SERVICE_ROUTERS, '/config/service-router');
+      register(CACHE_KEYS.SERVICE_SPLITTERS, '/config/service-splitter');
+      register(CACHE_KEYS.SERVICE_RESOLVERS, '/config/service-resolver');
+    }
+  }
+
+  private async readServiceNames(): Promise<Record<string, string[]>> {
+    if (this.cache?.has(CACHE_KEYS.SERVICES)) return this.cache.get(CACHE_KEYS.SERVICES);
+    return this.read('/catalog/services', scope =>
+      this.client.catalog.service.list<Record<string, string[]>>(scope)
+    );
+  }
+
+  private async readHealthChecks(): Promise<RawHealthCheck[]> {
+    const checks = this.cache?.has(CACHE_KEYS.HEALTH)
+      ? await this.cache.get<RawHealthCheck[]>(CACHE_KEYS.HEALTH)
+      : await this.read<RawHealthCheck[]>('/health/state/any', scope =>
+        this.client.health.state<RawHealthCheck[]>({ state: 'any', ...scope })
+      );
+    return Array.isArray(checks) ? checks : [];
+  }
+
+  private async readIntentions(): Promise<RawIntention[]> {
+    if (this.cache?.has(CACHE_KEYS.INTENTIONS)) {
+      return this.cache.get(CACHE_KEYS.INTENTIONS);
+    }
+    const { data } = await this.requireApi().get<RawIntention[]>('/connect/intentions', { query: this.apiScope() });
+    return data || [];
+  }
+
+  /**
+   * Lists the config entries of a kind. Without the HTTP API, or when the
+   * token may not read them, there are none.
+   */
+  private async readConfigEntries<T>(cacheKey: string, kind: string): Promise<T[]> {
+    try {
+      if (this.cache?.has(cacheKey)) return (await this.cache.get<T[]>(cacheKey)) || [];
+      if (!this.api) return [];
+
+      const { data } = await this.api.get<T[]>(`/config/${kind}`, { query: this.apiScope() });
+      return data || [];
+    } catch (error) {
+      console.error(`Error reading ${kind} config entries:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetches the instances of the given services with bounded concurrency. With
+   * a cache the result is reused until the catalog services index changes.
+   */
+  private async readServiceNodes(serviceNames: string[]): Promise<RawCatalogService[]> {
+    const index = this.cache?.getIndex(CACHE_KEYS.SERVICES);
+    if (index && this.serviceNodes?.index === index) {
+      return this.serviceNodes.nodes;
+    }
+
+    const names = serviceNames.filter(serviceName => serviceName !== 'consul');
+    const nodes = mapWithConcurrency(names, this.concurrency, async serviceName => {
+      const serviceNodes = await this.read<RawCatalogService[]>(`/catalog/service/${encodeURIComponent(serviceName)}`, scope =>
+        this.client.catalog.service.nodes<RawCatalogService[]>({ service: serviceName, ...scope })
+      );
+      return Array.isArray(serviceNodes) ? serviceNodes : [];
+    }).then(nodesByService => nodesByService.flat());
+
+    if (index) {
+      this.serviceNodes = { index, nodes };
+      nodes.catch(() => {
+        if (this.serviceNodes?.nodes === nodes) this.serviceNodes = undefined;
+      });
+    }
+
+    return nodes;
+  }
+
+  private toHealthCheck(check: RawHealthCheck, datacenter: string | undefined): HealthCheck {
+    return {
+      id: check.CheckID,
+      name: check.Name,
+      status: check.Status,
+      output: check.Output,
+      notes: check.Notes,
+      serviceId: check.ServiceID || undefined,
+      serviceName: check.ServiceName || undefined,
+      node: check.Node,
+      datacenter,
+      namespace: check.Namespace || this.namespace,
+      partition: check.Partition || this.partition
+    };
+  }
+
+  private summarizeHealth(checks: HealthCheck[]): ServiceHealth {
+    let status: HealthStatus = 'passing';
+
+    for (const check of checks) {
+      if (check.status === 'critical') {
+        status = 'critical';
+      } else if (check.status === 'warning' && status !== 'critical') {
+        status = 'warning';
+      }
+    }
+
+    return {
+      status,
+      checks,
+      maintenance: checks.some(check => MAINTENANCE_CHECK_PATTERN.test(check.id))
+    };
+  }
+
   async getServiceConnections(): Promise<ServiceConnection[]> {
     try {
-      const connections: ServiceConnection[] = [];
+      let connections: ServiceConnection[] = [];
+      const datacenter = await this.getDatacenter();
 
       try {
-        const intentions = await (this.client as any).connect.intentions.list();
-
-        if (Array.isArray(intentions)) {
-          for (const intention of intentions) {
-            connections.push({
-              source: intention.SourceName,
-              destination: intention.DestinationName,
-              status: intention.Action === 'allow' ? 'allowed' : 'blocked',
-              intentionAction: intention.Action,
-              protocol: 'tcp',
-              usesServiceMesh: true
-            });
-          }
-        }
+        const intentions = await this.readIntentions();
+
+        // L7 intentions have Permissions instead of an Action
+        connections = intentions.map(intention => ({
+          source: intention.SourceName,
+          destination: intention.DestinationName,
+          status: intention.Action === 'deny' ? 'blocked' : 'allowed',
+          intentionAction: intention.Action,
+          protocol: intention.Permissions?.length ? 'http' : 'tcp',
+          usesServiceMesh: true,
+          datacenter,
+          sourceNamespace: intention.SourceNS || this.namespace,
+          sourcePartition: intention.SourcePartition || this.partition,
+          destinationNamespace: intention.DestinationNS || this.namespace,
+          destinationPartition: intention.DestinationPartition || this.partition,
+          evidence: ['intention']
+        }));
       } catch (error) {
-        console.error('Connect intentions API failed, using inferred connections');
+        console.error('Connect intentions API failed, using inferred connections only');
       }
 
-      if (connections.length === 0) {
-        const services = await this.getServices();
+      // Intentions say which calls may be made, upstreams and config
+      // entries which calls are made, so both are kept
+      connections = mergeConnections(connections, await this.inferConnections(datacenter));
 
-        for (const source of services) {
-          const upstreams = source.meta?.upstream_services?.split(',') || [];
+      return await mapWithConcurrency(connections, this.concurrency, conn => this.enhanceConnectionWithMetrics(conn));
+    } catch (error) {
+      console.error('Error getting service connections:', error);
+      return [];
+    }
+  }
 
-          for (const upstreamName of upstreams) {
-            const targets = services.filter(s => s.name === upstreamName.trim());
+  /**
+   * Derives connections from configuration that names a service's upstreams:
+   * sidecar proxy registrations, service-router and service-resolver config
+   * entries, and `upstream_services` service meta. A connection found in
+   * several places lists every source in `evidence`. Guesses based on service
+   * names are only added with the `connectionNameHeuristics` option.
+   */
+  private async inferConnections(datacenter: string | undefined): Promise<ServiceConnection[]> {
+    const [services, routers, resolvers] = await Promise.all([
+      this.getServices(),
+      this.readConfigEntries<RawServiceRouter>(CACHE_KEYS.SERVICE_ROUTERS, 'service-router'),
+      this.readConfigEntries<RawServiceResolver>(CACHE_KEYS.SERVICE_RESOLVERS, 'service-resolver')
+    ]);
 
-            for (const target of targets) {
-              connections.push({
-                source: source.name,
-                destination: target.name,
-                status: 'inferred',
-                protocol: source.meta?.protocol || 'http',
-                usesServiceMesh: false
-              });
-            }
-          }
+    const connections = new Map<string, ServiceConnection>();
+    const connect = (
+      source: ServiceEndpoint,
+      destination: ServiceEndpoint,
+      evidence: ConnectionEvidence,
+      protocol: string
+    ) => {
+      if (!destination.name || sameEndpoint(source, destination)) return;
 
-          for (const target of services) {
-            if (source.id === target.id) continue;
-
-            if (
-              (source.name.includes('api') && target.name.includes('service')) ||
-              (source.name.includes('web') && target.name.includes('api')) ||
-              (source.name.includes('service') && target.name.includes('db')) ||
-              (source.name.includes('frontend') && target.name.includes('api')) ||
-              (source.name.includes('api') && target.name.includes('auth')) ||
-              (source.name.includes('api') && target.name.includes('payment'))
-            ) {
-              connections.push({
-                source: source.name,
-                destination: target.name,
-                status: 'inferred',
-                protocol: 'http',
-                usesServiceMesh: false
-              });
-            }
-          }
+      const usesServiceMesh = MESH_EVIDENCE.includes(evidence);
+      const key = [endpointKey(source), endpointKey(destination)].join('->');
+      const existing = connections.get(key);
+      if (existing) {
+        if (!existing.evidence?.includes(evidence)) existing.evidence?.push(evidence);
+        existing.usesServiceMesh = existing.usesServiceMesh || usesServiceMesh;
+        return;
+      }
+
+      connections.set(key, {
+        source: source.name,
+        destination: destination.name,
+        status: 'inferred',
+        protocol,
+        usesServiceMesh,
+        datacenter,
+        sourceNamespace: source.namespace,
+        sourcePartition: source.partition,
+        destinationNamespace: destination.namespace,
+        destinationPartition: destination.partition,
+        evidence: [evidence]
+      });
+    };
+
+    // Sidecar proxies list the upstreams of the service they front
+    for (const service of services) {
+      if (service.kind !== 'connect-proxy' || !service.proxy) continue;
+
+      const source = { name: service.proxy.destinationServiceName, namespace: service.namespace, partition: service.partition };
+      for (const upstream of service.proxy.upstreams) {
+        if (upstream.destinationType === 'prepared_query') continue;
+        connect(source, {
+          name: upstream.destinationName,
+          namespace: upstream.destinationNamespace || source.namespace,
+          partition: upstream.destinationPartition || source.partition
+        }, 'proxy-upstream', upstream.protocol || 'tcp');
+      }
+    }
+
+    // Routers and resolvers send a service's traffic on to other services
+    for (const router of routers) {
+      const source = this.entryEndpoint(router);
+      for (const route of router.Routes || []) {
+        if (route.Destination?.Service) {
+          connect(source, targetEndpoint(route.Destination, source), 'service-router', 'http');
         }
       }
+    }
 
-      return connections.map(conn => this.enhanceConnectionWithMetrics(conn));
-    } catch (error) {
-      console.error('Error getting service connections:', error);
-      return [];
+    for (const resolver of resolvers) {
+      const source = this.entryEndpoint(resolver);
+      const targets = [
+        resolver.Redirect,
+        ...Object.values(resolver.Failover || {}).flatMap(failover => [failover, ...(failover.Targets || [])])
+      ];
+      for (const target of targets) {
+        if (target?.Service) {
+          connect(source, targetEndpoint(target, source), 'service-resolver', 'tcp');
+        }
+      }
     }
+
+    const servicesByName = new Map(services.map(service => [service.name, service]));
+
+    for (const service of services) {
+      const source = { name: service.name, namespace: service.namespace, partition: service.partition };
+      for (const upstreamName of service.meta?.upstream_services?.split(',') || []) {
+        const target = servicesByName.get(upstreamName.trim());
+        if (!target) continue;
+        connect(source, { name: target.name, namespace: target.namespace, partition: target.partition },
+          'service-meta', service.meta?.protocol || 'http');
+      }
+    }
+
+    if (this.options.connectionNameHeuristics) {
+      for (const source of servicesByName.values()) {
+        for (const target of servicesByName.values()) {
+          if (NAME_HEURISTICS.some(([from, to]) => source.name.includes(from) && target.name.includes(to))) {
+            connect(
+              { name: source.name, namespace: source.namespace, partition: source.partition },
+              { name: target.name, namespace: target.namespace, partition: target.partition },
+              'name-heuristic',
+              'http'
+            );
+          }
+        }
+      }
+    }
+
+    return [...connections.values()];
+  }
+
+  /**
+   * The service a config entry applies to
+   */
+  private entryEndpoint(entry: RawConfigEntry): ServiceEndpoint {
+    return {
+      name: entry.Name,
+      namespace: entry.Namespace || this.namespace,
+      partition: entry.Partition || this.partition
+    };
   }
 
   async getFailingConnections(): Promise<ServiceConnection[]> {
@@ -222,22 +737,33 @@ export class ConsulClient {
     }
   }
 
-  private enhanceConnectionWithMetrics(connection: ServiceConnection): ServiceConnection {
-    const enhanced = { ...connection };
+  /**
+   * Attaches measured traffic metrics to a connection. The connection status
+   * only changes when the metrics backend actually reported an error rate.
+   */
+  private async enhanceConnectionWithMetrics(connection: ServiceConnection): Promise<ServiceConnection> {
+    const enhanced: ServiceConnection = { ...connection, metricsSource: this.metricsProvider.source };
 
     if (connection.status === 'blocked') return enhanced;
 
-    const seed = this.hashString(`${connection.source}-${connection.destination}`);
-    const rand = this.seededRandom(seed);
+    const metrics = await this.metricsProvider.getConnectionMetrics(
+      connection.source,
+      connection.destination,
+      connection.datacenter
+    );
+
+    enhanced.metricsSource = metrics.source;
+    if (metrics.window) enhanced.metricsWindow = metrics.window;
+    if (metrics.latency !== null) enhanced.latency = metrics.latency;
+    if (metrics.requestVolume !== null) enhanced.requestVolume = metrics.requestVolume;
+    if (metrics.errorRate === null) return enhanced;
 
-    enhanced.latency = Math.floor(rand() * 450) + 50;
-    enhanced.errorRate = rand() * 0.1;
-    enhanced.requestVolume = Math.floor(rand() * 990) + 10;
+    enhanced.errorRate = metrics.errorRate;
 
-    if (enhanced.errorRate > 0.05) {
+    if (metrics.errorRate > 0.05) {
       enhanced.status = 'degraded';
-      enhanced.errorMessage = this.getRandomErrorMessage(rand());
-    } else if (enhanced.errorRate > 0) {
+      enhanced.errorMessage = `Upstream 5xx rate ${(metrics.errorRate * 100).toFixed(1)}% over ${metrics.window} (${metrics.source})`;
+    } else if (metrics.errorRate > 0) {
       enhanced.status = 'warning';
     } else if (connection.status === 'inferred') {
       enhanced.status = 'healthy';
@@ -246,39 +772,604 @@ export class ConsulClient {
     return enhanced;
   }
 
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  /**
+   * Lists the config entries of a kind
+   */
+  async listConfigEntries(kind: ConfigEntryKind): Promise<ConfigEntry[]> {
+    const { data } = await this.requireApi().get<ConfigEntry[]>(`/config/${kind}`, { query: this.apiScope() });
+    return data || [];
+  }
+
+  /**
+   * Gets one config entry
+   * @param kind Config entry kind
+   * @param name Entry name; "global" for proxy-defaults, "mesh" for mesh
+   * @returns The entry, or null when there is none
+   */
+  async getConfigEntry(kind: ConfigEntryKind, name: string): Promise<ConfigEntry | null> {
+    try {
+      const { data } = await this.requireApi().get<ConfigEntry>(
+        `/config/${kind}/${encodeURIComponent(name)}`,
+        { query: this.apiScope() }
+      );
+      return data;
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return null;
+      throw error;
     }
-    return Math.abs(hash);
   }
 
-  private seededRandom(seed: number): () => number {
-    return function () {
-      const x = Math.sin(seed++) * 10000;
-      return x - Math.floor(x);
+  /**
+   * Gets the discovery chain Consul compiles for a service from its
+   * service-defaults, routers, splitters and resolvers. It decides where
+   * the service's traffic goes.
+   */
+  async getDiscoveryChain(service: string): Promise<DiscoveryChain> {
+    const { data } = await this.requireApi().get<{ Chain: RawDiscoveryChain }>(
+      `/discovery-chain/${encodeURIComponent(service)}`,
+      { query: this.apiScope() }
+    );
+    return toDiscoveryChain(data.Chain);
+  }
+
+  /**
+   * Gets how services' traffic is split and where it fails over to, from
+   * their service-splitter and service-resolver config entries. Services
+   * with neither are left out.
+   */
+  async getTrafficPolicies(): Promise<TrafficPolicy[]> {
+    const [splitters, resolvers, datacenter] = await Promise.all([
+      this.readConfigEntries<RawServiceSplitter>(CACHE_KEYS.SERVICE_SPLITTERS, 'service-splitter'),
+      this.readConfigEntries<RawServiceResolver>(CACHE_KEYS.SERVICE_RESOLVERS, 'service-resolver'),
+      this.getDatacenter()
+    ]);
+
+    const policies = new Map<string, TrafficPolicy>();
+    const policyFor = (service: ServiceEndpoint): TrafficPolicy => {
+      let policy = policies.get(endpointKey(service));
+      if (!policy) {
+        policy = {
+          service: service.name,
+          namespace: service.namespace,
+          partition: service.partition,
+          datacenter,
+          subsets: [],
+          splits: [],
+          failover: []
+        };
+        policies.set(endpointKey(service), policy);
+      }
+      return policy;
     };
+
+    for (const resolver of resolvers) {
+      const source = this.entryEndpoint(resolver);
+      const policy = policyFor(source);
+      policy.subsets = Object.keys(resolver.Subsets || {});
+      policy.defaultSubset = resolver.DefaultSubset || undefined;
+      if (resolver.Redirect) {
+        policy.redirect = toTrafficTarget(resolver.Redirect, source, datacenter);
+      }
+      for (const [key, failover] of Object.entries(resolver.Failover || {})) {
+        const subset = key === '*' ? undefined : key;
+        policy.failover.push({ subset, targets: failoverTargets(failover, source, subset, datacenter) });
+      }
+    }
+
+    for (const splitter of splitters) {
+      const source = this.entryEndpoint(splitter);
+      policyFor(source).splits = (splitter.Splits || []).map(split => ({
+        weight: split.Weight,
+        ...toTrafficTarget(split, source, datacenter)
+      }));
+    }
+
+    return [...policies.values()];
   }
 
-  private getRandomErrorMessage(rand: number): string {
-    const errors = [
-      'Connection timeout',
-      'Service unavailable',
-      'Internal server error',
-      'Bad gateway',
-      'Too many requests',
-      'Connection refused',
-      'DNS resolution failed',
-      'TLS handshake failed'
-    ];
-    return errors[Math.floor(rand * errors.length)];
+  /**
+   * Lists every service-intentions config entry. With a namespace set the
+   * entries of all namespaces are read, since wildcard-namespace intentions
+   * apply to it too.
+   */
+  async listIntentions(): Promise<ServiceIntentionsEntry[]> {
+    const { data } = await this.requireApi().get<ServiceIntentionsEntry[]>('/config/service-intentions', {
+      query: { ...this.apiScope(), ns: this.namespace ? '*' : undefined }
+    });
+    return data || [];
+  }
+
+  /**
+   * Reads the default ACL policy from the agent, which decides connections
+   * no intention matches. Without ACLs everything is allowed.
+   * @returns The policy, or undefined when the agent does not report it
+   */
+  async getAclDefaultPolicy(): Promise<'allow' | 'deny' | undefined> {
+    try {
+      const self = await this.client.agent.self<RawAgentSelf>();
+      const debug = self?.DebugConfig;
+      if (!debug) return undefined;
+      if (debug.ACLsEnabled === false) return 'allow';
+
+      const policy = debug.ACLResolverSettings?.ACLDefaultPolicy ?? debug.ACLDefaultPolicy;
+      return policy === 'allow' || policy === 'deny' ? policy : undefined;
+    } catch (error) {
+      console.error('Error reading the default ACL policy:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the intentions of a destination service, in the service-intentions
+   * config entry format
+   * @param destination Destination service name
+   * @returns The config entry, or null when the service has no intentions
+   */
+  async getIntentions(destination: string): Promise<ServiceIntentionsEntry | null> {
+    try {
+      const { data } = await this.requireApi().get<ServiceIntentionsEntry>(
+        `/config/service-intentions/${encodeURIComponent(destination)}`,
+        { query: this.apiScope() }
+      );
+      return data;
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Creates or replaces the intention from one source to a destination. The
+   * destination's other sources are kept; the write is a check-and-set so a
+   * concurrent change to the same entry fails instead of being overwritten.
+   * @param destination Destination service name
+   * @param source The source with either an L4 `Action` or L7 `Permissions`
+   * @returns The destination's intentions after the change
+   */
+  async upsertIntention(destination: string, source: IntentionSource): Promise<ServiceIntentionsEntry> {
+    const current = await this.getIntentions(destination);
+    const sources = current?.Sources || [];
+    const index = sources.findIndex(existing => sameIntentionSource(existing, source));
+
+    const entry: ServiceIntentionsEntry = {
+      ...(current || { Kind: 'service-intentions', Name: destination }),
+      Sources: index < 0
+        ? [...sources, source]
+        : sources.map((existing, i) => (i === index ? source : existing))
+    };
+
+    await this.putConfigEntry(entry, current?.ModifyIndex ?? 0);
+    return entry;
+  }
+
+  /**
+   * Writes a complete service-intentions config entry, replacing every
+   * intention of its destination
+   */
+  async writeIntentions(entry: ServiceIntentionsEntry): Promise<void> {
+    await this.putConfigEntry(entry);
+  }
+
+  /**
+   * Deletes the intention from one source to a destination. The config entry
+   * itself is deleted with its last source.
+   * @param destination Destination service name
+   * @param source Name, and optionally namespace, partition or peer, of the source
+   * @returns Whether there was an intention to delete
+   */
+  async deleteIntention(destination: string, source: IntentionSourceRef): Promise<boolean> {
+    const current = await this.getIntentions(destination);
+    const sources = (current?.Sources || []).filter(existing => !sameIntentionSource(existing, source));
+    if (!current || sources.length === (current.Sources || []).length) return false;
+
+    if (sources.length > 0) {
+      await this.putConfigEntry({ ...current, Sources: sources }, current.ModifyIndex ?? 0);
+      return true;
+    }
+
+    const { data } = await this.requireApi().delete<boolean | object>(
+      `/config/service-intentions/${encodeURIComponent(destination)}`,
+      { query: { ...this.apiScope(), cas: current.ModifyIndex } }
+    );
+    if (data === false) {
+      throw new Error(`Intentions of ${destination} changed while they were being deleted; try again`);
+    }
+    return true;
+  }
+
+  /**
+   * Asks Consul whether a connection from source to destination is allowed,
+   * taking every intention and the default ACL policy into account
+   */
+  async checkIntention(source: IntentionSourceRef, destination: string): Promise<boolean> {
+    const { data } = await this.requireApi().get<{ Allowed: boolean }>('/connect/intentions/check', {
+      query: {
+        ...this.apiScope(),
+        source: [source.Partition, source.Namespace, source.Name].filter(Boolean).join('/'),
+        destination
+      }
+    });
+    return Boolean(data?.Allowed);
+  }
+
+  /**
+   * Writes a config entry. With `cas` the write only succeeds if the entry
+   * is still at that modify index (0: does not exist yet).
+   */
+  private async putConfigEntry(entry: ServiceIntentionsEntry, cas?: number): Promise<void> {
+    const { CreateIndex: _created, ModifyIndex: _modified, ...body } = entry;
+    const { data } = await this.requireApi().put<boolean>('/config', {
+      query: { ...this.apiScope(), cas },
+      body
+    });
+    if (data === false) {
+      throw new Error(`${entry.Kind} ${entry.Name} changed while it was being updated; try again`);
+    }
+  }
+
+  /**
+   * Gets one key from the KV store
+   * @returns The entry, or null when the key does not exist
+   */
+  async kvGet(key: string): Promise<KvEntry | null> {
+    try {
+      const { data } = await this.requireApi().get<RawKvPair[]>(kvPath(key), { query: this.apiScope() });
+      return data?.length ? toKvEntry(data[0]) : null;
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Gets every key under a prefix, with its value
+   */
+  async kvList(prefix: string): Promise<KvEntry[]> {
+    try {
+      const { data } = await this.requireApi().get<RawKvPair[]>(kvPath(prefix), {
+        query: { ...this.apiScope(), recurse: true }
+      });
+      return (data || []).map(toKvEntry);
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the keys under a prefix without their values
+   * @param separator Stop at this separator, listing "folders" once, e.g. "/"
+   */
+  async kvKeys(prefix: string, separator?: string): Promise<string[]> {
+    try {
+      const { data } = await this.requireApi().get<string[]>(kvPath(prefix), {
+        query: { ...this.apiScope(), keys: true, separator }
+      });
+      return data || [];
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return [];
+      throw error;
+    }
+  }
+
+  /**
+   * Writes a key. With `cas` the write only succeeds if the key is still at
+   * that modify index (0: does not exist yet).
+   * @returns Whether the value was written
+   */
+  async kvPut(key: string, value: string | Uint8Array, options: { cas?: number; flags?: number } = {}): Promise<boolean> {
+    const { data } = await this.requireApi().put<boolean>(kvPath(key), {
+      query: { ...this.apiScope(), cas: options.cas, flags: options.flags },
+      body: value
+    });
+    return data === true;
+  }
+
+  /**
+   * Deletes a key, or with `recurse` every key under a prefix. With `cas`
+   * the key is only deleted if it is still at that modify index.
+   * @returns Whether the delete succeeded
+   */
+  async kvDelete(key: string, options: { cas?: number; recurse?: boolean } = {}): Promise<boolean> {
+    const { data } = await this.requireApi().delete<boolean>(kvPath(key), {
+      query: { ...this.apiScope(), cas: options.cas, recurse: options.recurse || undefined }
+    });
+    return data !== false;
+  }
+
+  /**
+   * Runs KV operations as one transaction: either every operation succeeds
+   * or none is applied
+   * @returns Whether the transaction committed, with the entries its
+   * operations returned, or the errors that rolled it back
+   */
+  async kvTxn(operations: KvTxnOperation[]): Promise<KvTxnResult> {
+    const body = operations.map(operation => ({
+      KV: {
+        Verb: operation.verb,
+        Key: operation.key,
+        Value: operation.value?.toString('base64'),
+        Flags: operation.flags,
+        Index: operation.index,
+        Namespace: this.namespace,
+        Partition: this.partition
+      }
+    }));
+
+    try {
+      const { data } = await this.requireApi().put<RawTxnResponse>('/txn', {
+        query: { dc: this.datacenter },
+        body
+      });
+      return {
+        committed: true,
+        results: (data?.Results || []).map(result => toKvEntry(result.KV)),
+        errors: []
+      };
+    } catch (error) {
+      // Consul answers 409 Conflict when an operation failed and the transaction was rolled back
+      if (error instanceof ConsulApiError && error.status === 409 && error.body) {
+        let data: RawTxnResponse;
+        try {
+          data = JSON.parse(error.body);
+        } catch {
+          // Not Consul's answer, e.g. from a proxy in front of it
+          throw error;
+        }
+        return {
+          committed: false,
+          results: [],
+          errors: (data.Errors || []).map(txnError => ({ opIndex: txnError.OpIndex, what: txnError.What }))
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a service instance registered with the local agent, from the
+   * agent's own state
+   * @returns The instance with its health, or null when it is not registered
+   */
+  async getAgentService(serviceId: string): Promise<ConsulService | null> {
+    const api = this.requireApi();
+    try {
+      const [{ data: service }, { data: checks }, { data: self }, datacenter] = await Promise.all([
+        api.get<RawAgentService>(`/agent/service/${encodeURIComponent(serviceId)}`, { query: this.apiScope() }),
+        api.get<Record<string, RawHealthCheck>>('/agent/checks', { query: this.apiScope() }),
+        api.get<RawAgentSelf>('/agent/self'),
+        this.getDatacenter()
+      ]);
+
+      // Node checks (ServiceID "") count towards the instance's status, as in getServices
+      const instanceChecks = Object.values(checks || {})
+        .filter(check => !check.ServiceID || check.ServiceID === serviceId);
+      return this.toConsulService(service, self?.Config?.NodeName ?? '', instanceChecks, datacenter);
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Gets a service instance from the catalog
+   * @returns The instance with its health, or null when it is not registered
+   */
+  async getCatalogService(node: string, serviceId: string): Promise<ConsulService | null> {
+    const api = this.requireApi();
+    try {
+      const [{ data: nodeServices }, { data: checks }, datacenter] = await Promise.all([
+        api.get<RawNodeServices | null>(`/catalog/node-services/${encodeURIComponent(node)}`, { query: this.apiScope() }),
+        api.get<RawHealthCheck[]>(`/health/node/${encodeURIComponent(node)}`, { query: this.apiScope() }),
+        this.getDatacenter()
+      ]);
+
+      const service = nodeServices?.Services?.find(candidate => candidate.ID === serviceId);
+      if (!service) return null;
+
+      const instanceChecks = (checks || []).filter(check => !check.ServiceID || check.ServiceID === serviceId);
+      return this.toConsulService(service, node, instanceChecks, datacenter);
+    } catch (error) {
+      if (error instanceof ConsulApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Registers a service instance with the local agent, which then runs its
+   * check and keeps the catalog in sync
+   */
+  async registerAgentService(service: ServiceDefinition): Promise<void> {
+    await this.requireApi().put('/agent/service/register', {
+      query: this.apiScope(),
+      body: {
+        ...toRawServiceDefinition(service),
+        Check: service.check ? toRawCheckDefinition(service.check) : undefined
+      }
+    });
+  }
+
+  /**
+   * Registers a service instance directly in the catalog, for nodes without
+   * a Consul agent. Agents overwrite catalog entries of their own node.
+   * @param node Node to register the instance on; created when missing
+   * @param nodeAddress Address of the node
+   */
+  async registerCatalogService(node: string, nodeAddress: string, service: ServiceDefinition): Promise<void> {
+    await this.requireApi().put('/catalog/register', {
+      query: this.apiScope(),
+      body: {
+        Node: node,
+        Address: nodeAddress,
+        Service: toRawServiceDefinition(service),
+        Namespace: this.namespace,
+        Partition: this.partition
+      }
+    });
+  }
+
+  async deregisterAgentService(serviceId: string): Promise<void> {
+    await this.requireApi().put(`/agent/service/deregister/${encodeURIComponent(serviceId)}`, {
+      query: this.apiScope()
+    });
+  }
+
+  async deregisterCatalogService(node: string, serviceId: string): Promise<void> {
+    await this.requireApi().put('/catalog/deregister', {
+      query: this.apiScope(),
+      body: { Node: node, ServiceID: serviceId, Namespace: this.namespace, Partition: this.partition }
+    });
+  }
+
+  /**
+   * Puts a service instance of the local agent into maintenance mode, or
+   * takes it out. In maintenance the instance fails a critical check, so
+   * it is left out of DNS and healthy-service queries.
+   */
+  async setAgentServiceMaintenance(serviceId: string, enable: boolean, reason?: string): Promise<void> {
+    await this.requireApi().put(`/agent/service/maintenance/${encodeURIComponent(serviceId)}`, {
+      query: { ...this.apiScope(), enable, reason }
+    });
+  }
+
+  /**
+   * Like setAgentServiceMaintenance, for instances registered in the catalog
+   * without an agent: registers or deregisters the same critical
+   * maintenance check the agent would
+   */
+  async setCatalogServiceMaintenance(node: string, serviceId: string, enable: boolean, reason?: string): Promise<void> {
+    const api = this.requireApi();
+    const checkId = `_service_maintenance:${serviceId}`;
+
+    if (!enable) {
+      await api.put('/catalog/deregister', {
+        query: this.apiScope(),
+        body: { Node: node, CheckID: checkId, Namespace: this.namespace, Partition: this.partition }
+      });
+      return;
+    }
+
+    const { data: nodeServices } = await api.get<RawNodeServices | null>(
+      `/catalog/node-services/${encodeURIComponent(node)}`,
+      { query: this.apiScope() }
+    );
+    if (!nodeServices?.Node) throw new Error(`Node ${node} not found`);
+
+    await api.put('/catalog/register', {
+      query: this.apiScope(),
+      body: {
+        Node: node,
+        Address: nodeServices.Node.Address,
+        SkipNodeUpdate: true,
+        Check: {
+          Node: node,
+          CheckID: checkId,
+          Name: 'Service Maintenance Mode',
+          Notes: reason || 'Maintenance mode is enabled for this service',
+          Status: 'critical',
+          ServiceID: serviceId
+        },
+        Namespace: this.namespace,
+        Partition: this.partition
+      }
+    });
+  }
+
+  private toConsulNode(node: RawCatalogNode, checks: RawHealthCheck[], datacenter: string | undefined): ConsulNode {
+    return {
+      id: node.ID || undefined,
+      name: node.Node,
+      address: node.Address,
+      datacenter: node.Datacenter || datacenter,
+      partition: node.Partition || this.partition,
+      taggedAddresses: node.TaggedAddresses || {},
+      meta: node.Meta || {},
+      health: this.summarizeHealth(checks.map(check => this.toHealthCheck(check, datacenter)))
+    };
+  }
+
+  private toConsulService(
+    service: RawAgentService,
+    node: string,
+    checks: RawHealthCheck[],
+    datacenter: string | undefined
+  ): ConsulService {
+    return {
+      id: service.ID,
+      name: service.Service,
+      address: service.Address,
+      port: String(service.Port),
+      node,
+      datacenter,
+      namespace: service.Namespace || this.namespace,
+      partition: service.Partition || this.partition,
+      kind: service.Kind || undefined,
+      proxy: toServiceProxy(service.Proxy),
+      tags: service.Tags || [],
+      meta: service.Meta || {},
+      health: this.summarizeHealth(checks.map(check => this.toHealthCheck(check, datacenter)))
+    };
+  }
+}
+
+export async function createConsulClient(
+  consulAddr: string,
+  consulToken: string | undefined,
+  options: ConsulClientOptions = {}
+): Promise<ConsulClient> {
+  const { client, api } = connectConsul(consulAddr, consulToken);
+  return new ConsulClient(client, { ...options, api: options.api || api });
+}
+
+/**
+ * Hands out ConsulClients that authenticate with a caller's own ACL token, so
+ * Consul ACLs decide what each caller sees. These clients never use the state
+ * cache: its contents would be filtered by whichever token loaded them.
+ */
+export class ConsulClientPool {
+  private consulAddr: string;
+  private options: ConsulClientOptions;
+  private maxClients: number;
+  private clients = new Map<string, ConsulClient>();
+
+  /**
+   * Creates a new ConsulClientPool
+   * @param consulAddr Consul address, as for createConsulClient
+   * @param options Client options; `cache` and `api` are ignored
+   * @param maxClients Number of per-token clients kept for reuse
+   */
+  constructor(consulAddr: string, options: ConsulClientOptions = {}, maxClients: number = 100) {
+    this.consulAddr = consulAddr;
+    this.options = { ...options, cache: undefined, api: undefined };
+    this.maxClients = maxClients;
+  }
+
+  /**
+   * Gets the client for an ACL token, reusing the most recently used ones
+   */
+  get(consulToken: string): ConsulClient {
+    const key = createHash('sha256').update(consulToken).digest('hex');
+    let consulClient = this.clients.get(key);
+
+    if (consulClient) {
+      // Re-insert so the map stays ordered from least to most recently used
+      this.clients.delete(key);
+    } else {
+      const { client, api } = connectConsul(this.consulAddr, consulToken);
+      consulClient = new ConsulClient(client, { ...this.options, api });
+    }
+    this.clients.set(key, consulClient);
+
+    if (this.clients.size > this.maxClients) {
+      const oldest = this.clients.keys().next().value as string;
+      this.clients.delete(oldest);
+    }
+
+    return consulClient;
   }
 }
 
-export async function createConsulClient(consulAddr: string, consulToken: string | undefined): Promise<ConsulClient> {
+function connectConsul(consulAddr: string, consulToken: string | undefined): { client: Consul.Consul; api: ConsulApi } {
   let host = 'localhost';
   let port = 8500;
   let secure = false;
@@ -303,16 +1394,353 @@ export async function createConsulClient(consulAddr: string, consulToken: string
     port: port.toString(), // 👈 convert number to string
     secure,
     promisify: true,
-    defaults: {
-      token: consulToken
+    // An undefined token would be sent as the literal header value "undefined"
+    defaults: consulToken ? { token: consulToken } : {}
+  });
+
+  const api = new ConsulApi({
+    baseUrl: `${secure ? 'https' : 'http'}://${host}:${port}/v1`,
+    token: consulToken
+  });
+
+  return { client, api };
+}
+
+/**
+ * Adapts a `consul` package method to a BlockingQuery. The package returns the
+ * raw response (and with it X-Consul-Index) when the ctx asks for it.
+ */
+function libQuery<T>(call: (opts: Record<string, unknown>) => Promise<unknown>): BlockingQuery<T> {
+  return async ({ index, wait, signal }) => {
+    const ctx = Object.assign(new EventEmitter(), { includeResponse: true });
+    const cancel = () => ctx.emit('cancel');
+    signal.addEventListener('abort', cancel);
+
+    try {
+      const blocking = index && wait ? { index, wait, timeout: parseDuration(wait) + 10000 } : {};
+      const [response, data] = await call({ ctx, ...blocking }) as [RawResponse, T];
+      const responseIndex = response.headers['x-consul-index'];
+      return { data, index: typeof responseIndex === 'string' ? responseIndex : null };
+    } finally {
+      signal.removeEventListener('abort', cancel);
+    }
+  };
+}
+
+/**
+ * Maps over items with at most `limit` calls of `fn` in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * HTTP API path of a KV key. Slashes separate key segments and stay unencoded.
+ */
+function kvPath(key: string): string {
+  return `/kv/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+function toKvEntry(pair: RawKvPair): KvEntry {
+  return {
+    key: pair.Key,
+    value: pair.Value === null || pair.Value === undefined ? null : Buffer.from(pair.Value, 'base64'),
+    flags: pair.Flags,
+    createIndex: pair.CreateIndex,
+    modifyIndex: pair.ModifyIndex,
+    lockIndex: pair.LockIndex,
+    session: pair.Session,
+    namespace: pair.Namespace,
+    partition: pair.Partition
+  };
+}
+
+function toDiscoveryChain(chain: RawDiscoveryChain): DiscoveryChain {
+  return {
+    serviceName: chain.ServiceName,
+    namespace: chain.Namespace,
+    partition: chain.Partition,
+    datacenter: chain.Datacenter,
+    protocol: chain.Protocol,
+    isDefault: Boolean(chain.Default),
+    startNode: chain.StartNode,
+    nodes: Object.entries(chain.Nodes || {}).map(([id, node]) => ({
+      id,
+      type: node.Type,
+      name: node.Name,
+      routes: node.Routes?.map(route => ({
+        match: route.Definition?.Match?.HTTP,
+        destination: route.Definition?.Destination,
+        nextNode: route.NextNode
+      })),
+      splits: node.Splits?.map(split => ({ weight: split.Weight, nextNode: split.NextNode })),
+      resolver: node.Resolver && {
+        target: node.Resolver.Target,
+        connectTimeout: node.Resolver.ConnectTimeout,
+        isDefault: Boolean(node.Resolver.Default),
+        failoverTargets: node.Resolver.Failover?.Targets || []
+      }
+    })),
+    targets: Object.values(chain.Targets || {}).map(target => ({
+      id: target.ID,
+      service: target.Service,
+      serviceSubset: target.ServiceSubset || undefined,
+      namespace: target.Namespace,
+      partition: target.Partition,
+      datacenter: target.Datacenter,
+      peer: target.Peer || undefined
+    }))
+  };
+}
+
+function toRawServiceDefinition(service: ServiceDefinition): Record<string, unknown> {
+  return {
+    ID: service.id,
+    Service: service.name,
+    Address: service.address,
+    Port: service.port,
+    Tags: service.tags,
+    Meta: service.meta
+  };
+}
+
+function toRawCheckDefinition(check: ServiceCheckDefinition): Record<string, unknown> {
+  return {
+    HTTP: check.http,
+    TCP: check.tcp,
+    GRPC: check.grpc,
+    TTL: check.ttl,
+    Interval: check.interval,
+    Timeout: check.timeout,
+    DeregisterCriticalServiceAfter: check.deregisterCriticalServiceAfter
+  };
+}
+
+/**
+ * Whether two intention sources name the same service. An unset namespace
+ * or partition is the default one.
+ */
+function sameIntentionSource(a: IntentionSourceRef, b: IntentionSourceRef): boolean {
+  return a.Name === b.Name &&
+    (a.Namespace || 'default') === (b.Namespace || 'default') &&
+    (a.Partition || 'default') === (b.Partition || 'default') &&
+    (a.Peer || '') === (b.Peer || '');
+}
+
+// Intentions name "*" to match every service or namespace
+const INTENTION_WILDCARD = '*';
+
+// Connection evidence that comes from Connect configuration
+const MESH_EVIDENCE: ConnectionEvidence[] = ['proxy-upstream', 'service-router', 'service-resolver'];
+
+// Name fragments the opt-in heuristics treat as "source calls destination"
+const NAME_HEURISTICS: [string, string][] = [
+  ['api', 'service'],
+  ['web', 'api'],
+  ['service', 'db'],
+  ['frontend', 'api'],
+  ['api', 'auth'],
+  ['api', 'payment']
+];
+
+// A service as one end of a connection
+interface ServiceEndpoint {
+  name: string;
+  namespace?: string;
+  partition?: string;
+}
+
+function endpointKey(endpoint: ServiceEndpoint): string {
+  return [endpoint.partition || '', endpoint.namespace || '', endpoint.name].join('/');
+}
+
+function sameEndpoint(a: ServiceEndpoint, b: ServiceEndpoint): boolean {
+  return endpointKey(a) === endpointKey(b);
+}
+
+function connectionKey(conn: ServiceConnection): string {
+  return [
+    endpointKey({ name: conn.source, namespace: conn.sourceNamespace, partition: conn.sourcePartition }),
+    endpointKey({ name: conn.destination, namespace: conn.destinationNamespace, partition: conn.destinationPartition })
+  ].join('->');
+}
+
+/**
+ * Adds inferred connections to the connections from intentions. A pair of
+ * services with an intention keeps the intention's status and protocol, and
+ * lists the evidence of both. Other inferred connections that a wildcard
+ * intention denies are blocked.
+ */
+function mergeConnections(intentions: ServiceConnection[], inferred: ServiceConnection[]): ServiceConnection[] {
+  const connections = new Map(intentions.map(conn => [connectionKey(conn), conn]));
+  for (const conn of inferred) {
+    const existing = connections.get(connectionKey(conn));
+    if (existing) {
+      existing.evidence = [...new Set([...(existing.evidence || []), ...(conn.evidence || [])])];
+      continue;
+    }
+
+    if (decidingIntention(intentions, conn)?.intentionAction === 'deny') {
+      conn.status = 'blocked';
+      conn.intentionAction = 'deny';
     }
+    connections.set(connectionKey(conn), conn);
+  }
+  return [...connections.values()];
+}
+
+/**
+ * Finds the intention that decides a connection, by Consul's precedence:
+ * exact destinations beat wildcard ones, then exact sources beat wildcard
+ * ones, namespace wildcards ranking below name wildcards
+ */
+function decidingIntention(intentions: ServiceConnection[], conn: ServiceConnection): ServiceConnection | undefined {
+  const matches = (pattern: string | undefined, value: string | undefined) =>
+    pattern === INTENTION_WILDCARD || (pattern || 'default') === (value || 'default');
+  const rank = (namespace: string | undefined, name: string) =>
+    namespace === INTENTION_WILDCARD ? 1 : name === INTENTION_WILDCARD ? 2 : 3;
+
+  let decider: ServiceConnection | undefined;
+  let deciderPrecedence = 0;
+  for (const intention of intentions) {
+    const applies =
+      (intention.sourcePartition || 'default') === (conn.sourcePartition || 'default') &&
+      (intention.destinationPartition || 'default') === (conn.destinationPartition || 'default') &&
+      matches(intention.sourceNamespace, conn.sourceNamespace) &&
+      matches(intention.source, conn.source) &&
+      matches(intention.destinationNamespace, conn.destinationNamespace) &&
+      matches(intention.destination, conn.destination);
+    if (!applies) continue;
+
+    const precedence = (rank(intention.destinationNamespace, intention.destination) - 1) * 3 +
+      rank(intention.sourceNamespace, intention.source);
+    if (precedence > deciderPrecedence) {
+      decider = intention;
+      deciderPrecedence = precedence;
+    }
+  }
+  return decider;
+}
+
+/**
+ * The service a router destination or resolver target points at, relative
+ * to the service the config entry belongs to
+ */
+function targetEndpoint(target: RawConfigTarget, source: ServiceEndpoint): ServiceEndpoint {
+  return {
+    name: target.Service || source.name,
+    namespace: target.Namespace || source.namespace,
+    partition: target.Partition || source.partition
+  };
+}
+
+/**
+ * Where a splitter or resolver sends traffic, relative to the service the
+ * config entry belongs to
+ */
+function toTrafficTarget(
+  target: RawConfigTarget,
+  source: ServiceEndpoint,
+  datacenter: string | undefined
+): TrafficTarget {
+  const endpoint = targetEndpoint(target, source);
+  return {
+    service: endpoint.name,
+    subset: target.ServiceSubset || undefined,
+    namespace: endpoint.namespace,
+    partition: endpoint.partition,
+    datacenter: target.Peer ? undefined : target.Datacenter || datacenter,
+    peer: target.Peer || undefined
+  };
+}
+
+/**
+ * The targets of a resolver's failover policy, in the order they are tried.
+ * `Datacenters` fails over to the same service in each datacenter, and a
+ * target of the same service keeps the subset that failed.
+ */
+function failoverTargets(
+  failover: RawServiceFailover,
+  source: ServiceEndpoint,
+  subset: string | undefined,
+  datacenter: string | undefined
+): TrafficTarget[] {
+  const targets = failover.Targets?.length
+    ? failover.Targets
+    : failover.Datacenters?.length
+      ? failover.Datacenters.map(dc => ({ ...failover, Datacenter: dc }))
+      : [failover];
+
+  return targets.map(target => {
+    const trafficTarget = toTrafficTarget(target, source, datacenter);
+    return trafficTarget.subset || trafficTarget.service !== source.name
+      ? trafficTarget
+      : { ...trafficTarget, subset };
   });
-  
-  return new ConsulClient(client);
+}
+
+function toServiceProxy(proxy: RawServiceProxy | null | undefined): ServiceProxy | undefined {
+  if (!proxy?.DestinationServiceName) return undefined;
+
+  return {
+    destinationServiceName: proxy.DestinationServiceName,
+    upstreams: (proxy.Upstreams || []).map(upstream => ({
+      destinationName: upstream.DestinationName,
+      destinationType: upstream.DestinationType || undefined,
+      destinationNamespace: upstream.DestinationNamespace || undefined,
+      destinationPartition: upstream.DestinationPartition || undefined,
+      datacenter: upstream.Datacenter || undefined,
+      localBindPort: upstream.LocalBindPort,
+      protocol: typeof upstream.Config?.protocol === 'string' ? upstream.Config.protocol : undefined
+    }))
+  };
+}
+
+/**
+ * Groups checks from /v1/health/state into node-level checks (keyed by node)
+ * and service checks (keyed by `node/serviceId`)
+ */
+function indexChecks(checks: RawHealthCheck[]): {
+  byNode: Map<string, RawHealthCheck[]>;
+  byService: Map<string, RawHealthCheck[]>;
+} {
+  const byNode = new Map<string, RawHealthCheck[]>();
+  const byService = new Map<string, RawHealthCheck[]>();
+
+  for (const check of checks) {
+    const index = check.ServiceID ? byService : byNode;
+    const key = check.ServiceID ? `${check.Node}/${check.ServiceID}` : check.Node;
+    const list = index.get(key);
+    if (list) {
+      list.push(check);
+    } else {
+      index.set(key, [check]);
+    }
+  }
+
+  return { byNode, byService };
 }
 
 export type HealthStatus = 'passing' | 'warning' | 'critical' | 'unknown';
 
+// Check IDs Consul uses for node and service maintenance mode
+const MAINTENANCE_CHECK_PATTERN = /^_(node|service)_maintenance/;
+
 export interface HealthCheck {
   id: string;
   name: string;
@@ -321,11 +1749,40 @@ export interface HealthCheck {
   notes?: string;
   serviceId?: string;
   serviceName?: string;
+  node?: string;
+  datacenter?: string;
+  namespace?: string;
+  partition?: string;
 }
 
 export interface ServiceHealth {
   status: HealthStatus;
   checks: HealthCheck[];
+  maintenance?: boolean;
+}
+
+// Node-level checks only; service checks belong to the services on the node
+export interface ConsulNode {
+  id?: string;
+  name: string;
+  address: string;
+  datacenter?: string;
+  partition?: string;   // Enterprise admin partition, when Consul reports one
+  taggedAddresses: Record<string, string>;
+  meta: Record<string, string>;
+  health: ServiceHealth;
+}
+
+export type SerfStatus = 'none' | 'alive' | 'leaving' | 'left' | 'failed';
+
+export interface SerfMember {
+  name: string;
+  address: string;
+  port: number;
+  status: SerfStatus;
+  datacenter?: string;
+  role?: string;        // "consul" for servers, "node" for clients
+  tags: Record<string, string>;
 }
 
 export interface ConsulService {
@@ -334,11 +1791,40 @@ export interface ConsulService {
   address: string;
   port: string;
   node: string;
+  datacenter?: string;
+  namespace?: string;   // Enterprise namespace, when Consul reports one
+  partition?: string;   // Enterprise admin partition, when Consul reports one
+  kind?: string;        // Consul service kind, e.g. "connect-proxy"; unset for typical services
+  proxy?: ServiceProxy; // Connect proxy configuration of proxy services
   tags: string[];
   meta: Record<string, string>;
   health: ServiceHealth;
 }
 
+export interface ServiceProxy {
+  destinationServiceName: string; // The service this proxy fronts
+  upstreams: ServiceUpstream[];
+}
+
+export interface ServiceUpstream {
+  destinationName: string;
+  destinationType?: string;       // "service" (default) or "prepared_query"
+  destinationNamespace?: string;
+  destinationPartition?: string;
+  datacenter?: string;
+  localBindPort?: number;
+  protocol?: string;
+}
+
+// Where a connection was found
+export type ConnectionEvidence =
+  | 'intention'         // A Connect intention
+  | 'proxy-upstream'    // An upstream of the source's sidecar proxy
+  | 'service-router'    // A route in the source's service-router config entry
+  | 'service-resolver'  // A redirect or failover in the source's service-resolver config entry
+  | 'service-meta'      // The source's `upstream_services` service meta
+  | 'name-heuristic';   // Guessed from the service names (opt-in)
+
 export interface ServiceConnection {
   source: string;
   destination: string;
@@ -350,4 +1836,426 @@ export interface ServiceConnection {
   errorRate?: number;
   requestVolume?: number;
   errorMessage?: string;
+  metricsSource?: MetricsSource;
+  metricsWindow?: string;
+  datacenter?: string;
+  sourceNamespace?: string;
+  sourcePartition?: string;
+  destinationNamespace?: string;
+  destinationPartition?: string;
+  evidence?: ConnectionEvidence[];
+}
+
+// Intentions in Consul's service-intentions config entry format
+export interface ServiceIntentionsEntry {
+  Kind: 'service-intentions';
+  Name: string;                       // Destination service
+  Namespace?: string;
+  Partition?: string;
+  Sources: IntentionSource[];
+  Meta?: Record<string, string>;
+  CreateIndex?: number;
+  ModifyIndex?: number;
+}
+
+export interface IntentionSourceRef {
+  Name: string;
+  Namespace?: string;
+  Partition?: string;
+  Peer?: string;
+}
+
+export interface IntentionSource extends IntentionSourceRef {
+  Action?: 'allow' | 'deny';              // L4 intention
+  Permissions?: IntentionPermission[];    // L7 intention, for HTTP-based destinations
+  Description?: string;
+  Precedence?: number;
+  Type?: string;
+}
+
+export interface IntentionPermission {
+  Action: 'allow' | 'deny';
+  HTTP?: {
+    PathExact?: string;
+    PathPrefix?: string;
+    PathRegex?: string;
+    Methods?: string[];
+    Header?: IntentionHeaderMatch[];
+  };
+}
+
+export interface IntentionHeaderMatch {
+  Name: string;
+  Present?: boolean;
+  Exact?: string;
+  Prefix?: string;
+  Suffix?: string;
+  Regex?: string;
+  Invert?: boolean;
+}
+
+export interface KvEntry {
+  key: string;
+  value: Buffer | null;   // Decoded from base64; null for keys without a value
+  flags: number;
+  createIndex: number;
+  modifyIndex: number;    // For check-and-set writes
+  lockIndex: number;
+  session?: string;       // Session holding the lock on the key
+  namespace?: string;
+  partition?: string;
+}
+
+export const CONFIG_ENTRY_KINDS = [
+  'service-defaults',
+  'proxy-defaults',
+  'service-router',
+  'service-splitter',
+  'service-resolver',
+  'ingress-gateway',
+  'terminating-gateway',
+  'mesh'
+] as const;
+
+export type ConfigEntryKind = typeof CONFIG_ENTRY_KINDS[number];
+
+// A config entry as Consul returns it; the fields besides these depend on the kind
+export interface ConfigEntry {
+  Kind: string;
+  Name: string;
+  Namespace?: string;
+  Partition?: string;
+  Meta?: Record<string, string>;
+  CreateIndex?: number;
+  ModifyIndex?: number;
+  [field: string]: unknown;
+}
+
+// A service's compiled discovery chain: routers, then splitters, then
+// resolvers, which pick the targets traffic is sent to
+export interface DiscoveryChain {
+  serviceName: string;
+  namespace?: string;
+  partition?: string;
+  datacenter: string;
+  protocol: string;
+  isDefault: boolean;       // Whether no config entries customize the chain
+  startNode: string;        // ID of the first node
+  nodes: DiscoveryChainNode[];
+  targets: DiscoveryChainTarget[];
+}
+
+export interface DiscoveryChainNode {
+  id: string;               // e.g. "router:web.default.default.dc1"
+  type: 'router' | 'splitter' | 'resolver';
+  name: string;
+  routes?: {
+    match?: Record<string, unknown>;        // HTTP match of a service-router route; unset for the catch-all
+    destination?: Record<string, unknown>;
+    nextNode: string;
+  }[];
+  splits?: { weight: number; nextNode: string }[];
+  resolver?: {
+    target: string;         // Target ID
+    connectTimeout?: string;
+    isDefault: boolean;     // Whether no service-resolver entry exists
+    failoverTargets: string[];
+  };
+}
+
+export interface DiscoveryChainTarget {
+  id: string;               // e.g. "v2.api.default.default.dc1"
+  service: string;
+  serviceSubset?: string;
+  namespace?: string;
+  partition?: string;
+  datacenter: string;
+  peer?: string;
+}
+
+// Where a service's traffic goes besides its own instances, from its
+// service-splitter and service-resolver config entries
+export interface TrafficPolicy {
+  service: string;
+  namespace?: string;
+  partition?: string;
+  datacenter?: string;
+  subsets: string[];        // Subsets the resolver defines
+  defaultSubset?: string;
+  splits: TrafficSplit[];   // Empty without a service-splitter
+  failover: TrafficFailover[];
+  redirect?: TrafficTarget; // The resolver sends all traffic here instead
+}
+
+export interface TrafficTarget {
+  service: string;
+  subset?: string;
+  namespace?: string;
+  partition?: string;
+  datacenter?: string;      // Unset for cluster peers
+  peer?: string;
+}
+
+export interface TrafficSplit extends TrafficTarget {
+  weight: number;           // Percentage of requests, 0 to 100
+}
+
+export interface TrafficFailover {
+  subset?: string;          // Subset that fails over; unset for all of them
+  targets: TrafficTarget[]; // Tried in order
+}
+
+// Service instance to register with the agent or the catalog
+export interface ServiceDefinition {
+  id?: string;            // Defaults to the name
+  name: string;
+  address?: string;
+  port?: number;
+  tags?: string[];
+  meta?: Record<string, string>;
+  check?: ServiceCheckDefinition;  // Agent registrations only; the catalog runs no checks
+}
+
+export interface ServiceCheckDefinition {
+  http?: string;
+  tcp?: string;
+  grpc?: string;
+  ttl?: string;
+  interval?: string;      // Required for http, tcp and grpc checks, e.g. "10s"
+  timeout?: string;
+  deregisterCriticalServiceAfter?: string;
+}
+
+// KV operations of Consul's /v1/txn endpoint
+export type KvTxnVerb = 'set' | 'cas' | 'get' | 'delete' | 'delete-cas' | 'delete-tree' | 'check-index' | 'check-not-exists';
+
+export interface KvTxnOperation {
+  verb: KvTxnVerb;
+  key: string;
+  value?: Buffer;
+  flags?: number;
+  index?: number;         // Modify index for cas, delete-cas and check-index
+}
+
+export interface KvTxnResult {
+  committed: boolean;
+  results: KvEntry[];
+  errors: { opIndex: number; what: string }[];
+}
+
+// Response shapes of the Consul HTTP API
+
+interface RawHealthCheck {
+  Node: string;
+  CheckID: string;
+  Name: string;
+  Status: HealthStatus;
+  Notes?: string;
+  Output: string;
+  ServiceID: string;
+  ServiceName: string;
+  Namespace?: string;
+  Partition?: string;
+}
+
+interface RawAgentSelf {
+  Config?: {
+    Datacenter?: string;
+    NodeName?: string;
+  };
+  // Only returned to tokens with agent:read
+  DebugConfig?: {
+    ACLsEnabled?: boolean;
+    ACLDefaultPolicy?: string;
+    ACLResolverSettings?: {
+      ACLDefaultPolicy?: string;
+    };
+  };
+}
+
+interface RawResponse {
+  headers: Record<string, string | string[] | undefined>;
+}
+
+interface RawKvPair {
+  Key: string;
+  Value: string | null;   // Base64
+  Flags: number;
+  CreateIndex: number;
+  ModifyIndex: number;
+  LockIndex: number;
+  Session?: string;
+  Namespace?: string;
+  Partition?: string;
+}
+
+interface RawDiscoveryChain {
+  ServiceName: string;
+  Namespace?: string;
+  Partition?: string;
+  Datacenter: string;
+  Protocol: string;
+  Default?: boolean;
+  StartNode: string;
+  Nodes: Record<string, {
+    Type: 'router' | 'splitter' | 'resolver';
+    Name: string;
+    Routes?: {
+      Definition?: {
+        Match?: { HTTP?: Record<string, unknown> };
+        Destination?: Record<string, unknown>;
+      };
+      NextNode: string;
+    }[];
+    Splits?: { Weight: number; NextNode: string }[];
+    Resolver?: {
+      ConnectTimeout?: string;
+      Default?: boolean;
+      Target: string;
+      Failover?: { Targets: string[] };
+    };
+  }> | null;
+  Targets: Record<string, {
+    ID: string;
+    Service: string;
+    ServiceSubset?: string;
+    Namespace?: string;
+    Partition?: string;
+    Datacenter: string;
+    Peer?: string;
+  }> | null;
+}
+
+// Returned by /agent/service/:id, and as the services of /catalog/node-services/:node
+interface RawAgentService {
+  ID: string;
+  Service: string;
+  Address: string;
+  Port: number;
+  Tags: string[] | null;
+  Meta: Record<string, string> | null;
+  Kind?: string;
+  Proxy?: RawServiceProxy | null;
+  Namespace?: string;
+  Partition?: string;
+}
+
+interface RawNodeServices {
+  Node: { Node: string; Address: string } | null;
+  Services: RawAgentService[] | null;
+}
+
+interface RawTxnResponse {
+  Results: { KV: RawKvPair }[] | null;
+  Errors: { OpIndex: number; What: string }[] | null;
+}
+
+interface RawIntention {
+  ID: string;
+  SourceName: string;
+  DestinationName: string;
+  SourceNS?: string;
+  SourcePartition?: string;
+  DestinationNS?: string;
+  DestinationPartition?: string;
+  Action?: 'allow' | 'deny';
+  Permissions?: IntentionPermission[];
+}
+
+interface RawCatalogNode {
+  ID: string;
+  Node: string;
+  Address: string;
+  Datacenter?: string;
+  TaggedAddresses: Record<string, string> | null;
+  Meta: Record<string, string> | null;
+  Partition?: string;
+}
+
+interface RawAgentMember {
+  Name: string;
+  Addr: string;
+  Port: number;
+  Tags: Record<string, string> | null;
+  Status: number;
+}
+
+interface RawCatalogService {
+  Node: string;
+  Address: string;
+  ServiceID: string;
+  ServiceName: string;
+  ServiceAddress: string;
+  ServicePort: number;
+  ServiceTags: string[] | null;
+  ServiceMeta: Record<string, string> | null;
+  ServiceKind?: string;
+  ServiceProxy?: RawServiceProxy | null;
+  Namespace?: string;
+  Partition?: string;
+}
+
+interface RawServiceProxy {
+  DestinationServiceName?: string;
+  Upstreams?: {
+    DestinationType?: string;
+    DestinationNamespace?: string;
+    DestinationPartition?: string;
+    DestinationName: string;
+    Datacenter?: string;
+    LocalBindPort?: number;
+    Config?: Record<string, unknown>;
+  }[] | null;
+}
+
+interface RawConfigEntry {
+  Kind: string;
+  Name: string;
+  Namespace?: string;
+  Partition?: string;
+}
+
+interface RawConfigTarget {
+  Service?: string;
+  ServiceSubset?: string;
+  Namespace?: string;
+  Partition?: string;
+  Datacenter?: string;
+  Peer?: string;
+}
+
+interface RawServiceRouter extends RawConfigEntry {
+  Routes?: { Destination?: RawConfigTarget }[] | null;
+}
+
+interface RawServiceSplitter extends RawConfigEntry {
+  Splits?: (RawConfigTarget & { Weight: number })[] | null;
+}
+
+interface RawServiceResolver extends RawConfigEntry {
+  DefaultSubset?: string;
+  Subsets?: Record<string, { Filter?: string; OnlyPassing?: boolean }>;
+  Redirect?: RawConfigTarget;
+  Failover?: Record<string, RawServiceFailover>;
+}
+
+interface RawServiceFailover extends RawConfigTarget {
+  Datacenters?: string[];
+  Targets?: RawConfigTarget[];
+}
+
+interface RawServiceEntry {
+  Node: {
+    Node: string;
+    Address: string;
+  };
+  Service: {
+    ID: string;
+    Service: string;
+    Address: string;
+    Port: number;
+    Tags: string[] | null;
+    Meta: Record<string, string> | null;
+  };
+  Checks: RawHealthCheck[];
 }
@@ -0,0 +1,414 @@
+// src/resources/dependency-graph.ts
+import { ServiceConnection } from './consul-client.js';
+
+// Intentions name "*" to match every service, namespace or partition
+const WILDCARD = '*';
+
+const DEFAULT_SCOPE = 'default';
+
+/**
+ * DependencyGraph indexes service connections by caller and callee, for
+ * questions that follow dependencies more than one hop. Only connections
+ * that are dependencies, see isDependency, become edges. Services are
+ * known by their qualified name, so same-named services in different
+ * namespaces or partitions stay apart.
+ */
+export class DependencyGraph {
+  private connections: ServiceConnection[];
+  private callees = new Map<string, Set<string>>();
+  private callers = new Map<string, Set<string>>();
+
+  /**
+   * Creates a dependency graph
+   * @param connections Service connections, from caller to callee
+   * @param services Qualified names of services to include even when they
+   * have no connections
+   */
+  constructor(connections: ServiceConnection[], services: string[] = []) {
+    this.connections = connections.filter(isDependency);
+    for (const name of services) this.add(name);
+    for (const conn of this.connections) {
+      const source = connectionSource(conn);
+      const destination = connectionDestination(conn);
+      this.add(source).callees.get(source)!.add(destination);
+      this.add(destination).callers.get(destination)!.add(source);
+    }
+  }
+
+  /**
+   * The qualified name of every service in the graph
+   */
+  get services(): string[] {
+    return [...this.callees.keys()];
+  }
+
+  /**
+   * Whether the service has connections or was given to the constructor
+   */
+  has(serviceName: string): boolean {
+    return this.callees.has(serviceName);
+  }
+
+  /**
+   * Finds the services with a name, in any namespace or partition
+   * @param name The service name, without namespace or partition
+   * @returns Their qualified names
+   */
+  named(name: string): string[] {
+    return this.services.filter(service => service === name || service.endsWith(`/${name}`));
+  }
+
+  /**
+   * Gets the services a service calls ("upstream") or that call it
+   * ("downstream"), without duplicates
+   * @param serviceName The qualified name of the service
+   * @param direction Which way to follow connections
+   */
+  neighbors(serviceName: string, direction: DependencyDirection): string[] {
+    return [...new Set([
+      ...(direction !== 'downstream' ? this.callees.get(serviceName) || [] : []),
+      ...(direction !== 'upstream' ? this.callers.get(serviceName) || [] : [])
+    ])];
+  }
+
+  /**
+   * Finds the services within a number of hops of a service, following
+   * connections in one direction or both
+   * @param serviceName The qualified name of the service
+   * @param depth Most hops to follow
+   * @param direction Which way to follow connections
+   * @returns Each service found with its distance in hops; the service itself is 0
+   */
+  neighborhood(serviceName: string, depth: number, direction: DependencyDirection): Map<string, number> {
+    const distances = new Map([[serviceName, 0]]);
+    let frontier = [serviceName];
+
+    for (let hops = 1; hops <= depth && frontier.length; hops++) {
+      frontier = [...new Set(frontier.flatMap(name => this.neighbors(name, direction)))]
+        .filter(name => !distances.has(name));
+      for (const name of frontier) distances.set(name, hops);
+    }
+
+    return distances;
+  }
+
+  /**
+   * Finds every service and connection on a path from one service to
+   * another, following connections from caller to callee
+   * @param from The service the paths start at
+   * @param to The service the paths end at
+   * @returns Both empty when there is no path
+   */
+  paths(from: string, to: string): ServicePaths {
+    const reachable = this.neighborhood(from, Infinity, 'upstream');
+    if (!reachable.has(to)) return { services: [], connections: [] };
+
+    // A connection is on a path when its caller is reachable from the start
+    // and its callee reaches the end
+    const reaching = this.neighborhood(to, Infinity, 'downstream');
+    const onPath = (name: string) => reachable.has(name) && reaching.has(name);
+    return {
+      services: [...reachable.keys()].filter(onPath),
+      connections: this.connections.filter(conn => onPath(connectionSource(conn)) && onPath(connectionDestination(conn)))
+    };
+  }
+
+  /**
+   * Finds the services that transitively call any of the failed services,
+   * and so lose a dependency when they fail
+   * @param failed Qualified names of the failed services
+   * @returns Each affected service with its distance in hops and the
+   * shortest chain of calls from it to a failed service
+   */
+  dependentsOf(failed: string[]): Map<string, ServiceImpact> {
+    const impact = new Map<string, ServiceImpact>();
+    const seen = new Set(failed);
+    let frontier = failed.map(name => ({ name, path: [name] }));
+
+    for (let hops = 1; frontier.length; hops++) {
+      const next: { name: string; path: string[] }[] = [];
+      for (const { name, path } of frontier) {
+        for (const caller of this.neighbors(name, 'downstream')) {
+          if (seen.has(caller)) continue;
+          seen.add(caller);
+          impact.set(caller, { hops, path: [caller, ...path] });
+          next.push({ name: caller, path: [caller, ...path] });
+        }
+      }
+      frontier = next;
+    }
+
+    return impact;
+  }
+
+  /**
+   * Finds dependency cycles: groups of services that each reach all of the
+   * others, plus services that call themselves
+   * @returns Each cycle's services, in the order they were visited
+   */
+  cycles(): string[][] {
+    return this.components().filter(component =>
+      component.length > 1 || this.callees.get(component[0])!.has(component[0])
+    );
+  }
+
+  /**
+   * Counts the services a service calls (fan-out) and that call it (fan-in)
+   */
+  degree(serviceName: string): { fanIn: number; fanOut: number } {
+    return {
+      fanIn: this.callers.get(serviceName)?.size ?? 0,
+      fanOut: this.callees.get(serviceName)?.size ?? 0
+    };
+  }
+
+  /**
+   * Computes the betweenness centrality of every service: the share of
+   * shortest call chains between two other services that pass through it.
+   * Uses Brandes' algorithm.
+   * @returns Each service's centrality, from 0 (on no shortest chain) to 1
+   * (on every shortest chain between every other pair)
+   */
+  betweenness(): Map<string, number> {
+    const services = this.services;
+    const centrality = new Map(services.map(name => [name, 0]));
+
+    for (const source of services) {
+      // Shortest chains from the source, counted per service
+      const order: string[] = [];
+      const predecessors = new Map<string, string[]>([[source, []]]);
+      const chains = new Map([[source, 1]]);
+      const distance = new Map([[source, 0]]);
+      const queue = [source];
+      while (queue.length) {
+        const name = queue.shift()!;
+        order.push(name);
+        for (const callee of this.callees.get(name)!) {
+          if (!distance.has(callee)) {
+            distance.set(callee, distance.get(name)! + 1);
+            predecessors.set(callee, []);
+            chains.set(callee, 0);
+            queue.push(callee);
+          }
+          if (distance.get(callee) === distance.get(name)! + 1) {
+            chains.set(callee, chains.get(callee)! + chains.get(name)!);
+            predecessors.get(callee)!.push(name);
+          }
+        }
+      }
+
+      // Walk back from the farthest services, sharing each one's chains
+      // among the services they pass through
+      const dependency = new Map(order.map(name => [name, 0]));
+      for (const name of order.reverse()) {
+        for (const predecessor of predecessors.get(name)!) {
+          const share = chains.get(predecessor)! / chains.get(name)! * (1 + dependency.get(name)!);
+          dependency.set(predecessor, dependency.get(predecessor)! + share);
+        }
+        if (name !== source) centrality.set(name, centrality.get(name)! + dependency.get(name)!);
+      }
+    }
+
+    const pairs = (services.length - 1) * (services.length - 2);
+    if (pairs > 0) {
+      for (const [name, value] of centrality) centrality.set(name, value / pairs);
+    }
+    return centrality;
+  }
+
+  /**
+   * Finds articulation points: services whose removal splits the mesh, with
+   * connections treated as going both ways, into more disconnected parts.
+   * Uses Hopcroft and Tarjan's depth-first search.
+   */
+  articulationPoints(): string[] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const points = new Set<string>();
+
+    const visit = (name: string, parent?: string) => {
+      index.set(name, index.size);
+      lowLink.set(name, index.get(name)!);
+      let children = 0;
+
+      for (const neighbor of this.neighbors(name, 'both')) {
+        if (neighbor === name || neighbor === parent) continue;
+        if (index.has(neighbor)) {
+          lowLink.set(name, Math.min(lowLink.get(name)!, index.get(neighbor)!));
+          continue;
+        }
+        children++;
+        visit(neighbor, name);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(neighbor)!));
+        // Nothing below the neighbor reaches above this service
+        if (parent !== undefined && lowLink.get(neighbor)! >= index.get(name)!) points.add(name);
+      }
+
+      if (parent === undefined && children > 1) points.add(name);
+    };
+
+    for (const name of this.services) {
+      if (!index.has(name)) visit(name);
+    }
+
+    return this.services.filter(name => points.has(name));
+  }
+
+  /**
+   * Finds the longest chains of dependencies, from a service nothing calls
+   * down to one that calls nothing. A cycle counts as one level, and its
+   * services are listed together.
+   * @param limit Most chains to return
+   * @returns Chains of at least two levels, longest first
+   */
+  longestChains(limit: number): DependencyChain[] {
+    const components = this.components();
+    const componentOf = new Map(components.flatMap((component, i) => component.map(name => [name, i] as const)));
+    const calledComponents = components.map(component => new Set(
+      component.flatMap(name => [...this.callees.get(name)!].map(callee => componentOf.get(callee)!))
+    ));
+    components.forEach((_, i) => calledComponents[i].delete(i));
+
+    // Components come out of Tarjan's algorithm after every component they
+    // call, so each chain below them is known when they are reached
+    const depth: number[] = [];
+    const next: (number | undefined)[] = [];
+    components.forEach((_, i) => {
+      depth[i] = 1;
+      for (const callee of calledComponents[i]) {
+        if (depth[callee] + 1 > depth[i]) {
+          depth[i] = depth[callee] + 1;
+          next[i] = callee;
+        }
+      }
+    });
+
+    const called = new Set(calledComponents.flatMap(callees => [...callees]));
+    return components
+      .map((_, i) => i)
+      .filter(i => !called.has(i) && depth[i] > 1)
+      .sort((a, b) => depth[b] - depth[a])
+      .slice(0, limit)
+      .map(start => {
+        const services: string[] = [];
+        for (let i: number | undefined = start; i !== undefined; i = next[i]) services.push(...components[i]);
+        return { services, depth: depth[start] };
+      });
+  }
+
+  /**
+   * Splits the graph into strongly connected components, groups of services
+   * that each reach all of the others, with Tarjan's algorithm
+   * @returns Components in reverse topological order: every component comes
+   * after the components it calls
+   */
+  private components(): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+
+    const visit = (name: string) => {
+      index.set(name, index.size);
+      lowLink.set(name, index.get(name)!);
+      stack.push(name);
+      onStack.add(name);
+
+      for (const callee of this.callees.get(name) || []) {
+        if (!index.has(callee)) {
+          visit(callee);
+          lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(callee)!));
+        } else if (onStack.has(callee)) {
+          lowLink.set(name, Math.min(lowLink.get(name)!, index.get(callee)!));
+        }
+      }
+
+      if (lowLink.get(name) === index.get(name)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.unshift(member);
+        } while (member !== name);
+        components.push(component);
+      }
+    };
+
+    for (const name of this.services) {
+      if (!index.has(name)) visit(name);
+    }
+
+    return components;
+  }
+
+  private add(serviceName: string): this {
+    if (!this.callees.has(serviceName)) {
+      this.callees.set(serviceName, new Set());
+      this.callers.set(serviceName, new Set());
+    }
+    return this;
+  }
+}
+
+/**
+ * Gets the name a service is known by in a dependency graph: its name in the
+ * default namespace and partition, and partition/namespace/name elsewhere
+ * @param name Service name
+ * @param scope Namespace and partition of the service
+ */
+export function qualifiedServiceName(name: string, scope: { namespace?: string; partition?: string } = {}): string {
+  const namespace = scope.namespace || DEFAULT_SCOPE;
+  const partition = scope.partition || DEFAULT_SCOPE;
+  return namespace === DEFAULT_SCOPE && partition === DEFAULT_SCOPE ? name : [partition, namespace, name].join('/');
+}
+
+/**
+ * Gets the qualified name of the service a connection starts at
+ */
+export function connectionSource(conn: ServiceConnection): string {
+  return qualifiedServiceName(conn.source, { namespace: conn.sourceNamespace, partition: conn.sourcePartition });
+}
+
+/**
+ * Gets the qualified name of the service a connection ends at
+ */
+export function connectionDestination(conn: ServiceConnection): string {
+  return qualifiedServiceName(conn.destination, { namespace: conn.destinationNamespace, partition: conn.destinationPartition });
+}
+
+/**
+ * Whether the source of a connection depends on its destination. Deny
+ * intentions block the call instead, and wildcard intentions name no
+ * particular service.
+ */
+export function isDependency(conn: ServiceConnection): boolean {
+  const endpoints = [
+    conn.source, conn.destination,
+    conn.sourceNamespace, conn.destinationNamespace,
+    conn.sourcePartition, conn.destinationPartition
+  ];
+  return conn.status !== 'blocked' && !endpoints.includes(WILDCARD);
+}
+
+// Type definitions
+
+// "upstream" follows connections to the services a service calls,
+// "downstream" to the services that call it
+export type DependencyDirection = 'upstream' | 'downstream' | 'both';
+
+export interface ServicePaths {
+  services: string[];
+  connections: ServiceConnection[];
+}
+
+export interface DependencyChain {
+  services: string[]; // From the caller at the top to the last callee
+  depth: number;      // Levels of dependencies, counting a cycle as one
+}
+
+export interface ServiceImpact {
+  hops: number;   // Calls between the service and the failure
+  path: string[]; // From the service to the failed service it depends on
+}
@@ -22,7 +22,10 @@ export class HealthManager {
   }
 
   async getHealthSummary(): Promise<HealthSummary> {
-    const allChecks = await this.consulClient.getAllHealthChecks();
+    const [allChecks, services] = await Promise.all([
+      this.consulClient.getAllHealthChecks(),
+      this.consulClient.getServices()
+    ]);
 
     const passingCount = allChecks.filter(check => check.status === 'passing').length;
     const warningCount = allChecks.filter(check => check.status === 'warning').length;
@@ -41,6 +44,34 @@ export class HealthManager {
       .map(([serviceName, count]) => ({ serviceName, count }))
       .sort((a, b) => b.count - a.count);
 
+    // Failing checks per node. A failing node check, such as serfHealth,
+    // fails every instance on the node, so those services share one cause.
+    const nodeRollups = new Map<string, NodeHealthRollup>();
+    for (const check of allChecks) {
+      if ((check.status !== 'warning' && check.status !== 'critical') || !check.node) continue;
+
+      let rollup = nodeRollups.get(check.node);
+      if (!rollup) {
+        rollup = { node: check.node, status: 'passing', failingChecks: 0, failingServices: [], nodeFailure: false };
+        nodeRollups.set(check.node, rollup);
+      }
+      rollup.failingChecks++;
+      if (!check.serviceId) {
+        rollup.nodeFailure = true;
+        if (check.status === 'critical' || rollup.status === 'passing') rollup.status = check.status;
+      }
+    }
+    for (const service of services) {
+      const rollup = nodeRollups.get(service.node);
+      const failing = service.health.status === 'warning' || service.health.status === 'critical';
+      if (rollup && failing && !rollup.failingServices.includes(service.name)) {
+        rollup.failingServices.push(service.name);
+      }
+    }
+
+    const failingChecksByNode = Array.from(nodeRollups.values())
+      .sort((a, b) => Number(b.nodeFailure) - Number(a.nodeFailure) || b.failingServices.length - a.failingServices.length);
+
     let overallStatus: HealthStatus = 'passing';
     if (criticalCount > 0) {
       overallStatus = 'critical';
@@ -55,6 +86,7 @@ export class HealthManager {
       critical: criticalCount,
       unknown: unknownCount,
       failingChecksByService,
+      failingChecksByNode,
       overallStatus
     };
   }
@@ -213,9 +245,18 @@ export interface HealthSummary {
     serviceName: string;
     count: number;
   }>;
+  failingChecksByNode: NodeHealthRollup[]; // Nodes with failing node checks first
   overallStatus: HealthStatus;
 }
 
+export interface NodeHealthRollup {
+  node: string;
+  status: HealthStatus;       // Worst node-level check
+  failingChecks: number;      // Node and service checks
+  failingServices: string[];  // Services with a failing instance on the node
+  nodeFailure: boolean;       // A node check fails, which fails every instance on the node
+}
+
 export interface HealthAnalysis {
   patterns: Array<{
     type: string;
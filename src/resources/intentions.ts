@@ -0,0 +1,96 @@
+// src/resources/intentions.ts
+import {
+  ConsulClient,
+  IntentionPermission,
+  IntentionSourceRef,
+  ServiceIntentionsEntry
+} from './consul-client.js';
+
+/**
+ * Error for an intention request that cannot be sent to Consul as given
+ */
+export class InvalidIntentionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidIntentionError';
+  }
+}
+
+export interface IntentionRequest {
+  source?: string;
+  destination?: string;
+  sourceNamespace?: string;
+  sourcePartition?: string;
+  action?: 'allow' | 'deny';
+  permissions?: IntentionPermission[];
+  description?: string;
+  configEntry?: ServiceIntentionsEntry; // Complete entry, instead of the fields above
+}
+
+/**
+ * IntentionManager creates, deletes and checks Connect intentions
+ */
+export class IntentionManager {
+  private consulClient: ConsulClient;
+
+  constructor(consulClient: ConsulClient) {
+    this.consulClient = consulClient;
+  }
+
+  /**
+   * Writes one source's intention, or a complete service-intentions entry
+   * @returns The destination's intentions after the write
+   */
+  async upsert(request: IntentionRequest): Promise<ServiceIntentionsEntry> {
+    if (request.configEntry) {
+      if (request.source || request.destination) {
+        throw new InvalidIntentionError('Pass either config_entry or source and destination, not both');
+      }
+      await this.consulClient.writeIntentions(request.configEntry);
+      return request.configEntry;
+    }
+
+    const { source, destination } = this.requireEndpoints(request);
+    if (!request.action === !request.permissions?.length) {
+      throw new InvalidIntentionError('Set either action (L4) or permissions (L7)');
+    }
+
+    return this.consulClient.upsertIntention(destination, {
+      ...source,
+      Action: request.action,
+      Permissions: request.permissions?.length ? request.permissions : undefined,
+      Description: request.description
+    });
+  }
+
+  /**
+   * Deletes one source's intention
+   * @returns Whether there was an intention to delete
+   */
+  async delete(request: IntentionRequest): Promise<boolean> {
+    const { source, destination } = this.requireEndpoints(request);
+    return this.consulClient.deleteIntention(destination, source);
+  }
+
+  /**
+   * Checks whether the source may connect to the destination
+   */
+  async check(request: IntentionRequest): Promise<boolean> {
+    const { source, destination } = this.requireEndpoints(request);
+    return this.consulClient.checkIntention(source, destination);
+  }
+
+  private requireEndpoints(request: IntentionRequest): { source: IntentionSourceRef; destination: string } {
+    if (!request.source || !request.destination) {
+      throw new InvalidIntentionError('Both source and destination are required');
+    }
+    return {
+      source: {
+        Name: request.source,
+        Namespace: request.sourceNamespace,
+        Partition: request.sourcePartition
+      },
+      destination: request.destination
+    };
+  }
+}
@@ -0,0 +1,504 @@
+// src/resources/kv.ts
+import yaml from 'js-yaml';
+import { ConsulClient, KvEntry, KvTxnOperation } from './consul-client.js';
+
+// Consul rejects values larger than this by default (kv_max_value_size)
+const MAX_WRITE_BYTES = 512 * 1024;
+
+// Consul rejects transactions with more operations than this
+export const MAX_TXN_OPERATIONS = 64;
+
+// Defaults that keep large blobs and big prefixes out of the LLM context
+export const DEFAULT_MAX_VALUE_BYTES = 16 * 1024;
+export const DEFAULT_LIST_VALUE_BYTES = 1024;
+export const DEFAULT_LIST_LIMIT = 100;
+
+/**
+ * Error for a KV request that cannot be sent to Consul as given
+ */
+export class InvalidKvRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidKvRequestError';
+  }
+}
+
+export type KvEncoding = 'utf8' | 'base64';
+
+/**
+ * A KV entry with its value decoded for display
+ */
+export interface KvValue {
+  key: string;
+  value: string | null;   // null for keys without a value
+  encoding: KvEncoding;   // base64 for values that are not UTF-8 text
+  size: number;           // Size of the whole value in bytes
+  truncated: boolean;     // Whether value holds only the first bytes
+  flags: number;
+  modifyIndex: number;
+  createIndex: number;
+  lockIndex: number;
+  session?: string;
+  namespace?: string;
+  partition?: string;
+}
+
+export interface KvListing {
+  prefix: string;
+  keys?: string[];        // With keysOnly
+  entries?: KvValue[];    // Without keysOnly
+  total: number;          // Number of keys under the prefix
+  truncated: boolean;     // Whether only the first `limit` keys are included
+}
+
+export interface KvListOptions {
+  keysOnly?: boolean;
+  separator?: string;     // With keysOnly, list each "folder" once
+  limit?: number;
+  maxValueBytes?: number; // Per value
+}
+
+export interface KvWriteOptions {
+  encoding?: KvEncoding;  // Of the given value
+  cas?: number;
+  flags?: number;
+}
+
+/**
+ * One operation of a change set applied with KvManager.apply
+ */
+export interface KvChange {
+  op: 'set' | 'delete' | 'check';
+  key: string;
+  value?: string;         // For set, unless sourceKey is given
+  encoding?: KvEncoding;  // Of value
+  sourceKey?: string;     // For set: copy the value of this key
+  sourceIndex?: number;   // For sourceKey: only if the source key is still at this modify index
+  cas?: number;           // Only if the key is still at this modify index (0: does not exist); required for check
+  flags?: number;
+}
+
+export interface KvDiffEntry {
+  key: string;            // Relative to the prefixes
+  status: 'added' | 'removed' | 'changed';
+  sourceValue?: string;   // Truncated like kv_list values
+  targetValue?: string;
+}
+
+export interface KvDiff {
+  source: string;         // Source prefix, or "document"
+  target: string;         // Target prefix
+  added: number;          // Keys only in the source
+  removed: number;        // Keys only in the target
+  changed: number;
+  unchanged: number;
+  entries: KvDiffEntry[];
+  changes: KvChange[];    // Change set that makes the target match the source
+  truncated: boolean;     // Whether only the first entries and changes are included, by `limit` or transaction size
+}
+
+export interface KvDiffOptions {
+  includeDeletes?: boolean; // Delete keys missing from the source in the change set
+  limit?: number;
+  maxValueBytes?: number;
+}
+
+export interface KvApplyOutcome {
+  op: KvChange['op'];
+  key: string;
+  action?: 'create' | 'update' | 'unchanged' | 'delete' | 'none'; // In a dry run
+  conflict?: string;      // Why the operation would fail, in a dry run
+}
+
+export interface KvApplyResult {
+  dryRun: boolean;
+  committed: boolean;
+  operations: KvApplyOutcome[];
+  errors: { key: string; message: string }[];
+}
+
+/**
+ * KvManager reads and writes the Consul KV store, decoding values and
+ * limiting their size
+ */
+export class KvManager {
+  private consulClient: ConsulClient;
+
+  constructor(consulClient: ConsulClient) {
+    this.consulClient = consulClient;
+  }
+
+  /**
+   * Gets one key
+   * @param maxValueBytes Longer values are truncated to this many bytes
+   * @returns The entry, or null when the key does not exist
+   */
+  async get(key: string, maxValueBytes = DEFAULT_MAX_VALUE_BYTES): Promise<KvValue | null> {
+    const entry = await this.consulClient.kvGet(key);
+    return entry ? toKvValue(entry, maxValueBytes) : null;
+  }
+
+  /**
+   * Lists the keys under a prefix, with or without their values
+   */
+  async list(prefix: string, options: KvListOptions = {}): Promise<KvListing> {
+    const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+
+    if (options.keysOnly) {
+      const keys = await this.consulClient.kvKeys(prefix, options.separator);
+      return { prefix, keys: keys.slice(0, limit), total: keys.length, truncated: keys.length > limit };
+    }
+
+    const entries = await this.consulClient.kvList(prefix);
+    return {
+      prefix,
+      entries: entries.slice(0, limit).map(entry => toKvValue(entry, options.maxValueBytes ?? DEFAULT_LIST_VALUE_BYTES)),
+      total: entries.length,
+      truncated: entries.length > limit
+    };
+  }
+
+  /**
+   * Writes a key
+   * @returns Whether the value was written; false when a `cas` index no longer matches
+   */
+  async put(key: string, value: string, options: KvWriteOptions = {}): Promise<boolean> {
+    requireKey(key);
+    return this.consulClient.kvPut(key, decodeValue(value, options.encoding), { cas: options.cas, flags: options.flags });
+  }
+
+  /**
+   * Deletes a key, or every key under a prefix
+   * @returns Whether the delete succeeded; false when a `cas` index no longer matches
+   */
+  async delete(key: string, options: { cas?: number; recurse?: boolean } = {}): Promise<boolean> {
+    requireKey(key);
+    if (options.recurse && options.cas !== undefined) {
+      throw new InvalidKvRequestError('cas cannot be combined with recurse');
+    }
+    return this.consulClient.kvDelete(key, options);
+  }
+
+  /**
+   * Compares the keys under a target prefix with a source prefix or document
+   * @param source Source prefix, or the parsed keys and values of a document
+   * @param targetPrefix Prefix the change set would change
+   * @returns The differences, and a change set that makes the target match
+   * the source. Its writes are check-and-set against the target as read here,
+   * and its copies against the source keys as read here. It is cut short
+   * where it would no longer fit in one transaction.
+   */
+  async diff(source: string | Map<string, Buffer>, targetPrefix: string, options: KvDiffOptions = {}): Promise<KvDiff> {
+    const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+    const maxBytes = options.maxValueBytes ?? DEFAULT_LIST_VALUE_BYTES;
+    const display = (value: Buffer) => displayValue(value, maxBytes).value;
+
+    const sourceEntries: Map<string, { value: Buffer; modifyIndex?: number }> = typeof source === 'string'
+      ? await this.readPrefix(source)
+      : new Map([...source].map(([key, value]) => [key, { value }]));
+    const targetEntries = await this.readPrefix(targetPrefix);
+
+    const diff: KvDiff = {
+      source: typeof source === 'string' ? source : 'document',
+      target: targetPrefix,
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+      entries: [],
+      changes: [],
+      truncated: false
+    };
+
+    let operations = 0;
+    const add = (entry: KvDiffEntry, change?: KvChange) => {
+      const needed = change ? txnOperationCount(change) : 0;
+      if (!diff.truncated && diff.entries.length < limit && operations + needed <= MAX_TXN_OPERATIONS) {
+        diff.entries.push(entry);
+        if (change) diff.changes.push(change);
+        operations += needed;
+      } else {
+        diff.truncated = true;
+      }
+    };
+
+    const keys = [...new Set([...sourceEntries.keys(), ...targetEntries.keys()])].sort();
+    for (const key of keys) {
+      const from = sourceEntries.get(key);
+      const to = targetEntries.get(key);
+      // Copy values between prefixes by key, so they need not pass through the change set
+      const value = from && (typeof source === 'string'
+        ? { sourceKey: source + key, sourceIndex: from.modifyIndex }
+        : toChangeValue(from.value));
+
+      if (from && !to) {
+        diff.added++;
+        add({ key, status: 'added', sourceValue: display(from.value) },
+          { op: 'set', key: targetPrefix + key, ...value, cas: 0 });
+      } else if (!from && to) {
+        diff.removed++;
+        add({ key, status: 'removed', targetValue: display(to.value) },
+          options.includeDeletes ? { op: 'delete', key: targetPrefix + key, cas: to.modifyIndex } : undefined);
+      } else if (from && to && !from.value.equals(to.value)) {
+        diff.changed++;
+        add({ key, status: 'changed', sourceValue: display(from.value), targetValue: display(to.value) },
+          { op: 'set', key: targetPrefix + key, ...value, cas: to.modifyIndex });
+      } else {
+        diff.unchanged++;
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Applies a change set in one Consul transaction, so either every change
+   * is made or none is. A dry run reads the keys instead and reports what
+   * each change would do.
+   */
+  async apply(changes: KvChange[], options: { dryRun?: boolean } = {}): Promise<KvApplyResult> {
+    if (changes.length === 0) {
+      throw new InvalidKvRequestError('The change set is empty');
+    }
+    const operationCount = changes.reduce((count, change) => count + txnOperationCount(change), 0);
+    if (operationCount > MAX_TXN_OPERATIONS) {
+      throw new InvalidKvRequestError(
+        `The change set needs ${operationCount} operations; a transaction takes at most ${MAX_TXN_OPERATIONS}`
+      );
+    }
+
+    const operations = await Promise.all(changes.map(change => this.toTxnOperation(change)));
+
+    if (options.dryRun) {
+      const current = await Promise.all(changes.map(change => this.consulClient.kvGet(change.key)));
+      const sources = await Promise.all(changes.map(change =>
+        change.sourceIndex !== undefined ? this.consulClient.kvGet(change.sourceKey!) : null));
+      const outcomes = changes.map((change, i) => dryRunOutcome(change, operations[i], current[i], sources[i]));
+      return {
+        dryRun: true,
+        committed: false,
+        operations: outcomes,
+        errors: outcomes
+          .filter(outcome => outcome.conflict)
+          .map(outcome => ({ key: outcome.key, message: outcome.conflict! }))
+      };
+    }
+
+    // A copy pinned to a source version checks it in the same transaction,
+    // so the value written is the one that was diffed
+    const txn = changes.flatMap((change, i) => [
+      ...(change.sourceIndex !== undefined
+        ? [{ change, operation: { verb: 'check-index', key: change.sourceKey!, index: change.sourceIndex } as KvTxnOperation }]
+        : []),
+      { change, operation: operations[i] }
+    ]);
+
+    const result = await this.consulClient.kvTxn(txn.map(({ operation }) => operation));
+    return {
+      dryRun: false,
+      committed: result.committed,
+      operations: changes.map(change => ({ op: change.op, key: change.key })),
+      errors: result.errors.map(error => ({ key: txn[error.opIndex]?.change.key ?? '', message: error.what }))
+    };
+  }
+
+  /**
+   * Reads every key under a prefix, keyed relative to it. Folder
+   * placeholders (keys ending in "/") are left out.
+   */
+  private async readPrefix(prefix: string): Promise<Map<string, { value: Buffer; modifyIndex?: number }>> {
+    const entries = await this.consulClient.kvList(prefix);
+    return new Map(entries
+      .filter(entry => !entry.key.endsWith('/'))
+      .map(entry => [entry.key.slice(prefix.length), { value: entry.value ?? Buffer.alloc(0), modifyIndex: entry.modifyIndex }]));
+  }
+
+  private async toTxnOperation(change: KvChange): Promise<KvTxnOperation> {
+    requireKey(change.key);
+    if (change.sourceIndex !== undefined && change.sourceKey === undefined) {
+      throw new InvalidKvRequestError(`source_index for ${change.key} needs source_key`);
+    }
+
+    switch (change.op) {
+      case 'set': {
+        if ((change.value === undefined) === (change.sourceKey === undefined)) {
+          throw new InvalidKvRequestError(`Set either value or source_key for ${change.key}`);
+        }
+
+        let value: Buffer;
+        if (change.sourceKey !== undefined) {
+          const source = await this.consulClient.kvGet(change.sourceKey);
+          if (!source) throw new InvalidKvRequestError(`Source key ${change.sourceKey} not found`);
+          value = source.value ?? Buffer.alloc(0);
+        } else {
+          value = decodeValue(change.value!, change.encoding);
+        }
+
+        return change.cas === undefined
+          ? { verb: 'set', key: change.key, value, flags: change.flags }
+          : { verb: 'cas', key: change.key, value, flags: change.flags, index: change.cas };
+      }
+      case 'delete':
+        return change.cas === undefined
+          ? { verb: 'delete', key: change.key }
+          : { verb: 'delete-cas', key: change.key, index: change.cas };
+      case 'check':
+        if (change.cas === undefined) {
+          throw new InvalidKvRequestError(`A check of ${change.key} needs cas`);
+        }
+        return change.cas === 0
+          ? { verb: 'check-not-exists', key: change.key }
+          : { verb: 'check-index', key: change.key, index: change.cas };
+    }
+  }
+}
+
+/**
+ * Parses a JSON or YAML document into KV keys and values. Nested objects
+ * become "/"-separated keys; strings are stored as-is and other values as JSON.
+ */
+export function parseKvDocument(document: string): Map<string, Buffer> {
+  let parsed: unknown;
+  try {
+    // JSON is a subset of YAML
+    parsed = yaml.load(document);
+  } catch (error) {
+    throw new InvalidKvRequestError(`The document is not valid JSON or YAML: ${(error as Error).message}`);
+  }
+  if (!isObject(parsed)) {
+    throw new InvalidKvRequestError('The document must be an object of keys and values');
+  }
+
+  const values = new Map<string, Buffer>();
+  const flatten = (object: Record<string, unknown>, prefix: string) => {
+    for (const [name, value] of Object.entries(object)) {
+      const key = prefix + name;
+      if (isObject(value)) {
+        flatten(value, `${key}/`);
+      } else {
+        values.set(key, Buffer.from(typeof value === 'string' ? value : JSON.stringify(value ?? null)));
+      }
+    }
+  };
+  flatten(parsed, '');
+  return values;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decodes a value given as text or base64, checking Consul's size limit
+ */
+function decodeValue(value: string, encoding: KvEncoding = 'utf8'): Buffer {
+  if (encoding === 'base64' && (!/^[A-Za-z0-9+/]*={0,2}$/.test(value) || value.length % 4 !== 0)) {
+    throw new InvalidKvRequestError('Value is not valid base64');
+  }
+
+  const bytes = Buffer.from(value, encoding);
+  if (bytes.length > MAX_WRITE_BYTES) {
+    throw new InvalidKvRequestError(`Value is ${bytes.length} bytes; Consul accepts at most ${MAX_WRITE_BYTES}`);
+  }
+  return bytes;
+}
+
+/**
+ * Represents a value in a change set as text where possible
+ */
+function toChangeValue(value: Buffer): Pick<KvChange, 'value' | 'encoding'> {
+  return isText(value) ? { value: value.toString('utf8') } : { value: value.toString('base64'), encoding: 'base64' };
+}
+
+/**
+ * Number of transaction operations a change takes: a copy pinned to a
+ * source version also checks the source key
+ */
+function txnOperationCount(change: KvChange): number {
+  return change.sourceIndex !== undefined ? 2 : 1;
+}
+
+/**
+ * Works out what a change would do to the key as it is now, and whether
+ * its check-and-set index, and that of its source key, still match
+ */
+function dryRunOutcome(
+  change: KvChange,
+  operation: KvTxnOperation,
+  current: KvEntry | null,
+  source: KvEntry | null
+): KvApplyOutcome {
+  const outcome: KvApplyOutcome = { op: change.op, key: change.key };
+
+  if (change.cas !== undefined) {
+    const index = current?.modifyIndex ?? 0;
+    if (change.cas !== index) {
+      outcome.conflict = change.cas === 0
+        ? 'The key already exists'
+        : current ? `The key is at modify index ${index}, not ${change.cas}` : 'The key does not exist';
+    }
+  }
+  if (!outcome.conflict && change.sourceIndex !== undefined && source?.modifyIndex !== change.sourceIndex) {
+    outcome.conflict = source
+      ? `The source key ${change.sourceKey} is at modify index ${source.modifyIndex}, not ${change.sourceIndex}`
+      : `The source key ${change.sourceKey} does not exist`;
+  }
+
+  if (change.op === 'set') {
+    const unchanged = current && (current.value ?? Buffer.alloc(0)).equals(operation.value!);
+    outcome.action = !current ? 'create' : unchanged ? 'unchanged' : 'update';
+  } else if (change.op === 'delete') {
+    outcome.action = current ? 'delete' : 'none';
+  } else {
+    outcome.action = 'none';
+  }
+
+  return outcome;
+}
+
+/**
+ * Writes never target the root of the KV store; a recursive delete there
+ * would remove every key
+ */
+function requireKey(key: string): void {
+  if (!key.replace(/^\/+/, '')) {
+    throw new InvalidKvRequestError('A key is required');
+  }
+}
+
+/**
+ * Decodes a value as UTF-8 text, or as base64 when it is binary, keeping
+ * at most maxBytes of it
+ */
+export function toKvValue(entry: KvEntry, maxBytes: number): KvValue {
+  const { value, ...rest } = entry;
+  const displayed = displayValue(value ?? Buffer.alloc(0), maxBytes);
+
+  return {
+    ...rest,
+    ...displayed,
+    value: value ? displayed.value : null,
+    size: value?.length ?? 0
+  };
+}
+
+function displayValue(bytes: Buffer, maxBytes: number): { value: string; encoding: KvEncoding; truncated: boolean } {
+  const truncated = bytes.length > maxBytes;
+  const kept = truncated ? bytes.subarray(0, maxBytes) : bytes;
+
+  if (!isText(bytes)) {
+    return { value: kept.toString('base64'), encoding: 'base64', truncated };
+  }
+  // A multi-byte character cut off by truncation decodes to U+FFFD
+  return { value: kept.toString('utf8').replace(/\uFFFD$/, ''), encoding: 'utf8', truncated };
+}
+
+function isText(bytes: Buffer): boolean {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    // Control characters other than tabs and line breaks mean binary data
+    return !/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/.test(text);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,353 @@
+// src/resources/metrics.ts
+import { readFileSync } from 'fs';
+
+/**
+ * Where a metrics value came from. `none` means no telemetry backend is
+ * configured and every value is reported as unavailable.
+ */
+export type MetricsSource = 'prometheus' | 'none';
+
+/**
+ * Measured traffic between two services. A `null` value means the backend
+ * had no data for it; callers must not substitute a default.
+ */
+export interface ConnectionMetrics {
+  source: MetricsSource;
+  window: string | null;
+  latency: number | null;       // p99 upstream request time in ms
+  errorRate: number | null;     // 0-1 share of 5xx responses
+  requestVolume: number | null; // requests per second
+}
+
+/**
+ * The per-service metrics a provider can report
+ */
+export type ServiceMetricName =
+  | 'cpuUsage'
+  | 'cpuCores'
+  | 'memoryUsed'
+  | 'memoryTotal'
+  | 'networkRx'
+  | 'networkTx'
+  | 'requestRate'
+  | 'errorRate'
+  | 'p50'
+  | 'p90'
+  | 'p99';
+
+/**
+ * Measured values for one service. A `null` value means the backend had no
+ * data for that metric.
+ */
+export interface ServiceMetricsSample {
+  source: MetricsSource;
+  window: string | null;
+  values: Record<ServiceMetricName, number | null>;
+}
+
+/**
+ * A telemetry backend that can answer metrics questions about the mesh
+ */
+export interface MetricsProvider {
+  readonly source: MetricsSource;
+  getConnectionMetrics(sourceService: string, destinationService: string, datacenter?: string): Promise<ConnectionMetrics>;
+  getServiceMetrics(serviceName: string, serviceId?: string, datacenter?: string): Promise<ServiceMetricsSample>;
+}
+
+/**
+ * PromQL templates for connection metrics. `{{source}}`, `{{destination}}`,
+ * `{{datacenter}}` and `{{window}}` are substituted before the query is sent.
+ */
+export interface ConnectionQueryTemplates {
+  latency: string;
+  errorRate: string;
+  requestVolume: string;
+}
+
+// Series are told apart by a `datacenter` label, e.g. a Prometheus external
+// label or a relabeling per datacenter. Series without one still match, so a
+// single datacenter needs no label.
+const DATACENTER_SELECTOR = 'datacenter=~"{{datacenter}}|"';
+
+const UPSTREAM_SELECTOR = `local_cluster="{{source}}",consul_destination_service="{{destination}}",${DATACENTER_SELECTOR}`;
+
+/**
+ * Default queries against the Envoy sidecar stats that Consul Connect proxies export
+ */
+export const DEFAULT_CONNECTION_QUERIES: ConnectionQueryTemplates = {
+  latency:
+    `histogram_quantile(0.99, sum by (le) (rate(envoy_cluster_upstream_rq_time_bucket{${UPSTREAM_SELECTOR}}[{{window}}])))`,
+  errorRate:
+    `(sum(rate(envoy_cluster_upstream_rq_xx{${UPSTREAM_SELECTOR},envoy_response_code_class="5"}[{{window}}])) or vector(0))` +
+    ` / sum(rate(envoy_cluster_upstream_rq_total{${UPSTREAM_SELECTOR}}[{{window}}]))`,
+  requestVolume:
+    `sum(rate(envoy_cluster_upstream_rq_total{${UPSTREAM_SELECTOR}}[{{window}}]))`
+};
+
+/**
+ * PromQL templates for service metrics. `{{service}}`, `{{service_id}}`,
+ * `{{datacenter}}` and `{{window}}` are substituted before the query is sent.
+ * `{{service_id}}` falls back to the service name when no ID is known.
+ */
+export type ServiceQueryTemplates = Record<ServiceMetricName, string>;
+
+const INBOUND_SELECTOR = `local_cluster="{{service}}",envoy_http_conn_manager_prefix="public_listener",${DATACENTER_SELECTOR}`;
+const CONTAINER_SELECTOR = `container="{{service}}",${DATACENTER_SELECTOR}`;
+
+/**
+ * Default queries: resource usage from cAdvisor container metrics, traffic
+ * from the inbound (public listener) stats of the service's Envoy sidecar
+ */
+export const DEFAULT_SERVICE_QUERIES: ServiceQueryTemplates = {
+  cpuUsage:
+    `sum(rate(container_cpu_usage_seconds_total{${CONTAINER_SELECTOR}}[{{window}}]))` +
+    ` / sum(container_spec_cpu_quota{${CONTAINER_SELECTOR}} / container_spec_cpu_period{${CONTAINER_SELECTOR}})`,
+  cpuCores:
+    `sum(container_spec_cpu_quota{${CONTAINER_SELECTOR}} / container_spec_cpu_period{${CONTAINER_SELECTOR}})`,
+  memoryUsed:
+    `sum(container_memory_working_set_bytes{${CONTAINER_SELECTOR}}) / 1048576`,
+  memoryTotal:
+    `sum(container_spec_memory_limit_bytes{${CONTAINER_SELECTOR}}) / 1048576`,
+  networkRx:
+    `sum(rate(envoy_http_downstream_cx_rx_bytes_total{${INBOUND_SELECTOR}}[{{window}}]))`,
+  networkTx:
+    `sum(rate(envoy_http_downstream_cx_tx_bytes_total{${INBOUND_SELECTOR}}[{{window}}]))`,
+  requestRate:
+    `sum(rate(envoy_http_downstream_rq_total{${INBOUND_SELECTOR}}[{{window}}])) * 60`,
+  errorRate:
+    `(sum(rate(envoy_http_downstream_rq_xx{${INBOUND_SELECTOR},envoy_response_code_class="5"}[{{window}}])) or vector(0))` +
+    ` / sum(rate(envoy_http_downstream_rq_total{${INBOUND_SELECTOR}}[{{window}}]))`,
+  p50:
+    `histogram_quantile(0.5, sum by (le) (rate(envoy_http_downstream_rq_time_bucket{${INBOUND_SELECTOR}}[{{window}}])))`,
+  p90:
+    `histogram_quantile(0.9, sum by (le) (rate(envoy_http_downstream_rq_time_bucket{${INBOUND_SELECTOR}}[{{window}}])))`,
+  p99:
+    `histogram_quantile(0.99, sum by (le) (rate(envoy_http_downstream_rq_time_bucket{${INBOUND_SELECTOR}}[{{window}}])))`
+};
+
+const SERVICE_METRIC_NAMES = Object.keys(DEFAULT_SERVICE_QUERIES) as ServiceMetricName[];
+
+/**
+ * Query overrides as loaded from a PROMETHEUS_QUERIES_FILE. `services` is
+ * keyed by service ID or service name; an ID match wins over a name match.
+ */
+export interface QueryOverrides {
+  connection?: Partial<ConnectionQueryTemplates>;
+  service?: Partial<ServiceQueryTemplates>;
+  services?: Record<string, Partial<ServiceQueryTemplates>>;
+}
+
+/**
+ * MetricsProvider used when no telemetry backend is configured
+ */
+export class NoMetricsProvider implements MetricsProvider {
+  readonly source: MetricsSource = 'none';
+
+  async getConnectionMetrics(): Promise<ConnectionMetrics> {
+    return {
+      source: this.source,
+      window: null,
+      latency: null,
+      errorRate: null,
+      requestVolume: null
+    };
+  }
+
+  async getServiceMetrics(): Promise<ServiceMetricsSample> {
+    const values = {} as Record<ServiceMetricName, number | null>;
+    for (const name of SERVICE_METRIC_NAMES) {
+      values[name] = null;
+    }
+
+    return {
+      source: this.source,
+      window: null,
+      values
+    };
+  }
+}
+
+export interface PrometheusOptions {
+  url: string;
+  window?: string;
+  timeoutMs?: number;
+  queries?: QueryOverrides;
+}
+
+/**
+ * MetricsProvider backed by the Prometheus HTTP query API
+ */
+export class PrometheusMetricsProvider implements MetricsProvider {
+  readonly source: MetricsSource = 'prometheus';
+  private baseUrl: string;
+  private window: string;
+  private timeoutMs: number;
+  private connectionQueries: ConnectionQueryTemplates;
+  private serviceQueries: ServiceQueryTemplates;
+  private serviceOverrides: Record<string, Partial<ServiceQueryTemplates>>;
+
+  /**
+   * Creates a new PrometheusMetricsProvider
+   * @param options Prometheus address, rate window and optional query overrides
+   */
+  constructor(options: PrometheusOptions) {
+    this.baseUrl = options.url.replace(/\/+$/, '');
+    this.window = options.window || '5m';
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.connectionQueries = { ...DEFAULT_CONNECTION_QUERIES, ...options.queries?.connection };
+    this.serviceQueries = { ...DEFAULT_SERVICE_QUERIES, ...options.queries?.service };
+    this.serviceOverrides = options.queries?.services || {};
+  }
+
+  async getConnectionMetrics(sourceService: string, destinationService: string, datacenter?: string): Promise<ConnectionMetrics> {
+    const vars = {
+      source: sourceService,
+      destination: destinationService,
+      datacenter: datacenter || '',
+      window: this.window
+    };
+
+    const [latency, errorRate, requestVolume] = await Promise.all([
+      this.query(renderQuery(this.connectionQueries.latency, vars)),
+      this.query(renderQuery(this.connectionQueries.errorRate, vars)),
+      this.query(renderQuery(this.connectionQueries.requestVolume, vars))
+    ]);
+
+    return {
+      source: this.source,
+      window: this.window,
+      // Envoy reports upstream_rq_time in milliseconds already
+      latency: latency === null ? null : Math.round(latency),
+      errorRate,
+      requestVolume
+    };
+  }
+
+  async getServiceMetrics(serviceName: string, serviceId?: string, datacenter?: string): Promise<ServiceMetricsSample> {
+    const templates: ServiceQueryTemplates = {
+      ...this.serviceQueries,
+      ...this.serviceOverrides[serviceName],
+      ...(serviceId ? this.serviceOverrides[serviceId] : undefined)
+    };
+    const vars = {
+      service: serviceName,
+      service_id: serviceId || serviceName,
+      datacenter: datacenter || '',
+      window: this.window
+    };
+
+    const results = await Promise.all(
+      SERVICE_METRIC_NAMES.map(name => this.query(renderQuery(templates[name], vars)))
+    );
+
+    const values = {} as Record<ServiceMetricName, number | null>;
+    SERVICE_METRIC_NAMES.forEach((name, index) => {
+      values[name] = results[index];
+    });
+
+    return {
+      source: this.source,
+      window: this.window,
+      values
+    };
+  }
+
+  /**
+   * Runs an instant query and returns the first sample value
+   * @param promql The query to run
+   * @returns The sample value, or null when there is no (finite) result
+   */
+  private async query(promql: string): Promise<number | null> {
+    try {
+      const url = `${this.baseUrl}/api/v1/query?query=${encodeURIComponent(promql)}`;
+      const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+
+      if (!response.ok) {
+        console.error(`Prometheus query failed with HTTP ${response.status}: ${promql}`);
+        return null;
+      }
+
+      const body = await response.json() as PrometheusQueryResponse;
+      if (body.status !== 'success' || !Array.isArray(body.data?.result)) return null;
+
+      const sample = body.data.result[0];
+      if (!sample?.value) return null;
+
+      const value = parseFloat(sample.value[1]);
+      return Number.isFinite(value) ? value : null;
+    } catch (error) {
+      console.error('Error querying Prometheus:', error);
+      return null;
+    }
+  }
+}
+
+export interface MetricsConfig {
+  provider?: string;
+  prometheusUrl?: string;
+  window?: string;
+  queriesFile?: string;
+}
+
+/**
+ * Creates the MetricsProvider selected by configuration. Prometheus is used
+ * when requested explicitly or when a Prometheus URL is set.
+ * @param config Metrics configuration, usually read from the environment
+ * @returns The configured MetricsProvider
+ */
+export function createMetricsProvider(config: MetricsConfig): MetricsProvider {
+  const provider = config.provider?.toLowerCase() || (config.prometheusUrl ? 'prometheus' : 'none');
+
+  switch (provider) {
+    case 'prometheus':
+      if (!config.prometheusUrl) {
+        throw new Error('PROMETHEUS_URL is required when METRICS_PROVIDER is "prometheus"');
+      }
+      return new PrometheusMetricsProvider({
+        url: config.prometheusUrl,
+        window: config.window,
+        queries: config.queriesFile ? loadQueryOverrides(config.queriesFile) : undefined
+      });
+    case 'none':
+      return new NoMetricsProvider();
+    default:
+      throw new Error(`Unknown metrics provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Reads PromQL template overrides from a JSON file
+ * @param path Path to the JSON file
+ * @returns The parsed overrides
+ */
+function loadQueryOverrides(path: string): QueryOverrides {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as QueryOverrides;
+  } catch (error) {
+    throw new Error(`Failed to load Prometheus queries from ${path}: ${error}`);
+  }
+}
+
+/**
+ * Substitutes `{{name}}` placeholders in a PromQL template. Values are escaped
+ * so they are safe inside double-quoted label matchers.
+ */
+export function renderQuery(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => {
+    const value = vars[name];
+    if (value === undefined) return match;
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  });
+}
+
+interface PrometheusQueryResponse {
+  status: 'success' | 'error';
+  data?: {
+    resultType: string;
+    result: Array<{
+      metric: Record<string, string>;
+      value?: [number, string];
+    }>;
+  };
+  error?: string;
+}
@@ -0,0 +1,123 @@
+// src/resources/nodes.ts
+import {
+  ConsulClient,
+  ConsulNode,
+  ConsulService,
+  HealthCheck,
+  HealthStatus,
+  SerfMember,
+  SerfStatus
+} from './consul-client.js';
+
+/**
+ * NodeManager provides operations for the nodes that service instances run on
+ */
+export class NodeManager {
+  private consulClient: ConsulClient;
+
+  /**
+   * Creates a new NodeManager
+   * @param consulClient An initialized ConsulClient
+   */
+  constructor(consulClient: ConsulClient) {
+    this.consulClient = consulClient;
+  }
+
+  /**
+   * Lists every node with its health, Serf status and how many of its
+   * service instances are failing
+   * @returns Promise resolving to one summary per node
+   */
+  async getNodes(): Promise<NodeSummary[]> {
+    const [nodes, services, members] = await Promise.all([
+      this.consulClient.getNodes(),
+      this.consulClient.getServices(),
+      this.consulClient.getMembers()
+    ]);
+
+    return nodes.map(node => {
+      const instances = services.filter(service => service.node === node.name);
+      return {
+        id: node.id,
+        name: node.name,
+        address: node.address,
+        datacenter: node.datacenter,
+        partition: node.partition,
+        status: node.health.status,
+        serfStatus: findMember(members, node)?.status ?? 'unknown',
+        serviceCount: instances.length,
+        failingServiceCount: instances.filter(isFailing).length
+      };
+    });
+  }
+
+  /**
+   * Gets a node with its node checks, Serf membership and service instances
+   * @param name The node name
+   * @returns Promise resolving to node details or null if not found
+   */
+  async getNode(name: string): Promise<NodeDetails | null> {
+    const [node, services, members] = await Promise.all([
+      this.consulClient.getNode(name),
+      this.consulClient.getServices(),
+      this.consulClient.getMembers()
+    ]);
+    if (!node) return null;
+
+    return {
+      ...node,
+      serf: findMember(members, node) ?? null,
+      // Node checks are left out, since they are listed once for the node
+      services: services
+        .filter(service => service.node === name)
+        .map(service => ({
+          id: service.id,
+          name: service.name,
+          port: service.port,
+          status: service.health.status,
+          checks: service.health.checks.filter(check => check.serviceId)
+        }))
+    };
+  }
+}
+
+/**
+ * Finds the Serf member of a node. The local agent only knows the members
+ * of its own datacenter, so nodes elsewhere have none.
+ */
+function findMember(members: SerfMember[], node: ConsulNode): SerfMember | undefined {
+  return members.find(member =>
+    member.name === node.name && (!member.datacenter || !node.datacenter || member.datacenter === node.datacenter)
+  );
+}
+
+function isFailing(service: ConsulService): boolean {
+  return service.health.status === 'critical' || service.health.status === 'warning';
+}
+
+// Type definitions
+
+export interface NodeSummary {
+  id?: string;
+  name: string;
+  address: string;
+  datacenter?: string;
+  partition?: string;
+  status: HealthStatus;               // Worst node-level check, e.g. serfHealth
+  serfStatus: SerfStatus | 'unknown'; // "unknown" when the local agent has no member for the node
+  serviceCount: number;
+  failingServiceCount: number;
+}
+
+export interface NodeDetails extends ConsulNode {
+  serf: SerfMember | null;
+  services: NodeServiceInstance[];
+}
+
+export interface NodeServiceInstance {
+  id: string;
+  name: string;
+  port: string;
+  status: HealthStatus; // Includes the node checks
+  checks: HealthCheck[];
+}
@@ -0,0 +1,136 @@
+// src/resources/registration.ts
+import { ConsulClient, ConsulService, ServiceDefinition } from './consul-client.js';
+
+/**
+ * Error for a registration request that cannot be sent to Consul as given
+ */
+export class InvalidRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRegistrationError';
+  }
+}
+
+// "agent" goes through the local agent; "catalog" writes the catalog directly,
+// for nodes without an agent
+export type RegistrationTarget = 'agent' | 'catalog';
+
+export interface InstanceRef {
+  target: RegistrationTarget;
+  serviceId: string;
+  node?: string;          // Required for the catalog
+}
+
+export interface RegistrationRequest {
+  target: RegistrationTarget;
+  service: ServiceDefinition;
+  node?: string;          // Required for the catalog
+  nodeAddress?: string;   // Required for the catalog
+}
+
+/**
+ * The state of a service instance before and after a change; null when it
+ * is not registered
+ */
+export interface RegistrationChange {
+  before: ConsulService | null;
+  after: ConsulService | null;
+}
+
+/**
+ * RegistrationManager registers and deregisters service instances and
+ * switches their maintenance mode
+ */
+export class RegistrationManager {
+  private consulClient: ConsulClient;
+
+  constructor(consulClient: ConsulClient) {
+    this.consulClient = consulClient;
+  }
+
+  /**
+   * Registers a service instance, replacing an instance with the same ID
+   */
+  async register(request: RegistrationRequest): Promise<RegistrationChange> {
+    const instance: InstanceRef = {
+      target: request.target,
+      serviceId: request.service.id || request.service.name,
+      node: request.node
+    };
+
+    if (request.target === 'catalog') {
+      const node = this.requireNode(instance);
+      if (!request.nodeAddress) {
+        throw new InvalidRegistrationError('Catalog registrations need the node address');
+      }
+      if (request.service.check) {
+        throw new InvalidRegistrationError('Catalog registrations cannot define a check; only agents run checks');
+      }
+      return this.change(instance, () =>
+        this.consulClient.registerCatalogService(node, request.nodeAddress!, request.service)
+      );
+    }
+
+    return this.change(instance, () => this.consulClient.registerAgentService(request.service));
+  }
+
+  /**
+   * Deregisters a service instance
+   */
+  async deregister(instance: InstanceRef): Promise<RegistrationChange> {
+    return this.changeRegistered(instance, node => node
+      ? this.consulClient.deregisterCatalogService(node, instance.serviceId)
+      : this.consulClient.deregisterAgentService(instance.serviceId)
+    );
+  }
+
+  /**
+   * Puts a service instance into maintenance mode, draining it from
+   * discovery, or takes it out again
+   */
+  async setMaintenance(instance: InstanceRef, enable: boolean, reason?: string): Promise<RegistrationChange> {
+    return this.changeRegistered(instance, node => node
+      ? this.consulClient.setCatalogServiceMaintenance(node, instance.serviceId, enable, reason)
+      : this.consulClient.setAgentServiceMaintenance(instance.serviceId, enable, reason)
+    );
+  }
+
+  /**
+   * Makes a change to an instance that must already be registered
+   * @param run Makes the change, given the node for catalog instances
+   */
+  private async changeRegistered(
+    instance: InstanceRef,
+    run: (node: string | undefined) => Promise<void>
+  ): Promise<RegistrationChange> {
+    const node = instance.target === 'catalog' ? this.requireNode(instance) : undefined;
+    const before = await this.read(instance);
+    if (!before) {
+      throw new InvalidRegistrationError(`Service instance ${instance.serviceId} is not registered`);
+    }
+    return this.change(instance, () => run(node), before);
+  }
+
+  private async change(
+    instance: InstanceRef,
+    run: () => Promise<void>,
+    before?: ConsulService | null
+  ): Promise<RegistrationChange> {
+    const previous = before === undefined ? await this.read(instance) : before;
+    await run();
+    return { before: previous, after: await this.read(instance) };
+  }
+
+  private read(instance: InstanceRef): Promise<ConsulService | null> {
+    return instance.target === 'catalog'
+      ? this.consulClient.getCatalogService(this.requireNode(instance), instance.serviceId)
+      : this.consulClient.getAgentService(instance.serviceId);
+  }
+
+  private requireNode(instance: InstanceRef): string {
+    if (!instance.node) {
+      throw new InvalidRegistrationError('Catalog changes need the node of the service instance');
+    }
+    return instance.node;
+  }
+}
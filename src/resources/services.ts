@@ -1,5 +1,17 @@
 // src/resources/services.ts
 import { ConsulClient, ConsulService, ServiceConnection } from './consul-client.js';
+import { DependencyGraph, qualifiedServiceName, ServiceImpact } from './dependency-graph.js';
+import { MetricsSource } from './metrics.js';
+
+/**
+ * Error for a blast radius request that names no failure, or two
+ */
+export class InvalidBlastRadiusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBlastRadiusError';
+  }
+}
 
 /**
  * ServiceManager provides higher-level operations for working with Consul services
@@ -63,19 +75,13 @@ export class ServiceManager {
    */
   async getServiceDependencies(serviceName: string): Promise<ServiceDependencyInfo> {
     const connections = await this.consulClient.getServiceConnections();
-    
-    // Find connections where this service is the source (dependencies)
-    const dependencies = connections.filter(conn => conn.source === serviceName)
-      .map(conn => conn.destination);
-    
-    // Find connections where this service is the destination (dependents)
-    const dependents = connections.filter(conn => conn.destination === serviceName)
-      .map(conn => conn.source);
+    const graph = new DependencyGraph(connections);
+    const named = graph.named(serviceName);
     
     return {
       serviceName,
-      dependencies: [...new Set(dependencies)], // Remove duplicates
-      dependents: [...new Set(dependents)],     // Remove duplicates
+      dependencies: [...new Set(named.flatMap(name => graph.neighbors(name, 'upstream')))],
+      dependents: [...new Set(named.flatMap(name => graph.neighbors(name, 'downstream')))],
       connections: connections.filter(
         conn => conn.source === serviceName || conn.destination === serviceName
       )
@@ -83,38 +89,102 @@ export class ServiceManager {
   }
   
   /**
-   * Gets service utilization metrics
-   * Note: In a real implementation, this would come from metrics servers
-   * like Prometheus or Consul Telemetry. Here we simulate for demo purposes.
+   * Works out which services are affected when a service, or every
+   * instance on a node, fails. Services that call a failed service lose a
+   * dependency, and so do the services that call them.
+   * @param failure The failed service or node
+   * @returns Promise resolving to the blast radius, or null if the service
+   * or node is not in this datacenter
+   */
+  async getBlastRadius(failure: BlastRadiusFailure): Promise<BlastRadius | null> {
+    if (Boolean(failure.service) === Boolean(failure.node)) {
+      throw new InvalidBlastRadiusError('Give either the service or the node that fails');
+    }
+    
+    const services = await this.consulClient.getServices();
+    const connections = await this.consulClient.getServiceConnections();
+    const graph = new DependencyGraph(connections, services.map(service => qualifiedServiceName(service.name, service)));
+    
+    const nodesByService = new Map<string, Set<string>>();
+    for (const instance of services) {
+      const name = qualifiedServiceName(instance.name, instance);
+      if (!nodesByService.has(name)) nodesByService.set(name, new Set());
+      nodesByService.get(name)!.add(instance.node);
+    }
+    
+    // A service fails when it has no instance left; on a node failure,
+    // services with instances elsewhere only lose capacity
+    let failedServices: string[];
+    let degradedServices: string[] = [];
+    if (failure.service) {
+      failedServices = graph.named(failure.service);
+      if (failedServices.length === 0) return null;
+    } else {
+      const onNode = [...nodesByService].filter(([, nodes]) => nodes.has(failure.node!));
+      if (onNode.length === 0) return null;
+      failedServices = onNode.filter(([, nodes]) => nodes.size === 1).map(([name]) => name);
+      degradedServices = onNode.filter(([, nodes]) => nodes.size > 1).map(([name]) => name);
+    }
+    
+    const affected = graph.dependentsOf(failedServices);
+    const involved = new Set([...failedServices, ...affected.keys()]);
+    
+    // Services in the blast radius that others depend on and that all run
+    // on one node, so one host failing takes them down
+    const singlePointsOfFailure = [...involved].flatMap(name => {
+      const nodes = nodesByService.get(name);
+      const dependents = graph.dependentsOf([name]).size;
+      return nodes?.size === 1 && dependents > 0
+        ? [{ service: name, node: [...nodes][0], dependents }]
+        : [];
+    });
+    
+    return {
+      failure,
+      datacenter: await this.consulClient.getDatacenter(),
+      failedServices,
+      degradedServices,
+      affectedServices: [...affected].map(([service, impact]) => ({ service, ...impact })),
+      cycles: graph.cycles().filter(cycle => cycle.some(name => involved.has(name))),
+      singlePointsOfFailure
+    };
+  }
+  
+  /**
+   * Gets service utilization metrics from the configured metrics provider.
+   * Metrics the provider has no data for are returned as null.
    * @param serviceName The name of the service
-   * @returns Promise resolving to simulated metrics
+   * @param serviceId Optional service instance ID used by ID-keyed queries
+   * @returns Promise resolving to measured metrics
    */
-  async getServiceMetrics(serviceName: string): Promise<ServiceMetrics> {
-    // Create a deterministic seed based on service name
-    const seed = this.hashString(serviceName);
-    const rand = this.seededRandom(seed);
+  async getServiceMetrics(serviceName: string, serviceId?: string): Promise<ServiceMetrics> {
+    const datacenter = await this.consulClient.getDatacenter();
+    const sample = await this.consulClient.getMetricsProvider().getServiceMetrics(serviceName, serviceId, datacenter);
+    const { values } = sample;
     
-    // Simulate realistic metrics
     return {
       serviceName,
+      datacenter,
+      source: sample.source,
+      window: sample.window,
       cpu: {
-        usage: rand() * 0.8, // 0-80% usage
-        cores: Math.floor(rand() * 4) + 1 // 1-4 cores
+        usage: values.cpuUsage,
+        cores: values.cpuCores
       },
       memory: {
-        used: Math.floor(rand() * 900) + 100, // 100-1000 MB
-        total: 1024 // 1 GB total
+        used: values.memoryUsed === null ? null : Math.round(values.memoryUsed),
+        total: values.memoryTotal === null ? null : Math.round(values.memoryTotal)
       },
       network: {
-        rxBytes: Math.floor(rand() * 100000),
-        txBytes: Math.floor(rand() * 100000)
+        rxBytes: values.networkRx,
+        txBytes: values.networkTx
       },
-      requestRate: Math.floor(rand() * 1000), // requests per minute
-      errorRate: rand() * 0.1, // 0-10% error rate
+      requestRate: values.requestRate,
+      errorRate: values.errorRate,
       responseTime: {
-        p50: Math.floor(rand() * 100) + 20, // 20-120ms
-        p90: Math.floor(rand() * 200) + 100, // 100-300ms
-        p99: Math.floor(rand() * 500) + 200 // 200-700ms
+        p50: values.p50 === null ? null : Math.round(values.p50),
+        p90: values.p90 === null ? null : Math.round(values.p90),
+        p99: values.p99 === null ? null : Math.round(values.p99)
       }
     };
   }
@@ -164,29 +234,6 @@ export class ServiceManager {
       }
     };
   }
-  
-  /**
-   * Creates a simple hash from a string
-   */
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash);
-  }
-  
-  /**
-   * Creates a seeded random number generator
-   */
-  private seededRandom(seed: number): () => number {
-    return function() {
-      const x = Math.sin(seed++) * 10000;
-      return x - Math.floor(x);
-    };
-  }
 }
 
 // Type definitions
@@ -213,25 +260,53 @@ export interface ServiceDependencyInfo {
   connections: ServiceConnection[];
 }
 
+export interface BlastRadiusFailure {
+  service?: string;
+  node?: string;
+}
+
+export interface BlastRadius {
+  failure: BlastRadiusFailure;
+  datacenter?: string;
+  failedServices: string[];   // Services with no instance left
+  degradedServices: string[]; // Services that lose instances on the failed node but keep others
+  affectedServices: AffectedService[];
+  cycles: string[][];         // Dependency cycles that include a failed or affected service
+  singlePointsOfFailure: SinglePointOfFailure[];
+}
+
+export interface AffectedService extends ServiceImpact {
+  service: string;
+}
+
+export interface SinglePointOfFailure {
+  service: string;
+  node: string;       // The only node the service runs on
+  dependents: number; // Services that would be affected if it failed
+}
+
 export interface ServiceMetrics {
   serviceName: string;
+  datacenter?: string;
+  source: MetricsSource;  // Where the values came from
+  window: string | null;  // Rate window used for rate-based values
   cpu: {
-    usage: number; // 0-1 (percentage as decimal)
-    cores: number;
+    usage: number | null; // 0-1 (percentage as decimal)
+    cores: number | null;
   };
   memory: {
-    used: number;  // MB
-    total: number; // MB
+    used: number | null;  // MB
+    total: number | null; // MB
   };
   network: {
-    rxBytes: number;
-    txBytes: number;
+    rxBytes: number | null; // Bytes per second over the window
+    txBytes: number | null; // Bytes per second over the window
   };
-  requestRate: number; // Requests per minute
-  errorRate: number;   // 0-1 (percentage as decimal)
+  requestRate: number | null; // Requests per minute
+  errorRate: number | null;   // 0-1 (percentage as decimal)
   responseTime: {
-    p50: number; // ms
-    p90: number; // ms
-    p99: number; // ms
+    p50: number | null; // ms
+    p90: number | null; // ms
+    p99: number | null; // ms
   };
 }
\ No newline at end of file
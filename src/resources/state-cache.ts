@@ -0,0 +1,249 @@
+// src/resources/state-cache.ts
+
+export interface BlockingQueryParams {
+  index?: string;
+  wait?: string;
+  signal: AbortSignal;
+}
+
+export interface BlockingQueryResult<T> {
+  data: T;
+  index: string | null;
+}
+
+/**
+ * Reads one Consul endpoint. With an `index` the call blocks until the data
+ * changes past that index or `wait` elapses.
+ */
+export type BlockingQuery<T> = (params: BlockingQueryParams) => Promise<BlockingQueryResult<T>>;
+
+export interface StateCacheOptions {
+  wait?: string;           // Blocking query wait time (default "30s")
+  maxStalenessMs?: number; // Serve cached data only if confirmed within this bound (default 60s)
+}
+
+export interface StateChangeEvent {
+  key: string;
+  index: string | null;
+  previousIndex: string | null;
+}
+
+export type StateChangeListener = (event: StateChangeEvent) => void;
+
+export interface CacheEntryStatus {
+  key: string;
+  index: string | null;
+  watching: boolean;
+  stale: boolean;
+  lastChange: string | null;  // ISO timestamp of the last index change
+  lastContact: string | null; // ISO timestamp of the last successful read
+  lastError?: string;
+}
+
+interface CacheEntry<T> {
+  key: string;
+  query: BlockingQuery<T>;
+  value?: T;
+  index: string | null;
+  lastChange: number;
+  lastContact: number;
+  lastError?: string;
+  watching: boolean;
+  pending?: Promise<T>;
+}
+
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * StateCache keeps Consul data in memory and refreshes it with blocking
+ * queries. Each registered key gets its own watch loop, started on first read.
+ * Reads are served from memory while the watch has confirmed the data within
+ * the staleness bound, and fall back to a direct read otherwise.
+ */
+export class StateCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+  private listeners = new Set<StateChangeListener>();
+  private controller = new AbortController();
+  private wait: string;
+  private maxStalenessMs: number;
+
+  /**
+   * Creates a new StateCache
+   * @param options Blocking query wait time and staleness bound
+   */
+  constructor(options: StateCacheOptions = {}) {
+    this.wait = options.wait || '30s';
+    this.maxStalenessMs = options.maxStalenessMs ?? 60000;
+  }
+
+  /**
+   * Registers a cached key and the query that reads it
+   */
+  register<T>(key: string, query: BlockingQuery<T>): void {
+    this.entries.set(key, {
+      key,
+      query: query as BlockingQuery<unknown>,
+      index: null,
+      lastChange: 0,
+      lastContact: 0,
+      watching: false
+    });
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Gets the data for a key, from memory when fresh
+   */
+  async get<T>(key: string): Promise<T> {
+    const entry = this.getEntry<T>(key);
+
+    if (entry.value !== undefined && !this.isStale(entry)) {
+      return entry.value;
+    }
+
+    if (!entry.pending) {
+      entry.pending = this.refresh(entry).finally(() => {
+        entry.pending = undefined;
+      });
+    }
+
+    return entry.pending;
+  }
+
+  /**
+   * Gets the last Consul index seen for a key, or null if it was never read
+   */
+  getIndex(key: string): string | null {
+    return this.getEntry(key).index;
+  }
+
+  /**
+   * Subscribes to index changes. Returns a function that unsubscribes.
+   */
+  onChange(listener: StateChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  status(): CacheEntryStatus[] {
+    return Array.from(this.entries.values()).map(entry => ({
+      key: entry.key,
+      index: entry.index,
+      watching: entry.watching,
+      stale: entry.value === undefined || this.isStale(entry),
+      lastChange: entry.lastChange ? new Date(entry.lastChange).toISOString() : null,
+      lastContact: entry.lastContact ? new Date(entry.lastContact).toISOString() : null,
+      ...(entry.lastError ? { lastError: entry.lastError } : {})
+    }));
+  }
+
+  /**
+   * Stops all watch loops and aborts in-flight blocking queries
+   */
+  close(): void {
+    this.controller.abort();
+    for (const entry of this.entries.values()) {
+      entry.watching = false;
+    }
+  }
+
+  private getEntry<T>(key: string): CacheEntry<T> {
+    const entry = this.entries.get(key);
+    if (!entry) throw new Error(`Unknown cache key: ${key}`);
+    return entry as CacheEntry<T>;
+  }
+
+  private isStale(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - entry.lastContact > this.maxStalenessMs;
+  }
+
+  /**
+   * Reads the key directly (without blocking) and makes sure it is watched
+   */
+  private async refresh<T>(entry: CacheEntry<T>): Promise<T> {
+    const result = await entry.query({ signal: this.controller.signal });
+    this.store(entry, result);
+
+    if (!entry.watching && result.index !== null && !this.controller.signal.aborted) {
+      entry.watching = true;
+      void this.watch(entry);
+    }
+
+    return result.data;
+  }
+
+  private async watch<T>(entry: CacheEntry<T>): Promise<void> {
+    let attempts = 0;
+
+    while (entry.watching && !this.controller.signal.aborted) {
+      try {
+        const result = await entry.query({
+          index: entry.index ?? undefined,
+          wait: this.wait,
+          signal: this.controller.signal
+        });
+
+        attempts = 0;
+        if (result.index === null) {
+          // Endpoint does not support blocking; rely on the staleness bound
+          entry.watching = false;
+        }
+        this.store(entry, result);
+      } catch (error) {
+        if (this.controller.signal.aborted) break;
+
+        attempts++;
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Watch for ${entry.key} failed (attempt ${attempts}):`, entry.lastError);
+        await this.delay(Math.min(MAX_BACKOFF_MS, 100 * Math.pow(2, attempts)));
+      }
+    }
+  }
+
+  private store<T>(entry: CacheEntry<T>, result: BlockingQueryResult<T>): void {
+    const previousIndex = entry.index;
+    const changed = entry.value === undefined || result.index === null || result.index !== previousIndex;
+
+    entry.lastContact = Date.now();
+    entry.lastError = undefined;
+
+    if (!changed) return;
+
+    entry.value = result.data;
+    entry.index = result.index;
+    entry.lastChange = entry.lastContact;
+
+    // The first read is not a change anyone was waiting for
+    if (previousIndex === null) return;
+
+    for (const listener of this.listeners) {
+      try {
+        listener({ key: entry.key, index: result.index, previousIndex });
+      } catch (error) {
+        console.error(`State change listener failed for ${entry.key}:`, error);
+      }
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    const signal = this.controller.signal;
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      timer.unref?.();
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
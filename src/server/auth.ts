@@ -0,0 +1,110 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { TLSSocket } from 'node:tls';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export interface AuthOptions {
+  bearerTokens?: string[];          // Accepted client tokens; when set, every request needs one
+  clientCertificates?: boolean;     // Require a verified TLS client certificate (mTLS)
+  consulTokenPassthrough?: boolean; // Talk to Consul with the caller's X-Consul-Token instead of the server token
+}
+
+export interface TlsOptions {
+  cert: string | Buffer;
+  key: string | Buffer;
+  ca?: string | Buffer;             // CA that signs client certificates; enables mTLS
+}
+
+export interface AuthContext {
+  identity: string;                 // Who the caller is, for logs
+  consulToken?: string;             // The caller's Consul ACL token, in passthrough mode
+  principal: string;                // Hash of all credentials; an MCP session stays bound to it
+}
+
+const CONSUL_TOKEN_HEADER = 'x-consul-token';
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function bearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(req.header('authorization') || '');
+  return match ? match[1].trim() : undefined;
+}
+
+function unauthorized(res: Response, message: string): void {
+  res.status(401)
+    .set('WWW-Authenticate', 'Bearer')
+    .json({ error: 'Unauthorized', message });
+}
+
+/**
+ * Creates middleware that authenticates HTTP clients and stores the result
+ * in `res.locals.auth`.
+ *
+ * With bearer tokens configured the Authorization header must carry one of
+ * them, and a passthrough Consul token goes in X-Consul-Token. Without them
+ * the Consul token may also be sent as the bearer token; Consul then decides
+ * whether it is valid.
+ * @param options Enabled authentication methods
+ * @returns Express middleware
+ */
+export function createAuthMiddleware(options: AuthOptions): RequestHandler {
+  // Comparing digests keeps the comparison constant-time regardless of token length
+  const acceptedTokens = (options.bearerTokens || []).map(token => sha256(token));
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const credentials: string[] = [];
+    let identity = 'anonymous';
+
+    if (options.clientCertificates) {
+      const socket = req.socket as TLSSocket;
+      const certificate = socket.authorized ? socket.getPeerCertificate() : undefined;
+      if (!certificate || !certificate.fingerprint256) {
+        unauthorized(res, 'A valid client certificate is required');
+        return;
+      }
+      identity = `cert:${certificate.subject?.CN || certificate.fingerprint256}`;
+      credentials.push(certificate.fingerprint256);
+    }
+
+    const token = bearerToken(req);
+    if (acceptedTokens.length) {
+      const digest = token ? sha256(token) : undefined;
+      const index = digest ? acceptedTokens.findIndex(accepted => timingSafeEqual(accepted, digest)) : -1;
+      if (index < 0) {
+        unauthorized(res, 'A valid bearer token is required');
+        return;
+      }
+      if (!options.clientCertificates) identity = `token:${index + 1}`;
+      credentials.push(token!);
+    }
+
+    let consulToken: string | undefined;
+    if (options.consulTokenPassthrough) {
+      consulToken = req.header(CONSUL_TOKEN_HEADER) || (acceptedTokens.length ? undefined : token);
+      if (!consulToken) {
+        unauthorized(res, 'A Consul ACL token is required in the X-Consul-Token header');
+        return;
+      }
+      if (identity === 'anonymous') {
+        identity = `consul-token:${sha256(consulToken).toString('hex').slice(0, 8)}`;
+      }
+      credentials.push(consulToken);
+    }
+
+    const auth: AuthContext = {
+      identity,
+      consulToken,
+      principal: sha256(credentials.join('\n')).toString('hex')
+    };
+    res.locals.auth = auth;
+    next();
+  };
+}
+
+/**
+ * Whether any authentication method is enabled
+ */
+export function isAuthEnabled(options: AuthOptions): boolean {
+  return Boolean(options.bearerTokens?.length || options.clientCertificates || options.consulTokenPassthrough);
+}
@@ -1,8 +1,35 @@
 import { Request, Response } from 'express';
-import { ConsulClient } from '../resources/consul-client.js';
-import { ServiceManager } from '../resources/services.js';
+import { z } from 'zod';
+import { ALL_DATACENTERS, ConsulClient, ConsulScope } from '../resources/consul-client.js';
+import { InvalidBlastRadiusError, ServiceManager } from '../resources/services.js';
 import { HealthManager } from '../resources/health.js';
+import { NodeManager } from '../resources/nodes.js';
+import { IntentionManager, IntentionRequest, InvalidIntentionError } from '../resources/intentions.js';
+import { ConsulApiError } from '../resources/consul-api.js';
+import {
+  CheckIntentionSchema,
+  DeleteIntentionSchema,
+  ExplainConnectivitySchema,
+  DiagramFocusSchema,
+  DiagramFormatSchema,
+  UpsertIntentionSchema,
+  ListConfigEntriesSchema,
+  GetConfigEntrySchema,
+  GetDiscoveryChainSchema,
+  GetBlastRadiusSchema
+} from '../mcp/protocol.js';
+import {
+  toBlastRadiusResponse,
+  toDiagramFocus,
+  toDiscoveryChainResponse,
+  toExplanationResponse,
+  toNodeResponse,
+  toNodeSummaryResponse,
+  toTopologyResponse
+} from '../mcp/actions.js';
+import { IntentionSimulator } from '../tools/intention-simulator.js';
 import { DiagramGenerator } from '../tools/diagram-generator.js';
+import { DiagramFocus, InvalidDiagramFocusError } from '../tools/service-graph.js';
 import { ServiceAnalyzer } from '../tools/status-analyzer.js';
 
 /**
@@ -11,10 +38,7 @@ import { ServiceAnalyzer } from '../tools/status-analyzer.js';
  */
 export class ApiHandlers {
   private consulClient: ConsulClient;
-  private serviceManager: ServiceManager;
-  private healthManager: HealthManager;
   private diagramGenerator: DiagramGenerator;
-  private serviceAnalyzer: ServiceAnalyzer;
   
   /**
    * Creates API handlers
@@ -22,18 +46,46 @@ export class ApiHandlers {
    */
   constructor(consulClient: ConsulClient) {
     this.consulClient = consulClient;
-    this.serviceManager = new ServiceManager(consulClient);
-    this.healthManager = new HealthManager(consulClient);
     this.diagramGenerator = new DiagramGenerator();
-    this.serviceAnalyzer = new ServiceAnalyzer(consulClient);
   }
   
+  /**
+   * Reads the optional `datacenter`, `namespace` and `partition` query parameters
+   */
+  private scope(req: Request): ConsulScope {
+    const param = (name: string) =>
+      typeof req.query[name] === 'string' && req.query[name] ? req.query[name] as string : undefined;
+    return {
+      datacenter: param('datacenter'),
+      namespace: param('namespace'),
+      partition: param('partition')
+    };
+  }
+  
+  /**
+   * Lists the known datacenters
+   */
+  listDatacenters = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const datacenters = await this.consulClient.listDatacenters();
+      res.json({ datacenters });
+    } catch (error) {
+      res.status(500).json({ 
+        error: 'Failed to list datacenters',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
   /**
    * Gets all services
    */
   getServices = async (req: Request, res: Response): Promise<void> => {
     try {
-      const services = await this.consulClient.getServices();
+      const services = await this.consulClient.acrossDatacenters(
+        this.scope(req),
+        client => client.getServices()
+      );
       res.json({ services });
     } catch (error) {
       res.status(500).json({ 
@@ -43,6 +95,50 @@ export class ApiHandlers {
     }
   };
   
+  /**
+   * Lists nodes with their health and Serf status
+   */
+  getNodes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const nodes = await this.consulClient.acrossDatacenters(
+        this.scope(req),
+        client => new NodeManager(client).getNodes()
+      );
+      res.json({ nodes: nodes.map(toNodeSummaryResponse) });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to get nodes',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Gets a node with its checks, Serf membership and service instances
+   */
+  getNode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const name = req.params.node;
+      const scope = this.scope(req);
+      const results = await this.consulClient.acrossDatacenters(scope, async client => {
+        const node = await new NodeManager(client).getNode(name);
+        return node ? [toNodeResponse(node)] : [];
+      });
+      
+      if (results.length === 0) {
+        res.status(404).json({ error: `Node ${name} not found` });
+        return;
+      }
+      
+      res.json(scope.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0]);
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to get node',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
   /**
    * Gets health checks
    */
@@ -50,14 +146,27 @@ export class ApiHandlers {
     try {
       const failingOnly = req.query.failing_only === 'true';
       
-      let healthChecks;
-      if (failingOnly) {
-        healthChecks = await this.healthManager.getFailingHealthChecks();
-      } else {
-        healthChecks = await this.healthManager.getAllHealthChecks();
-      }
+      const healthChecks = await this.consulClient.acrossDatacenters(this.scope(req), client => {
+        const healthManager = new HealthManager(client);
+        return failingOnly
+          ? healthManager.getFailingHealthChecks()
+          : healthManager.getAllHealthChecks();
+      });
       
-      res.json({ health_checks: healthChecks });
+      res.json({
+        health_checks: healthChecks.map(check => ({
+          id: check.id,
+          name: check.name,
+          status: check.status,
+          service_name: check.serviceName,
+          node: check.node,
+          datacenter: check.datacenter,
+          namespace: check.namespace,
+          partition: check.partition,
+          output: check.output,
+          analysis: check.analysis
+        }))
+      });
     } catch (error) {
       res.status(500).json({ 
         error: 'Failed to get health checks',
@@ -73,14 +182,30 @@ export class ApiHandlers {
     try {
       const failingOnly = req.query.failing_only === 'true';
       
-      let connections;
-      if (failingOnly) {
-        connections = await this.consulClient.getFailingConnections();
-      } else {
-        connections = await this.consulClient.getServiceConnections();
-      }
+      const connections = await this.consulClient.acrossDatacenters(this.scope(req), client =>
+        failingOnly ? client.getFailingConnections() : client.getServiceConnections()
+      );
       
-      res.json({ connections });
+      res.json({
+        connections: connections.map(conn => ({
+          source: conn.source,
+          destination: conn.destination,
+          datacenter: conn.datacenter,
+          source_namespace: conn.sourceNamespace,
+          source_partition: conn.sourcePartition,
+          destination_namespace: conn.destinationNamespace,
+          destination_partition: conn.destinationPartition,
+          status: conn.status,
+          protocol: conn.protocol,
+          latency: conn.latency,
+          error_rate: conn.errorRate,
+          request_volume: conn.requestVolume,
+          error_message: conn.errorMessage,
+          metrics_source: conn.metricsSource,
+          metrics_window: conn.metricsWindow,
+          evidence: conn.evidence
+        }))
+      });
     } catch (error) {
       res.status(500).json({ 
         error: 'Failed to get service connections',
@@ -96,67 +221,127 @@ export class ApiHandlers {
     try {
       const includeHealth = req.query.include_health === 'true';
       const includeMetrics = req.query.include_metrics === 'true';
+      const format = DiagramFormatSchema.safeParse(req.query.format);
+      if (!format.success) {
+        res.status(400).json({ error: 'Invalid diagram format', message: format.error.message });
+        return;
+      }
+      const focus = this.parseDiagramFocus(req, res);
+      if (!focus) return;
       
-      const services = await this.consulClient.getServices();
-      const connections = await this.consulClient.getServiceConnections();
+      const scope = this.scope(req);
+      const services = await this.consulClient.acrossDatacenters(scope, client => client.getServices());
+      const connections = await this.consulClient.acrossDatacenters(scope, client => client.getServiceConnections());
+      const traffic = await this.consulClient.acrossDatacenters(scope, client => client.getTrafficPolicies());
       
       const diagram = await this.diagramGenerator.generateServiceDiagram(
         services, 
         connections,
         {
           includeHealth,
-          includeMetrics
-        }
+          includeMetrics,
+          format: format.data,
+          focus: focus.focus
+        },
+        traffic
       );
       
       res.json({ 
         diagram,
-        format: "mermaid"
+        format: format.data ?? 'mermaid'
       });
     } catch (error) {
-      res.status(500).json({ 
+      res.status(error instanceof InvalidDiagramFocusError ? 400 : 500).json({ 
         error: 'Failed to create service diagram',
         message: error instanceof Error ? error.message : String(error)
       });
     }
   };
   
+  /**
+   * Renders the service mesh diagram as an SVG image
+   */
+  createServiceDiagramSvg = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const focus = this.parseDiagramFocus(req, res);
+      if (!focus) return;
+
+      const scope = this.scope(req);
+      const services = await this.consulClient.acrossDatacenters(scope, client => client.getServices());
+      const connections = await this.consulClient.acrossDatacenters(scope, client => client.getServiceConnections());
+      const traffic = await this.consulClient.acrossDatacenters(scope, client => client.getTrafficPolicies());
+
+      const image = await this.diagramGenerator.generateServiceImage(
+        services,
+        connections,
+        {
+          includeHealth: req.query.include_health === 'true',
+          includeMetrics: req.query.include_metrics === 'true',
+          focus: focus.focus
+        },
+        'svg',
+        traffic
+      );
+
+      res.type(image.mimeType).send(image.data);
+    } catch (error) {
+      res.status(error instanceof InvalidDiagramFocusError ? 400 : 500).json({
+        error: 'Failed to render service diagram',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
   /**
    * Analyzes a service
    */
   analyzeService = async (req: Request, res: Response): Promise<void> => {
     try {
-      const serviceName = req.params.serviceName;
+      const serviceName = req.params.service_name;
       
       if (!serviceName) {
         res.status(400).json({ error: 'Service name is required' });
         return;
       }
       
-      const serviceDetails = await this.serviceManager.getServiceByName(serviceName);
+      const scope = this.scope(req);
+      const results = await this.consulClient.acrossDatacenters(scope, async client => {
+        const serviceManager = new ServiceManager(client);
+        const serviceDetails = await serviceManager.getServiceByName(serviceName);
+        if (!serviceDetails) return [];
+        
+        const analysis = await new ServiceAnalyzer(client).analyzeService(serviceName);
+        const metrics = await serviceManager.getServiceMetrics(serviceName);
+        
+        return [{
+          service: {
+            name: serviceDetails.name,
+            datacenter: serviceDetails.datacenter,
+            namespace: serviceDetails.namespace,
+            partition: serviceDetails.partition,
+            health: serviceDetails.health,
+            connections: serviceDetails.connections,
+            metrics: {
+              source: metrics.source,
+              window: metrics.window,
+              cpu_usage: metrics.cpu.usage,
+              memory_usage: metrics.memory.used !== null && metrics.memory.total
+                ? metrics.memory.used / metrics.memory.total
+                : null,
+              request_rate: metrics.requestRate,
+              error_rate: metrics.errorRate
+            }
+          },
+          analysis
+        }];
+      });
       
-      if (!serviceDetails) {
+      if (results.length === 0) {
         res.status(404).json({ error: `Service ${serviceName} not found` });
         return;
       }
       
-      const analysis = await this.serviceAnalyzer.analyzeService(serviceName);
-      const metrics = await this.serviceManager.getServiceMetrics(serviceName);
-      
-      res.json({
-        service: {
-          name: serviceDetails.name,
-          health: serviceDetails.health,
-          connections: serviceDetails.connections,
-          metrics: {
-            cpu_usage: metrics.cpu.usage,
-            memory_usage: metrics.memory.used / metrics.memory.total,
-            request_rate: metrics.requestRate,
-            error_rate: metrics.errorRate
-          }
-        },
-        analysis
-      });
+      res.json(scope.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0]);
     } catch (error) {
       res.status(500).json({ 
         error: 'Failed to analyze service',
@@ -170,16 +355,20 @@ export class ApiHandlers {
    */
   getServiceMetrics = async (req: Request, res: Response): Promise<void> => {
     try {
-      const serviceName = req.params.serviceName;
+      const serviceName = req.params.service_name;
+      const serviceId = typeof req.query.service_id === 'string' ? req.query.service_id : undefined;
       
       if (!serviceName) {
         res.status(400).json({ error: 'Service name is required' });
         return;
       }
       
-      const metrics = await this.serviceManager.getServiceMetrics(serviceName);
+      const scope = this.scope(req);
+      const metrics = await this.consulClient.acrossDatacenters(scope, async client =>
+        [await new ServiceManager(client).getServiceMetrics(serviceName, serviceId)]
+      );
       
-      res.json({ metrics });
+      res.json({ metrics: scope.datacenter === ALL_DATACENTERS ? metrics : metrics[0] });
     } catch (error) {
       res.status(500).json({ 
         error: 'Failed to get service metrics',
@@ -193,7 +382,13 @@ export class ApiHandlers {
    */
   analyzeServiceMesh = async (req: Request, res: Response): Promise<void> => {
     try {
-      const analysis = await this.serviceAnalyzer.analyzeServiceMesh();
+      const scope = this.scope(req);
+      if (scope.datacenter === ALL_DATACENTERS) {
+        res.status(400).json({ error: 'Mesh analysis runs against a single datacenter' });
+        return;
+      }
+      
+      const analysis = await new ServiceAnalyzer(this.consulClient.withScope(scope)).analyzeServiceMesh();
       res.json(analysis);
     } catch (error) {
       res.status(500).json({ 
@@ -202,4 +397,273 @@ export class ApiHandlers {
       });
     }
   };
-}
\ No newline at end of file
+  
+  /**
+   * Checks whether a source service may connect to a destination
+   */
+  checkIntention = async (req: Request, res: Response): Promise<void> => {
+    await this.handleIntention(req.query, res, CheckIntentionSchema, 'Failed to check intention',
+      async (manager, request) => ({ allowed: await manager.check(request) }));
+  };
+  
+  /**
+   * Creates or replaces an intention
+   */
+  upsertIntention = async (req: Request, res: Response): Promise<void> => {
+    await this.handleIntention(req.body, res, UpsertIntentionSchema, 'Failed to write intention',
+      async (manager, request) => ({ intentions: await manager.upsert(request) }));
+  };
+  
+  /**
+   * Deletes an intention
+   */
+  deleteIntention = async (req: Request, res: Response): Promise<void> => {
+    await this.handleIntention(req.query, res, DeleteIntentionSchema, 'Failed to delete intention',
+      async (manager, request) => ({ deleted: await manager.delete(request) }));
+  };
+  
+  /**
+   * Explains whether a source service may connect to a destination
+   */
+  explainConnectivity = async (req: Request, res: Response): Promise<void> => {
+    const parsed = ExplainConnectivitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid request', message: parsed.error.message });
+      return;
+    }
+    
+    const args = parsed.data;
+    if (args.datacenter === ALL_DATACENTERS) {
+      res.status(400).json({ error: 'Connectivity is explained for one datacenter at a time' });
+      return;
+    }
+    
+    try {
+      const explanation = await new IntentionSimulator(this.consulClient.withScope(args)).explain(
+        {
+          source: { name: args.source, namespace: args.source_namespace, partition: args.source_partition },
+          destination: { name: args.destination, namespace: args.namespace, partition: args.partition },
+          http: args.http
+        },
+        { intentions: args.intentions, defaultPolicy: args.default_policy }
+      );
+      res.json(toExplanationResponse(explanation));
+    } catch (error) {
+      res.status(500).json({ 
+        error: 'Failed to explain connectivity',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Lists the config entries of a kind
+   */
+  listConfigEntries = async (req: Request, res: Response): Promise<void> => {
+    const args = this.parseConfigRequest({ ...req.query, kind: req.params.kind }, res, ListConfigEntriesSchema);
+    if (!args) return;
+    
+    try {
+      const entries = await this.consulClient.withScope(args).listConfigEntries(args.kind);
+      res.json({ kind: args.kind, entries });
+    } catch (error) {
+      res.status(500).json({ 
+        error: 'Failed to list config entries',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Gets one config entry
+   */
+  getConfigEntry = async (req: Request, res: Response): Promise<void> => {
+    const args = this.parseConfigRequest({ ...req.query, ...req.params }, res, GetConfigEntrySchema);
+    if (!args) return;
+    
+    try {
+      const entry = await this.consulClient.withScope(args).getConfigEntry(args.kind, args.name);
+      if (!entry) {
+        res.status(404).json({ error: `No ${args.kind} config entry named ${args.name}` });
+        return;
+      }
+      res.json({ entry });
+    } catch (error) {
+      res.status(500).json({ 
+        error: 'Failed to get config entry',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Gets the compiled discovery chain of a service, with a Mermaid diagram of it
+   */
+  getDiscoveryChain = async (req: Request, res: Response): Promise<void> => {
+    const args = this.parseConfigRequest(
+      { ...req.query, service: req.params.service_name },
+      res,
+      GetDiscoveryChainSchema
+    );
+    if (!args) return;
+    
+    try {
+      const chain = await this.consulClient.withScope(args).getDiscoveryChain(args.service);
+      res.json({
+        chain: toDiscoveryChainResponse(chain),
+        diagram: this.diagramGenerator.generateDiscoveryChainDiagram(chain)
+      });
+    } catch (error) {
+      res.status(500).json({ 
+        error: 'Failed to get discovery chain',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Works out which services are affected when a service or node fails
+   */
+  getBlastRadius = async (req: Request, res: Response): Promise<void> => {
+    const args = GetBlastRadiusSchema.safeParse(req.query);
+    if (!args.success) {
+      res.status(400).json({ error: 'Invalid request', message: args.error.message });
+      return;
+    }
+    
+    try {
+      const { service, node } = args.data;
+      const results = await this.consulClient.acrossDatacenters(this.scope(req), async client => {
+        const radius = await new ServiceManager(client).getBlastRadius({ service, node });
+        return radius ? [toBlastRadiusResponse(radius)] : [];
+      });
+      
+      if (results.length === 0) {
+        res.status(404).json({ error: `${service ? `Service ${service}` : `Node ${node}`} not found` });
+        return;
+      }
+      
+      res.json(args.data.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0]);
+    } catch (error) {
+      res.status(error instanceof InvalidBlastRadiusError ? 400 : 500).json({
+        error: 'Failed to get blast radius',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Analyzes the topology of the service mesh
+   */
+  analyzeTopology = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const scope = this.scope(req);
+      const results = await this.consulClient.acrossDatacenters(scope, async client =>
+        [toTopologyResponse(await new ServiceAnalyzer(client).analyzeTopology())]
+      );
+      res.json(scope.datacenter === ALL_DATACENTERS ? { datacenters: results } : results[0]);
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to analyze topology',
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  
+  /**
+   * Reads the diagram focus and filter query parameters
+   * @returns The focus, or undefined after sending a 400
+   */
+  private parseDiagramFocus(req: Request, res: Response): { focus?: DiagramFocus } | undefined {
+    const parsed = DiagramFocusSchema.safeParse({
+      focus_service: req.query.focus_service,
+      depth: req.query.depth === undefined ? undefined : Number(req.query.depth),
+      direction: req.query.direction,
+      path_from: req.query.path_from,
+      path_to: req.query.path_to,
+      tags: queryList(req.query.tags),
+      nodes: queryList(req.query.nodes),
+      health: queryList(req.query.health)
+    });
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid diagram focus', message: parsed.error.message });
+      return undefined;
+    }
+    return { focus: toDiagramFocus(parsed.data) };
+  }
+  
+  /**
+   * Validates a config entry request, which reads from one datacenter
+   * @returns The arguments, or undefined after sending a 400
+   */
+  private parseConfigRequest<T extends z.ZodType<ConsulScope>>(
+    input: unknown,
+    res: Response,
+    schema: T
+  ): z.infer<T> | undefined {
+    const parsed = schema.safeParse(input);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid request', message: parsed.error.message });
+      return undefined;
+    }
+    if (parsed.data.datacenter === ALL_DATACENTERS) {
+      res.status(400).json({ error: 'Config entries are read from one datacenter at a time' });
+      return undefined;
+    }
+    return parsed.data;
+  }
+  
+  /**
+   * Validates an intention request and runs it against the requested scope.
+   * Invalid requests, and requests Consul rejects as invalid, get a 400.
+   */
+  private async handleIntention(
+    input: unknown,
+    res: Response,
+    schema: typeof UpsertIntentionSchema | typeof DeleteIntentionSchema,
+    failure: string,
+    run: (manager: IntentionManager, request: IntentionRequest) => Promise<object>
+  ): Promise<void> {
+    const parsed = schema.safeParse(input);
+    if (!parsed.success) {
+      res.status(400).json({ error: 'Invalid request', message: parsed.error.message });
+      return;
+    }
+    
+    // Check and delete take a subset of the upsert arguments
+    const args: z.infer<typeof UpsertIntentionSchema> = parsed.data;
+    if (args.datacenter === ALL_DATACENTERS) {
+      res.status(400).json({ error: 'Intentions are managed in one datacenter at a time' });
+      return;
+    }
+    
+    try {
+      const manager = new IntentionManager(this.consulClient.withScope(args));
+      res.json(await run(manager, {
+        source: args.source,
+        destination: args.destination,
+        sourceNamespace: args.source_namespace,
+        sourcePartition: args.source_partition,
+        action: args.action,
+        permissions: args.permissions,
+        description: args.description,
+        configEntry: args.config_entry
+      }));
+    } catch (error) {
+      const invalid = error instanceof InvalidIntentionError ||
+        (error instanceof ConsulApiError && error.status === 400);
+      res.status(invalid ? 400 : 500).json({
+        error: failure,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Reads a list query parameter, given either repeated or comma-separated
+ */
+function queryList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  return [value].flat().flatMap(item => String(item).split(',')).filter(item => item.length > 0);
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+/**
+ * Describes one REST route in terms of the zod schemas from mcp/protocol.ts
+ */
+export interface ApiRouteSpec {
+  method: HttpMethod;
+  path: string;              // Express-style path relative to the API base, e.g. "/services/:service_name"
+  operationId: string;
+  summary: string;
+  tag: string;
+  params?: z.AnyZodObject;   // Path parameters
+  query?: z.AnyZodObject;    // Query string parameters
+  body?: z.ZodTypeAny;       // JSON request body
+  response: z.ZodTypeAny;    // 200 response body
+  responseType?: string;     // 200 response media type; defaults to "application/json"
+}
+
+export const ApiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string().optional(),
+});
+
+type JsonSchema = Record<string, unknown>;
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'openApi3',
+    $refStrategy: 'none'
+  }) as JsonSchema;
+  return jsonSchema;
+}
+
+function toParameters(schema: z.AnyZodObject | undefined, location: 'path' | 'query'): JsonSchema[] {
+  if (!schema) return [];
+
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === 'path' || !field.isOptional(),
+    ...(field.description ? { description: field.description } : {}),
+    // Optionality is expressed by `required`, not by the parameter schema
+    schema: toJsonSchema(field instanceof z.ZodOptional ? field.unwrap() : field)
+  }));
+}
+
+function errorResponse(description: string): JsonSchema {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } }
+  };
+}
+
+/**
+ * Builds an OpenAPI 3 document for the given routes
+ * @param routes Route specs, with paths relative to basePath
+ * @param options Document title, version and the base path the routes are mounted on
+ * @returns The OpenAPI document
+ */
+export function buildOpenApiDocument(
+  routes: ApiRouteSpec[],
+  options: { title: string; version: string; basePath: string }
+): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of routes) {
+    const path = route.path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+    const parameters = [
+      ...toParameters(route.params, 'path'),
+      ...toParameters(route.query, 'query')
+    ];
+
+    paths[path] ??= {};
+    paths[path][route.method] = {
+      operationId: route.operationId,
+      summary: route.summary,
+      tags: [route.tag],
+      ...(parameters.length ? { parameters } : {}),
+      ...(route.body ? {
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: toJsonSchema(route.body) } }
+        }
+      } : {}),
+      responses: {
+        '200': {
+          description: 'Success',
+          content: { [route.responseType ?? 'application/json']: { schema: toJsonSchema(route.response) } }
+        },
+        ...(route.body ? { '400': errorResponse('Invalid request') } : {}),
+        ...(route.params ? { '404': errorResponse('Not found') } : {}),
+        '500': errorResponse('Consul request failed')
+      }
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: options.title,
+      version: options.version
+    },
+    servers: [{ url: options.basePath }],
+    paths,
+    components: {
+      schemas: {
+        ApiError: toJsonSchema(ApiErrorSchema)
+      }
+    }
+  };
+}
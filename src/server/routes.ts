@@ -0,0 +1,335 @@
+import express from 'express';
+import type { Response, Router } from 'express';
+import { ConsulClient } from '../resources/consul-client.js';
+import { ApiHandlers } from './handlers.js';
+import { ApiRouteSpec, buildOpenApiDocument } from './openapi.js';
+import {
+  GetServicesSchema,
+  GetServicesResponseSchema,
+  GetHealthChecksSchema,
+  GetHealthChecksResponseSchema,
+  GetServiceConnectionsSchema,
+  GetServiceConnectionsResponseSchema,
+  CreateServiceDiagramSchema,
+  CreateServiceDiagramResponseSchema,
+  ServiceDiagramSvgSchema,
+  AnalyzeServiceSchema,
+  AnalyzeServiceResponseSchema,
+  GetServiceMetricsSchema,
+  GetServiceMetricsResponseSchema,
+  AnalyzeServiceMeshSchema,
+  AnalyzeServiceMeshResponseSchema,
+  ListDatacentersSchema,
+  ListDatacentersResponseSchema,
+  CheckIntentionSchema,
+  CheckIntentionResponseSchema,
+  UpsertIntentionSchema,
+  UpsertIntentionResponseSchema,
+  DeleteIntentionSchema,
+  DeleteIntentionResponseSchema,
+  ExplainConnectivitySchema,
+  ExplainConnectivityResponseSchema,
+  ListConfigEntriesSchema,
+  ListConfigEntriesResponseSchema,
+  GetConfigEntrySchema,
+  GetConfigEntryResponseSchema,
+  GetDiscoveryChainSchema,
+  GetDiscoveryChainResponseSchema,
+  GetBlastRadiusSchema,
+  GetBlastRadiusResponseSchema,
+  AnalyzeTopologySchema,
+  AnalyzeTopologyResponseSchema,
+  GetNodesSchema,
+  GetNodesResponseSchema,
+  GetNodeSchema,
+  GetNodeResponseSchema
+} from '../mcp/protocol.js';
+
+export const API_BASE_PATH = '/api/v1';
+
+export interface ApiRoute extends ApiRouteSpec {
+  handler: keyof ApiHandlers;
+  writes?: boolean; // Changes Consul; only served in read-write mode
+}
+
+export interface ApiRouterOptions {
+  allowWrites?: boolean;
+}
+
+/**
+ * Picks the ConsulClient to serve a request with, e.g. one bound to the caller's ACL token
+ */
+export type ConsulClientResolver = (res: Response) => ConsulClient;
+
+const ServiceNameParams = AnalyzeServiceSchema.pick({ service_name: true });
+
+/**
+ * Lists the REST routes. Each maps onto the ApiHandlers method backing the
+ * MCP tool of the same name and reuses that tool's schemas.
+ * @param options Whether to include the routes that change Consul
+ * @returns Route definitions relative to API_BASE_PATH
+ */
+export function buildApiRoutes(options: ApiRouterOptions = {}): ApiRoute[] {
+  const routes: ApiRoute[] = [
+    {
+      method: 'get',
+      path: '/datacenters',
+      operationId: 'listDatacenters',
+      summary: 'List the datacenters known to the cluster',
+      tag: 'datacenters',
+      query: ListDatacentersSchema,
+      response: ListDatacentersResponseSchema,
+      handler: 'listDatacenters'
+    },
+    {
+      method: 'get',
+      path: '/services',
+      operationId: 'getServices',
+      summary: 'List service instances with their health',
+      tag: 'services',
+      query: GetServicesSchema,
+      response: GetServicesResponseSchema,
+      handler: 'getServices'
+    },
+    {
+      method: 'get',
+      path: '/services/:service_name/analysis',
+      operationId: 'analyzeService',
+      summary: 'Analyze the health, connections and metrics of a service',
+      tag: 'services',
+      params: ServiceNameParams,
+      query: AnalyzeServiceSchema.omit({ service_name: true }),
+      response: AnalyzeServiceResponseSchema,
+      handler: 'analyzeService'
+    },
+    {
+      method: 'get',
+      path: '/services/:service_name/metrics',
+      operationId: 'getServiceMetrics',
+      summary: 'Get measured metrics for a service',
+      tag: 'services',
+      params: ServiceNameParams,
+      query: GetServiceMetricsSchema.omit({ service_name: true }),
+      response: GetServiceMetricsResponseSchema,
+      handler: 'getServiceMetrics'
+    },
+    {
+      method: 'get',
+      path: '/services/:service_name/discovery-chain',
+      operationId: 'getDiscoveryChain',
+      summary: 'Get the compiled discovery chain of a service, with a Mermaid diagram of it',
+      tag: 'config',
+      params: ServiceNameParams,
+      query: GetDiscoveryChainSchema.omit({ service: true }),
+      response: GetDiscoveryChainResponseSchema,
+      handler: 'getDiscoveryChain'
+    },
+    {
+      method: 'get',
+      path: '/nodes',
+      operationId: 'getNodes',
+      summary: 'List nodes with their health, Serf status and failing service instances',
+      tag: 'nodes',
+      query: GetNodesSchema,
+      response: GetNodesResponseSchema,
+      handler: 'getNodes'
+    },
+    {
+      method: 'get',
+      path: '/nodes/:node',
+      operationId: 'getNode',
+      summary: 'Get a node with its checks, tagged addresses, Serf membership and service instances',
+      tag: 'nodes',
+      params: GetNodeSchema.pick({ node: true }),
+      query: GetNodeSchema.omit({ node: true }),
+      response: GetNodeResponseSchema,
+      handler: 'getNode'
+    },
+    {
+      method: 'get',
+      path: '/health-checks',
+      operationId: 'getHealthChecks',
+      summary: 'List health checks across the datacenter',
+      tag: 'health',
+      query: GetHealthChecksSchema,
+      response: GetHealthChecksResponseSchema,
+      handler: 'getHealthChecks'
+    },
+    {
+      method: 'get',
+      path: '/connections',
+      operationId: 'getServiceConnections',
+      summary: 'List service-to-service connections',
+      tag: 'mesh',
+      query: GetServiceConnectionsSchema,
+      response: GetServiceConnectionsResponseSchema,
+      handler: 'getServiceConnections'
+    },
+    {
+      method: 'get',
+      path: '/diagram',
+      operationId: 'createServiceDiagram',
+      summary: 'Generate a diagram of the service mesh in Mermaid, DOT, PlantUML, D2 or JSON',
+      tag: 'mesh',
+      query: CreateServiceDiagramSchema.omit({ image: true }),
+      response: CreateServiceDiagramResponseSchema,
+      handler: 'createServiceDiagram'
+    },
+    {
+      method: 'get',
+      path: '/diagram.svg',
+      operationId: 'createServiceDiagramSvg',
+      summary: 'Render a diagram of the service mesh as an SVG image',
+      tag: 'mesh',
+      query: CreateServiceDiagramSchema.omit({ format: true, image: true }),
+      response: ServiceDiagramSvgSchema,
+      responseType: 'image/svg+xml',
+      handler: 'createServiceDiagramSvg'
+    },
+    {
+      method: 'get',
+      path: '/mesh/analysis',
+      operationId: 'analyzeServiceMesh',
+      summary: 'Analyze the health of the whole service mesh',
+      tag: 'mesh',
+      query: AnalyzeServiceMeshSchema,
+      response: AnalyzeServiceMeshResponseSchema,
+      handler: 'analyzeServiceMesh'
+    },
+    {
+      method: 'get',
+      path: '/mesh/topology',
+      operationId: 'analyzeTopology',
+      summary: 'Find central services, dependency cycles, articulation points and the longest dependency chains',
+      tag: 'mesh',
+      query: AnalyzeTopologySchema,
+      response: AnalyzeTopologyResponseSchema,
+      handler: 'analyzeTopology'
+    },
+    {
+      method: 'get',
+      path: '/blast-radius',
+      operationId: 'getBlastRadius',
+      summary: 'List the services affected when a service or node fails',
+      tag: 'mesh',
+      query: GetBlastRadiusSchema,
+      response: GetBlastRadiusResponseSchema,
+      handler: 'getBlastRadius'
+    },
+    {
+      method: 'get',
+      path: '/config-entries/:kind',
+      operationId: 'listConfigEntries',
+      summary: 'List the config entries of a kind',
+      tag: 'config',
+      params: ListConfigEntriesSchema.pick({ kind: true }),
+      query: ListConfigEntriesSchema.omit({ kind: true }),
+      response: ListConfigEntriesResponseSchema,
+      handler: 'listConfigEntries'
+    },
+    {
+      method: 'get',
+      path: '/config-entries/:kind/:name',
+      operationId: 'getConfigEntry',
+      summary: 'Get one config entry',
+      tag: 'config',
+      params: GetConfigEntrySchema.pick({ kind: true, name: true }),
+      query: GetConfigEntrySchema.omit({ kind: true, name: true }),
+      response: GetConfigEntryResponseSchema,
+      handler: 'getConfigEntry'
+    },
+    {
+      method: 'get',
+      path: '/intentions/check',
+      operationId: 'checkIntention',
+      summary: 'Check whether a source service may connect to a destination',
+      tag: 'intentions',
+      query: CheckIntentionSchema,
+      response: CheckIntentionResponseSchema,
+      handler: 'checkIntention'
+    },
+    {
+      method: 'post',
+      path: '/intentions/explain',
+      operationId: 'explainConnectivity',
+      summary: 'Explain which intention decides whether a source may connect to a destination',
+      tag: 'intentions',
+      body: ExplainConnectivitySchema,
+      response: ExplainConnectivityResponseSchema,
+      handler: 'explainConnectivity'
+    },
+    {
+      method: 'put',
+      path: '/intentions',
+      operationId: 'upsertIntention',
+      summary: 'Create or replace an intention, or a whole service-intentions config entry',
+      tag: 'intentions',
+      body: UpsertIntentionSchema,
+      response: UpsertIntentionResponseSchema,
+      handler: 'upsertIntention',
+      writes: true
+    },
+    {
+      method: 'delete',
+      path: '/intentions',
+      operationId: 'deleteIntention',
+      summary: 'Delete the intention from a source service to a destination',
+      tag: 'intentions',
+      query: DeleteIntentionSchema,
+      response: DeleteIntentionResponseSchema,
+      handler: 'deleteIntention',
+      writes: true
+    }
+  ];
+
+  return options.allowWrites ? routes : routes.filter(route => !route.writes);
+}
+
+/**
+ * Creates the Express router for the REST API, including /openapi.json
+ * @param resolveClient Picks the ConsulClient for each request
+ * @param version API version reported in the OpenAPI document
+ * @param options Whether to serve the routes that change Consul
+ * @returns Router to mount on API_BASE_PATH
+ */
+export function createApiRouter(
+  resolveClient: ConsulClientResolver,
+  version: string,
+  options: ApiRouterOptions = {}
+): Router {
+  const router = express.Router();
+  const routes = buildApiRoutes(options);
+
+  router.use(express.json());
+
+  // Handlers hold no per-request state, so one set per ConsulClient is enough
+  const handlers = new WeakMap<ConsulClient, ApiHandlers>();
+  const handlersFor = (res: Response): ApiHandlers => {
+    const consulClient = resolveClient(res);
+    let bound = handlers.get(consulClient);
+    if (!bound) {
+      bound = new ApiHandlers(consulClient);
+      handlers.set(consulClient, bound);
+    }
+    return bound;
+  };
+
+  for (const route of routes) {
+    router[route.method](route.path, (req, res) => handlersFor(res)[route.handler](req, res));
+  }
+
+  const document = buildOpenApiDocument(routes, {
+    title: 'Consul MCP Server REST API',
+    version,
+    basePath: API_BASE_PATH
+  });
+  router.get('/openapi.json', (_, res) => {
+    res.json(document);
+  });
+
+  router.use((req, res) => {
+    res.status(404).json({ error: `No route for ${req.method} ${API_BASE_PATH}${req.path}` });
+  });
+
+  return router;
+}
@@ -1,39 +1,125 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { ConsulClient } from '../resources/consul-client.js';
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from 'node:crypto';
+import { Server, createServer as createHttpServer } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import { ConsulClient, ConsulClientPool } from '../resources/consul-client.js';
 import { registerActions } from '../mcp/actions.js';
+import { registerResources } from '../mcp/resources.js';
+import { registerTemplates } from '../prompts/templates.js';
+import { API_BASE_PATH, createApiRouter } from './routes.js';
+import { AuthContext, AuthOptions, TlsOptions, createAuthMiddleware, isAuthEnabled } from './auth.js';
 import express from 'express';
-import type { Express } from 'express';
+import type { Express, Request, Response } from 'express';
+
+const SERVER_NAME = "consul-mcp-server";
+const VERSION = "0.1.0";
+
+export type TransportType = 'stdio' | 'http';
+
+// read-write adds the tools and REST routes that change Consul
+export type AccessMode = 'read-only' | 'read-write';
+
+export interface HttpTransportOptions {
+  host?: string;
+  sessionIdleTimeoutMs?: number; // Close sessions that have not been used for this long (default 30 minutes)
+  tls?: TlsOptions;              // Serve HTTPS; with a CA, client certificates are required
+}
+
+export interface ConsulMcpServerOptions {
+  auth?: AuthOptions;
+  consulClientPool?: ConsulClientPool; // Required for Consul token passthrough
+  accessMode?: AccessMode;             // Defaults to read-only
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  lastSeen: number;
+  openRequests: number; // Includes the long-lived streams that carry notifications
+  principal: string;    // Credentials the session was opened with
+}
+
+const SESSION_SWEEP_INTERVAL_MS = 60000;
 
 export class ConsulMcpServer {
-  private mcpServer: McpServer;
+  private consulClient: ConsulClient;
+  private consulClientPool?: ConsulClientPool;
+  private auth: AuthOptions;
+  private allowWrites: boolean;
   private port: number;
-  private app?: Express;
+  private app: Express;
+  private httpServer?: Server;
+  private stdioServer?: McpServer;
+  private sessions = new Map<string, HttpSession>();
+  private sweepTimer?: NodeJS.Timeout;
 
-  constructor(consulClient: ConsulClient, port: number = 3000) {
+  constructor(consulClient: ConsulClient, port: number = 3000, options: ConsulMcpServerOptions = {}) {
+    this.consulClient = consulClient;
+    this.consulClientPool = options.consulClientPool;
+    this.auth = options.auth || {};
+    this.allowWrites = options.accessMode === 'read-write';
     this.port = port;
 
-    // Create the MCP server with basic info
-    this.mcpServer = new McpServer({
-      name: "consul-mcp-server",
-      version: "0.1.0"
-    });
-
-    // Register MCP actions
-    registerActions(this.mcpServer, consulClient);
+    if (this.auth.consulTokenPassthrough && !this.consulClientPool) {
+      throw new Error('Consul token passthrough requires a ConsulClientPool');
+    }
 
-    // Set up Express if needed (for static UI or health checks)
+    // Express serves the HTTP transports, the landing page and health checks
     this.app = express();
     this.configureExpress();
   }
 
-  private configureExpress(): void {
-    if (!this.app) return;
+  /**
+   * Creates an MCP server with all actions, resources and prompts registered.
+   * A server handles a single connection, so HTTP sessions each get their own.
+   * @param consulClient Client the session reads Consul with
+   */
+  private createMcpServer(consulClient: ConsulClient = this.consulClient): McpServer {
+    const server = new McpServer({
+      name: SERVER_NAME,
+      version: VERSION
+    });
+
+    registerActions(server, consulClient, { allowWrites: this.allowWrites });
+    registerResources(server, consulClient);
+
+    const templates = registerTemplates();
+    for (const [name, template] of Object.entries(templates)) {
+      server.prompt(name, (_extra) => ({
+        messages: [
+          {
+            role: "user",
+            content: {
+              type: "text",
+              text: template
+            }
+          }
+        ]
+      }));
+    }
+
+    return server;
+  }
 
+  private configureExpress(): void {
     this.app.get('/health', (_, res) => {
-      res.status(200).json({ status: 'ok' });
+      res.status(200).json({ status: 'ok', sessions: this.sessions.size });
     });
 
+    // Everything below requires authentication, when enabled
+    const authenticate = createAuthMiddleware(this.auth);
+
+    // REST API backed by the same handlers as the MCP tools
+    this.app.use(API_BASE_PATH, authenticate, createApiRouter(
+      res => this.clientFor(res.locals.auth),
+      VERSION,
+      { allowWrites: this.allowWrites }
+    ));
+
     this.app.get('/', (_, res) => {
       res.send(`
         <html>
@@ -46,16 +132,248 @@ export class ConsulMcpServer {
           </head>
           <body>
             <h1>Consul MCP Server</h1>
-            <p>To use this server with Claude Desktop, point it to <code>http://localhost:${this.port}</code></p>
+            <p>Point your MCP client at <code>http://localhost:${this.port}/mcp</code> (streamable HTTP).</p>
+            <p>Clients that only support the older HTTP+SSE transport can use <code>http://localhost:${this.port}/sse</code>.</p>
+            <p>The REST API is described at <a href="${API_BASE_PATH}/openapi.json"><code>${API_BASE_PATH}/openapi.json</code></a>.</p>
           </body>
         </html>
       `);
     });
+
+    // Streamable HTTP transport
+    this.app.post('/mcp', authenticate, express.json(), (req, res) => this.handleStreamableRequest(req, res));
+    this.app.get('/mcp', authenticate, (req, res) => this.handleStreamableRequest(req, res));
+    this.app.delete('/mcp', authenticate, (req, res) => this.handleStreamableRequest(req, res));
+
+    // Deprecated HTTP+SSE transport, for clients that do not support streamable HTTP yet
+    this.app.get('/sse', authenticate, (req, res) => this.handleSseConnection(req, res));
+    this.app.post('/messages', authenticate, express.json(), (req, res) => this.handleSseMessage(req, res));
+  }
+
+  /**
+   * Gets the ConsulClient for an authenticated caller: one bound to the
+   * caller's own ACL token in passthrough mode, the shared client otherwise
+   */
+  private clientFor(auth: AuthContext): ConsulClient {
+    if (this.consulClientPool && auth.consulToken) {
+      return this.consulClientPool.get(auth.consulToken);
+    }
+    return this.consulClient;
+  }
+
+  private async handleStreamableRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const auth: AuthContext = res.locals.auth;
+      const sessionId = req.header('mcp-session-id');
+      let session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+      if (sessionId && !session) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      if (session && session.principal !== auth.principal) {
+        this.sendJsonRpcError(res, 403, -32000, 'Session belongs to different credentials');
+        return;
+      }
+
+      if (session && !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 400, -32000, 'Session uses the SSE transport');
+        return;
+      }
+
+      if (!session) {
+        if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+          this.sendJsonRpcError(res, 400, -32000, 'No valid session ID provided');
+          return;
+        }
+        session = await this.openStreamableSession(auth);
+      }
+
+      this.trackRequest(session, res);
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  private async openStreamableSession(auth: AuthContext): Promise<HttpSession> {
+    const server = this.createMcpServer(this.clientFor(auth));
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, session);
+        console.error(`MCP session ${sessionId} opened for ${auth.identity} (streamable HTTP)`);
+      }
+    });
+    const session: HttpSession = { transport, server, lastSeen: Date.now(), openRequests: 0, principal: auth.principal };
+
+    // connect() takes over transport.onclose, so a DELETE is observed through the server
+    const previousOnClose = server.server.onclose;
+    server.server.onclose = () => {
+      previousOnClose?.();
+      if (transport.sessionId) this.removeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    return session;
+  }
+
+  private async handleSseConnection(_req: Request, res: Response): Promise<void> {
+    try {
+      const auth: AuthContext = res.locals.auth;
+      const server = this.createMcpServer(this.clientFor(auth));
+      const transport = new SSEServerTransport('/messages', res);
+      const sessionId = transport.sessionId;
+
+      // The SSE stream is the session, so it is open for as long as the session
+      this.sessions.set(sessionId, { transport, server, lastSeen: Date.now(), openRequests: 1, principal: auth.principal });
+      res.on('close', () => this.removeSession(sessionId));
+
+      await server.connect(transport);
+      console.error(`MCP session ${sessionId} opened for ${auth.identity} (SSE)`);
+    } catch (error) {
+      console.error('Error opening SSE session:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Failed to open SSE session');
+      }
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.status(404).send('Session not found');
+      return;
+    }
+
+    if (session.principal !== (res.locals.auth as AuthContext).principal) {
+      res.status(403).send('Session belongs to different credentials');
+      return;
+    }
+
+    this.trackRequest(session, res);
+    try {
+      await session.transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      console.error('Error handling SSE message:', error);
+      if (!res.headersSent) {
+        res.status(500).send('Internal server error');
+      }
+    }
+  }
+
+  /**
+   * Counts a request as session activity until its response closes. A GET
+   * stream stays open while it waits for notifications, and the session is
+   * not idle meanwhile.
+   */
+  private trackRequest(session: HttpSession, res: Response): void {
+    session.lastSeen = Date.now();
+    session.openRequests++;
+    res.on('close', () => {
+      session.openRequests--;
+      session.lastSeen = Date.now();
+    });
+  }
+
+  private removeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    console.error(`MCP session ${sessionId} closed`);
+    session.server.close().catch(error => {
+      console.error(`Failed to close MCP session ${sessionId}:`, error);
+    });
+  }
+
+  private sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    });
   }
 
   async startWithStdio(): Promise<void> {
+    this.stdioServer = this.createMcpServer();
     const transport = new StdioServerTransport();
-    await this.mcpServer.connect(transport);
+    await this.stdioServer.connect(transport);
     console.error("✅ MCP Server running with stdio transport");
   }
+
+  /**
+   * Listens for MCP clients over streamable HTTP (/mcp) and HTTP+SSE (/sse)
+   * @param options Listen address, session idle timeout and TLS settings
+   */
+  async startWithHttp(options: HttpTransportOptions = {}): Promise<void> {
+    const idleTimeoutMs = options.sessionIdleTimeoutMs ?? 30 * 60000;
+
+    if (this.auth.clientCertificates && !options.tls?.ca) {
+      throw new Error('Client certificate authentication requires TLS with a client CA');
+    }
+    if (!isAuthEnabled(this.auth)) {
+      console.error('⚠️  HTTP authentication is disabled: anyone who can reach this server can read Consul with its token');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const onError = (error: Error) => reject(error);
+      const listener = () => {
+        this.httpServer?.off('error', onError);
+        resolve();
+      };
+      this.httpServer = options.tls
+        ? createHttpsServer({
+            cert: options.tls.cert,
+            key: options.tls.key,
+            ca: options.tls.ca,
+            requestCert: Boolean(options.tls.ca),
+            rejectUnauthorized: Boolean(options.tls.ca)
+          }, this.app)
+        : createHttpServer(this.app);
+      this.httpServer.once('error', onError);
+      if (options.host) {
+        this.httpServer.listen(this.port, options.host, listener);
+      } else {
+        this.httpServer.listen(this.port, listener);
+      }
+    });
+
+    // Clients that disappear without a DELETE would otherwise keep their session forever
+    this.sweepTimer = setInterval(() => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const [sessionId, session] of this.sessions) {
+        if (session.openRequests === 0 && session.lastSeen < cutoff) {
+          console.error(`MCP session ${sessionId} idle, closing`);
+          this.removeSession(sessionId);
+        }
+      }
+    }, SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    const scheme = options.tls ? 'https' : 'http';
+    console.error(`✅ MCP Server listening on ${scheme}://${options.host || 'localhost'}:${this.port}/mcp (SSE fallback at /sse)`);
+  }
+
+  /**
+   * Closes all sessions and stops listening
+   */
+  async close(): Promise<void> {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      this.removeSession(sessionId);
+    }
+    await this.stdioServer?.close();
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+    }
+  }
 }
@@ -0,0 +1,79 @@
+/**
+ * Tests for HTTP client authentication and Consul token passthrough
+ */
+
+import { AuthContext, AuthOptions, createAuthMiddleware } from '../server/auth.js';
+
+function authenticate(options: AuthOptions, headers: Record<string, string>, socket: any = {}) {
+  const req: any = {
+    socket,
+    header: (name: string) => headers[name.toLowerCase()]
+  };
+  const res: any = { locals: {} };
+  res.status = jest.fn().mockReturnValue(res);
+  res.set = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  const next = jest.fn();
+
+  createAuthMiddleware(options)(req, res, next);
+
+  return {
+    status: next.mock.calls.length ? 200 : res.status.mock.calls[0][0],
+    auth: res.locals.auth as AuthContext | undefined
+  };
+}
+
+describe('Auth middleware', () => {
+  test('Should let every request through when no method is enabled', () => {
+    const { status, auth } = authenticate({}, {});
+
+    expect(status).toBe(200);
+    expect(auth?.identity).toBe('anonymous');
+    expect(auth?.consulToken).toBeUndefined();
+  });
+
+  test('Should require one of the configured bearer tokens', () => {
+    const options = { bearerTokens: ['first', 'second'] };
+
+    expect(authenticate(options, {}).status).toBe(401);
+    expect(authenticate(options, { authorization: 'Bearer wrong' }).status).toBe(401);
+    expect(authenticate(options, { authorization: 'Bearer second' }).auth?.identity).toBe('token:2');
+  });
+
+  test('Should identify mTLS clients by certificate', () => {
+    const options = { clientCertificates: true };
+    const socket = {
+      authorized: true,
+      getPeerCertificate: () => ({ subject: { CN: 'dashboard' }, fingerprint256: 'AA:BB' })
+    };
+
+    expect(authenticate(options, {}, { authorized: false }).status).toBe(401);
+    expect(authenticate(options, {}, socket).auth?.identity).toBe('cert:dashboard');
+  });
+
+  test('Should pass the caller Consul token through', () => {
+    const withBearer = { bearerTokens: ['secret'], consulTokenPassthrough: true };
+
+    // With bearer auth the Consul token has its own header
+    expect(authenticate(withBearer, { authorization: 'Bearer secret' }).status).toBe(401);
+    expect(authenticate(withBearer, {
+      authorization: 'Bearer secret',
+      'x-consul-token': 'alice'
+    }).auth?.consulToken).toBe('alice');
+
+    // Without it the bearer token is the Consul token
+    const { auth } = authenticate({ consulTokenPassthrough: true }, { authorization: 'Bearer bob' });
+    expect(auth?.consulToken).toBe('bob');
+    expect(auth?.identity).toMatch(/^consul-token:[0-9a-f]{8}$/);
+  });
+
+  test('Should give different credentials different principals', () => {
+    const options = { bearerTokens: ['secret'], consulTokenPassthrough: true };
+    const alice = authenticate(options, { authorization: 'Bearer secret', 'x-consul-token': 'alice' }).auth;
+    const bob = authenticate(options, { authorization: 'Bearer secret', 'x-consul-token': 'bob' }).auth;
+    const aliceAgain = authenticate(options, { authorization: 'Bearer secret', 'x-consul-token': 'alice' }).auth;
+
+    expect(alice?.principal).not.toBe(bob?.principal);
+    expect(alice?.principal).toBe(aliceAgain?.principal);
+  });
+});
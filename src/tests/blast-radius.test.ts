@@ -0,0 +1,138 @@
+/**
+ * Tests for the dependency graph and the blast radius of service and node failures
+ */
+
+import { DependencyGraph } from '../resources/dependency-graph.js';
+import { InvalidBlastRadiusError, ServiceManager } from '../resources/services.js';
+import { serviceConnection as connection, serviceInstance } from './fixtures.js';
+
+const instance = (name: string, node: string) => serviceInstance(name, { id: `${name}-${node}`, node });
+
+// web -> api -> db, worker -> db, api <-> auth, billing is not connected
+const connections = [
+  connection('web', 'api'),
+  connection('api', 'db'),
+  connection('worker', 'db'),
+  connection('api', 'auth'),
+  connection('auth', 'api')
+];
+
+const services = [
+  instance('web', 'node-1'),
+  instance('web', 'node-2'),
+  instance('api', 'node-1'),
+  instance('auth', 'node-2'),
+  instance('worker', 'node-2'),
+  instance('db', 'node-3'),
+  instance('billing', 'node-3')
+];
+
+const manager = new ServiceManager({
+  getServices: async () => services,
+  getServiceConnections: async () => connections,
+  getDatacenter: async () => 'dc1'
+} as any);
+
+describe('Dependency graph', () => {
+  const graph = new DependencyGraph(connections, ['billing']);
+
+  test('find the services that transitively depend on a failure', () => {
+    expect([...graph.dependentsOf(['db'])]).toEqual([
+      ['api', { hops: 1, path: ['api', 'db'] }],
+      ['worker', { hops: 1, path: ['worker', 'db'] }],
+      ['web', { hops: 2, path: ['web', 'api', 'db'] }],
+      ['auth', { hops: 2, path: ['auth', 'api', 'db'] }]
+    ]);
+    expect(graph.dependentsOf(['billing']).size).toBe(0);
+  });
+
+  test('keep same-named services in different namespaces apart', () => {
+    const scoped = new DependencyGraph([
+      connection('checkout', 'payments', { sourceNamespace: 'a', destinationNamespace: 'a' }),
+      connection('payments', 'checkout', { sourceNamespace: 'b', destinationNamespace: 'b' })
+    ]);
+
+    expect(scoped.named('payments')).toEqual(['default/a/payments', 'default/b/payments']);
+    expect(scoped.cycles()).toEqual([]);
+    expect([...scoped.dependentsOf(['default/b/checkout']).keys()]).toEqual(['default/b/payments']);
+  });
+
+  test('find dependency cycles', () => {
+    expect(graph.cycles()).toEqual([['api', 'auth']]);
+    expect(new DependencyGraph([connection('db', 'db')]).cycles()).toEqual([['db']]);
+  });
+});
+
+describe('Blast radius', () => {
+  test('of a service', async () => {
+    const radius = await manager.getBlastRadius({ service: 'db' });
+
+    expect(radius).toMatchObject({
+      datacenter: 'dc1',
+      failedServices: ['db'],
+      degradedServices: [],
+      cycles: [['api', 'auth']]
+    });
+    expect(radius!.affectedServices.map(affected => affected.service)).toEqual(['api', 'worker', 'web', 'auth']);
+    expect(radius!.singlePointsOfFailure).toEqual([
+      { service: 'db', node: 'node-3', dependents: 4 },
+      { service: 'api', node: 'node-1', dependents: 2 },
+      { service: 'auth', node: 'node-2', dependents: 2 }
+    ]);
+  });
+
+  test('of a node separates failed services from degraded ones', async () => {
+    const radius = await manager.getBlastRadius({ node: 'node-1' });
+
+    expect(radius!.failedServices).toEqual(['api']);
+    expect(radius!.degradedServices).toEqual(['web']);
+    expect(radius!.affectedServices).toEqual([
+      { service: 'web', hops: 1, path: ['web', 'api'] },
+      { service: 'auth', hops: 1, path: ['auth', 'api'] }
+    ]);
+  });
+
+  test('leaves out deny and wildcard intentions', async () => {
+    const radius = await new ServiceManager({
+      getServices: async () => services,
+      getServiceConnections: async () => [
+        ...connections,
+        connection('billing', 'db', { status: 'blocked', intentionAction: 'deny' }),
+        connection('*', '*', { status: 'blocked', intentionAction: 'deny' }),
+        connection('*', 'db', { status: 'allowed', intentionAction: 'allow' })
+      ],
+      getDatacenter: async () => 'dc1'
+    } as any).getBlastRadius({ service: 'db' });
+
+    expect(radius!.affectedServices.map(affected => affected.service)).toEqual(['api', 'worker', 'web', 'auth']);
+    expect(radius!.cycles).toEqual([['api', 'auth']]);
+  });
+
+  test('of a service named in several namespaces', async () => {
+    const radius = await new ServiceManager({
+      getServices: async () => [
+        serviceInstance('payments', { node: 'node-1', namespace: 'a' }),
+        serviceInstance('payments', { node: 'node-2', namespace: 'b' }),
+        serviceInstance('checkout', { node: 'node-1', namespace: 'a' }),
+        serviceInstance('checkout', { node: 'node-2', namespace: 'b' })
+      ],
+      getServiceConnections: async () => [
+        connection('checkout', 'payments', { sourceNamespace: 'a', destinationNamespace: 'a' }),
+        connection('payments', 'checkout', { sourceNamespace: 'b', destinationNamespace: 'b' })
+      ],
+      getDatacenter: async () => 'dc1'
+    } as any).getBlastRadius({ service: 'payments' });
+
+    expect(radius!.failedServices).toEqual(['default/a/payments', 'default/b/payments']);
+    expect(radius!.affectedServices).toEqual([
+      { service: 'default/a/checkout', hops: 1, path: ['default/a/checkout', 'default/a/payments'] }
+    ]);
+    expect(radius!.cycles).toEqual([]);
+  });
+
+  test('of an unknown failure', async () => {
+    await expect(manager.getBlastRadius({ service: 'missing' })).resolves.toBeNull();
+    await expect(manager.getBlastRadius({ node: 'node-9' })).resolves.toBeNull();
+    await expect(manager.getBlastRadius({})).rejects.toThrow(InvalidBlastRadiusError);
+  });
+});
@@ -0,0 +1,545 @@
+/**
+ * Tests for ConsulClient against a mocked Consul API
+ */
+
+import { ConsulClient } from '../resources/consul-client.js';
+
+const serfHealth = (node: string, status = 'passing') => ({
+  Node: node,
+  CheckID: 'serfHealth',
+  Name: 'Serf Health Status',
+  Status: status,
+  Output: status === 'passing' ? 'Agent alive and reachable' : 'Agent not live or unreachable',
+  ServiceID: '',
+  ServiceName: ''
+});
+
+const serviceCheck = (node: string, serviceId: string, serviceName: string, status = 'passing') => ({
+  Node: node,
+  CheckID: `service:${serviceId}`,
+  Name: `Service '${serviceName}' check`,
+  Status: status,
+  Output: 'HTTP GET http://localhost/health: 200 OK',
+  ServiceID: serviceId,
+  ServiceName: serviceName
+});
+
+const serviceEntry = (node: string, id: string, name: string, checks: unknown[]) => ({
+  Node: { Node: node, Address: `10.0.0.${node.length}` },
+  Service: { ID: id, Service: name, Address: '', Port: 8080, Tags: null, Meta: null },
+  Checks: checks
+});
+
+const toCatalogService = (entry: any) => ({
+  Node: entry.Node.Node,
+  Address: entry.Node.Address,
+  ServiceID: entry.Service.ID,
+  ServiceName: entry.Service.Service,
+  ServiceAddress: entry.Service.Address,
+  ServicePort: entry.Service.Port,
+  ServiceTags: entry.Service.Tags,
+  ServiceMeta: entry.Service.Meta
+});
+
+function createMockConsul() {
+  const entries: Record<string, unknown[]> = {
+    api: [
+      serviceEntry('node1', 'api-1', 'api', [serfHealth('node1'), serviceCheck('node1', 'api-1', 'api')]),
+      serviceEntry('node2', 'api-2', 'api', [serfHealth('node2', 'critical'), serviceCheck('node2', 'api-2', 'api')])
+    ],
+    web: [
+      serviceEntry('node3', 'web-1', 'web', [
+        serfHealth('node3'),
+        serviceCheck('node3', 'web-1', 'web'),
+        {
+          ...serviceCheck('node3', 'web-1', 'web', 'critical'),
+          CheckID: '_service_maintenance:web-1',
+          Name: 'Service Maintenance Mode'
+        }
+      ])
+    ]
+  };
+  const allChecks = Object.values(entries)
+    .flatMap((list: any[]) => list.flatMap(entry => entry.Checks));
+
+  return {
+    catalog: {
+      service: {
+        list: jest.fn().mockResolvedValue({ consul: [], api: [], web: [] }),
+        nodes: jest.fn().mockImplementation(async (opts: any) =>
+          (entries[opts.service] || []).map(toCatalogService)
+        )
+      }
+    },
+    health: {
+      service: jest.fn().mockImplementation(async (opts: any) => entries[opts.service] || []),
+      state: jest.fn().mockImplementation(async (opts: any) =>
+        opts.state === 'any' ? allChecks : allChecks.filter(check => check.Status === opts.state)
+      )
+    }
+  };
+}
+
+describe('ConsulClient health', () => {
+  test('Should fold node-level checks into instance status', async () => {
+    const client = new ConsulClient(createMockConsul() as any);
+    const services = await client.getServices();
+
+    expect(services.map(s => s.id)).toEqual(['api-1', 'api-2', 'web-1']);
+    expect(services[0].health.status).toBe('passing');
+    expect(services[1].health.status).toBe('critical');
+    expect(services[1].health.checks.map(c => c.id)).toContain('serfHealth');
+    expect(services[1].address).toBe('10.0.0.5');
+  });
+
+  test('Should flag instances in maintenance mode', async () => {
+    const client = new ConsulClient(createMockConsul() as any);
+    const health = await client.getServiceHealth('web', 'web-1');
+
+    expect(health.status).toBe('critical');
+    expect(health.maintenance).toBe(true);
+  });
+
+  test('Should read checks for the whole datacenter from the health API', async () => {
+    const consul = createMockConsul();
+    const client = new ConsulClient(consul as any);
+
+    const all = await client.getAllHealthChecks();
+    expect(all).toHaveLength(7);
+    expect(all.filter(c => c.node === 'node2')).toHaveLength(2);
+    expect(consul.health.state).toHaveBeenCalledWith({ state: 'any' });
+
+    const failing = await client.getFailingHealthChecks();
+    expect(failing.map(c => c.id)).toEqual(['serfHealth', '_service_maintenance:web-1']);
+    expect(failing[0].serviceName).toBeUndefined();
+  });
+});
+
+describe('ConsulClient.getServices fetch path', () => {
+  const SERVICE_COUNT = 40;
+  const INSTANCES_PER_SERVICE = 10;
+  const CONCURRENCY = 4;
+
+  function createLargeMockConsul() {
+    const names = Array.from({ length: SERVICE_COUNT }, (_, i) => `service-${i}`);
+    const entries: Record<string, any[]> = {};
+    for (const name of names) {
+      entries[name] = Array.from({ length: INSTANCES_PER_SERVICE }, (_, i) => {
+        const node = `node-${i}`;
+        return serviceEntry(node, `${name}-${i}`, name, [serviceCheck(node, `${name}-${i}`, name)]);
+      });
+    }
+    const nodeChecks = Array.from({ length: INSTANCES_PER_SERVICE }, (_, i) => serfHealth(`node-${i}`));
+    const serviceChecks = Object.values(entries).flatMap(list => list.flatMap(entry => entry.Checks));
+
+    let inFlight = 0;
+    const stats = { peakInFlight: 0 };
+    const delayed = async <T>(value: T): Promise<T> => {
+      inFlight++;
+      stats.peakInFlight = Math.max(stats.peakInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      inFlight--;
+      return value;
+    };
+
+    const consul = {
+      catalog: {
+        service: {
+          list: jest.fn().mockImplementation(() =>
+            delayed(Object.fromEntries(names.map(name => [name, []])))
+          ),
+          nodes: jest.fn().mockImplementation((opts: any) => delayed(entries[opts.service].map(toCatalogService)))
+        }
+      },
+      health: {
+        service: jest.fn(),
+        state: jest.fn().mockImplementation(() => delayed([...nodeChecks, ...serviceChecks]))
+      },
+      agent: {
+        check: {
+          list: jest.fn()
+        }
+      }
+    };
+
+    return { consul, stats };
+  }
+
+  test('Should keep Consul calls linear in the number of services', async () => {
+    const { consul, stats } = createLargeMockConsul();
+    const client = new ConsulClient(consul as any, { concurrency: CONCURRENCY });
+
+    const started = Date.now();
+    const services = await client.getServices();
+    const elapsed = Date.now() - started;
+
+    const totalCalls =
+      consul.catalog.service.list.mock.calls.length +
+      consul.catalog.service.nodes.mock.calls.length +
+      consul.health.state.mock.calls.length +
+      consul.health.service.mock.calls.length +
+      consul.agent.check.list.mock.calls.length;
+
+    console.log(
+      `getServices: ${services.length} instances of ${SERVICE_COUNT} services, ` +
+      `${totalCalls} Consul calls, peak ${stats.peakInFlight} in flight, ${elapsed}ms`
+    );
+
+    expect(services).toHaveLength(SERVICE_COUNT * INSTANCES_PER_SERVICE);
+    expect(consul.catalog.service.list).toHaveBeenCalledTimes(1);
+    expect(consul.health.state).toHaveBeenCalledTimes(1);
+    expect(consul.catalog.service.nodes).toHaveBeenCalledTimes(SERVICE_COUNT);
+    expect(consul.health.service).not.toHaveBeenCalled();
+    expect(consul.agent.check.list).not.toHaveBeenCalled();
+    expect(totalCalls).toBe(SERVICE_COUNT + 2);
+    expect(stats.peakInFlight).toBeLessThanOrEqual(CONCURRENCY);
+  });
+
+  test('Should join node and service checks per instance', async () => {
+    const { consul } = createLargeMockConsul();
+    const client = new ConsulClient(consul as any, { concurrency: CONCURRENCY });
+
+    const services = await client.getServices();
+    const instance = services.find(s => s.id === 'service-3-7');
+
+    expect(instance?.node).toBe('node-7');
+    expect(instance?.health.checks.map(c => c.id)).toEqual(['serfHealth', 'service:service-3-7']);
+    expect(instance?.health.checks.every(c => c.node === 'node-7')).toBe(true);
+  });
+});
+
+describe('ConsulClient state cache', () => {
+  function createWatchableConsul() {
+    const state = {
+      servicesIndex: 10,
+      healthIndex: 20,
+      apiStatus: 'passing'
+    };
+    const waiters = new Set<() => void>();
+
+    const respond = async (opts: any, index: () => number, data: () => unknown) => {
+      if (opts?.index && Number(opts.index) >= index()) {
+        await new Promise<void>(resolve => {
+          waiters.add(resolve);
+          opts.ctx.once('cancel', resolve);
+        });
+      }
+      const body = data();
+      return opts?.ctx?.includeResponse ? [{ headers: { 'x-consul-index': String(index()) } }, body] : body;
+    };
+
+    const consul = {
+      catalog: {
+        service: {
+          list: jest.fn().mockImplementation((opts: any) =>
+            respond(opts, () => state.servicesIndex, () => ({ api: [] }))
+          ),
+          nodes: jest.fn().mockImplementation(async () => [
+            toCatalogService(serviceEntry('node1', 'api-1', 'api', []))
+          ])
+        }
+      },
+      health: {
+        service: jest.fn(),
+        state: jest.fn().mockImplementation((opts: any) =>
+          respond(opts, () => state.healthIndex, () => [
+            serfHealth('node1'),
+            serviceCheck('node1', 'api-1', 'api', state.apiStatus)
+          ])
+        )
+      }
+    };
+
+    const setApiStatus = (status: string) => {
+      state.apiStatus = status;
+      state.healthIndex++;
+      waiters.forEach(resolve => resolve());
+      waiters.clear();
+    };
+
+    return { consul, setApiStatus };
+  }
+
+  test('Should serve repeated reads from memory', async () => {
+    const { consul } = createWatchableConsul();
+    const client = new ConsulClient(consul as any, { cache: { wait: '1s' } });
+
+    try {
+      await client.getServices();
+      await client.getServices();
+      await client.getAllHealthChecks();
+
+      // One direct read per source plus the blocking query that is now waiting
+      expect(consul.catalog.service.list).toHaveBeenCalledTimes(2);
+      expect(consul.health.state).toHaveBeenCalledTimes(2);
+      expect(consul.catalog.service.nodes).toHaveBeenCalledTimes(1);
+      expect(consul.catalog.service.list.mock.calls[1][0]).toMatchObject({ index: '10', wait: '1s' });
+      expect(client.getCacheStatus().map(entry => [entry.key, entry.index, entry.watching])).toEqual([
+        ['catalog-services', '10', true],
+        ['health-checks', '20', true]
+      ]);
+    } finally {
+      client.close();
+    }
+  });
+
+  test('Should report changes seen by the blocking query', async () => {
+    const { consul, setApiStatus } = createWatchableConsul();
+    const client = new ConsulClient(consul as any, { cache: { wait: '1s' } });
+
+    try {
+      const [before] = await client.getServices();
+      expect(before.health.status).toBe('passing');
+
+      const changed = new Promise(resolve => client.onStateChange(resolve));
+      setApiStatus('critical');
+
+      expect(await changed).toEqual({ key: 'health-checks', index: '21', previousIndex: '20' });
+
+      const [after] = await client.getServices();
+      expect(after.health.status).toBe('critical');
+      expect(consul.catalog.service.nodes).toHaveBeenCalledTimes(1);
+    } finally {
+      client.close();
+    }
+  });
+
+  test('Should read directly once cached data exceeds the staleness bound', async () => {
+    const { consul } = createWatchableConsul();
+    const client = new ConsulClient(consul as any, { cache: { wait: '1s', maxStalenessMs: -1 } });
+
+    try {
+      await client.getAllHealthChecks();
+      await client.getAllHealthChecks();
+
+      const directReads = consul.health.state.mock.calls.filter(([opts]) => !opts.index);
+      expect(directReads).toHaveLength(2);
+    } finally {
+      client.close();
+    }
+  });
+});
+
+describe('ConsulClient datacenters', () => {
+  function createFederatedConsul() {
+    const entriesByDc: Record<string, any[]> = {
+      dc1: [serviceEntry('node1', 'api-1', 'api', [serviceCheck('node1', 'api-1', 'api')])],
+      dc2: [serviceEntry('node9', 'api-9', 'api', [serviceCheck('node9', 'api-9', 'api', 'critical')])]
+    };
+    const dcOf = (opts: any) => opts?.dc || 'dc1';
+
+    return {
+      agent: {
+        self: jest.fn().mockResolvedValue({ Config: { Datacenter: 'dc1' } })
+      },
+      catalog: {
+        datacenters: jest.fn().mockResolvedValue(['dc1', 'dc2']),
+        service: {
+          list: jest.fn().mockResolvedValue({ consul: [], api: [] }),
+          nodes: jest.fn().mockImplementation(async (opts: any) => entriesByDc[dcOf(opts)].map(toCatalogService))
+        }
+      },
+      health: {
+        service: jest.fn(),
+        state: jest.fn().mockImplementation(async (opts: any) =>
+          entriesByDc[dcOf(opts)].flatMap(entry => entry.Checks)
+        )
+      }
+    };
+  }
+
+  test('Should label results with the local datacenter', async () => {
+    const consul = createFederatedConsul();
+    const client = new ConsulClient(consul as any);
+
+    const [service] = await client.getServices();
+    const checks = await client.getAllHealthChecks();
+
+    expect(service.datacenter).toBe('dc1');
+    expect(checks.every(check => check.datacenter === 'dc1')).toBe(true);
+    expect(consul.agent.self).toHaveBeenCalledTimes(1);
+    expect(consul.health.state).toHaveBeenCalledWith({ state: 'any' });
+  });
+
+  test('Should scope queries to a named datacenter', async () => {
+    const consul = createFederatedConsul();
+    const client = new ConsulClient(consul as any);
+
+    const services = await client.acrossDatacenters({ datacenter: 'dc2' }, dc => dc.getServices());
+
+    expect(services.map(s => [s.id, s.datacenter, s.health.status])).toEqual([['api-9', 'dc2', 'critical']]);
+    expect(consul.catalog.service.nodes).toHaveBeenCalledWith({ service: 'api', dc: 'dc2' });
+    expect(consul.agent.self).not.toHaveBeenCalled();
+    expect(client.withScope({ datacenter: 'dc2' })).toBe(client.withScope({ datacenter: 'dc2' }));
+  });
+
+  test('Should fan out to every datacenter for "*"', async () => {
+    const consul = createFederatedConsul();
+    const client = new ConsulClient(consul as any);
+
+    const services = await client.acrossDatacenters({ datacenter: '*' }, dc => dc.getServices());
+
+    expect(services.map(s => `${s.datacenter}/${s.id}`)).toEqual(['dc1/api-1', 'dc2/api-9']);
+    expect(consul.catalog.datacenters).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ConsulClient namespaces and partitions', () => {
+  // The `consul` package drops `ns` and `partition`, so scoped reads use the HTTP API
+  function createScopedApi() {
+    const responses: Record<string, unknown> = {
+      '/catalog/services': { api: [] },
+      '/catalog/service/api': [{
+        ...toCatalogService(serviceEntry('node1', 'api-1', 'api', [])),
+        Namespace: 'payments',
+        Partition: 'team-a'
+      }],
+      '/health/state/any': [{
+        ...serviceCheck('node1', 'api-1', 'api', 'warning'),
+        Namespace: 'payments',
+        Partition: 'team-a'
+      }],
+      '/connect/intentions': [{
+        ID: 'i-1',
+        SourceName: 'web',
+        SourceNS: 'frontend',
+        DestinationName: 'api',
+        DestinationNS: 'payments',
+        Action: 'allow'
+      }]
+    };
+    return {
+      get: jest.fn().mockImplementation(async (path: string) => ({ data: responses[path], index: null }))
+    };
+  }
+
+  test('Should send the namespace and partition with every read', async () => {
+    const consul = createMockConsul();
+    const api = createScopedApi();
+    const client = new ConsulClient(consul as any, { api: api as any, datacenter: 'dc1' })
+      .withScope({ namespace: 'payments', partition: 'team-a' });
+
+    const [service] = await client.getServices();
+    const [connection] = await client.getServiceConnections();
+
+    expect(service).toMatchObject({ id: 'api-1', namespace: 'payments', partition: 'team-a', datacenter: 'dc1' });
+    expect(service.health.status).toBe('warning');
+    expect(connection).toMatchObject({
+      sourceNamespace: 'frontend',
+      sourcePartition: 'team-a',
+      destinationNamespace: 'payments'
+    });
+    for (const [, options] of api.get.mock.calls) {
+      expect(options.query).toEqual({ dc: 'dc1', ns: 'payments', partition: 'team-a' });
+    }
+    expect(consul.catalog.service.list).not.toHaveBeenCalled();
+    expect(consul.health.state).not.toHaveBeenCalled();
+  });
+
+  test('Should keep one client per scope', () => {
+    const client = new ConsulClient(createMockConsul() as any);
+    const scoped = client.withScope({ namespace: 'payments' });
+
+    expect(client.withScope({})).toBe(client);
+    expect(client.withScope({ namespace: 'payments' })).toBe(scoped);
+    expect(scoped.withScope({ partition: 'team-a' })).not.toBe(scoped);
+  });
+});
+
+describe('ConsulClient connection inference', () => {
+  const catalog: Record<string, unknown[]> = {
+    web: [{ ...toCatalogService(serviceEntry('node1', 'web-1', 'web', [])), ServiceMeta: { upstream_services: 'api, cache' } }],
+    'web-sidecar-proxy': [{
+      ...toCatalogService(serviceEntry('node1', 'web-1-sidecar-proxy', 'web-sidecar-proxy', [])),
+      ServiceKind: 'connect-proxy',
+      ServiceProxy: {
+        DestinationServiceName: 'web',
+        Upstreams: [
+          { DestinationName: 'api', LocalBindPort: 9191, Config: { protocol: 'grpc' } },
+          { DestinationType: 'prepared_query', DestinationName: 'nearest-db', LocalBindPort: 9192 }
+        ]
+      }
+    }],
+    api: [toCatalogService(serviceEntry('node2', 'api-1', 'api', []))],
+    'api-v2': [toCatalogService(serviceEntry('node2', 'api-v2-1', 'api-v2', []))],
+    'payments-db': [toCatalogService(serviceEntry('node3', 'payments-db-1', 'payments-db', []))]
+  };
+
+  function createClient(options: Record<string, unknown> = {}, intentions: unknown[] = []) {
+    const consul = {
+      catalog: {
+        service: {
+          list: jest.fn().mockResolvedValue(Object.fromEntries(Object.keys(catalog).map(name => [name, []]))),
+          nodes: jest.fn().mockImplementation(async (opts: any) => catalog[opts.service] || [])
+        }
+      },
+      health: { state: jest.fn().mockResolvedValue([]) }
+    };
+    const configEntries: Record<string, unknown[]> = {
+      '/connect/intentions': intentions,
+      '/config/service-router': [{ Kind: 'service-router', Name: 'api', Routes: [{ Destination: { Service: 'api-v2' } }] }],
+      '/config/service-resolver': [{
+        Kind: 'service-resolver',
+        Name: 'api-v2',
+        Failover: { '*': { Datacenters: ['dc2'] } },
+        Redirect: { Service: 'payments-db' }
+      }]
+    };
+    const api = {
+      get: jest.fn().mockImplementation(async (path: string) => ({ data: configEntries[path], index: null }))
+    };
+    return new ConsulClient(consul as any, { api: api as any, datacenter: 'dc1', ...options });
+  }
+
+  const edges = (connections: any[]) =>
+    connections.map(conn => `${conn.source}->${conn.destination} ${conn.evidence.join(',')}`).sort();
+
+  test('Should derive connections from Connect config and service meta', async () => {
+    const connections = await createClient().getServiceConnections();
+
+    expect(edges(connections)).toEqual([
+      'api->api-v2 service-router',
+      'api-v2->payments-db service-resolver',
+      'web->api proxy-upstream,service-meta'
+    ]);
+    const webToApi = connections.find(conn => conn.source === 'web');
+    expect(webToApi).toMatchObject({ status: 'inferred', protocol: 'grpc', usesServiceMesh: true });
+  });
+
+  test('Should merge derived connections with intentions', async () => {
+    const connections = await createClient({}, [
+      { ID: 'i-1', SourceName: 'web', DestinationName: 'api', Action: 'allow' },
+      { ID: 'i-2', SourceName: '*', DestinationName: '*', Action: 'deny' }
+    ]).getServiceConnections();
+
+    expect(edges(connections)).toEqual([
+      '*->* intention',
+      'api->api-v2 service-router',
+      'api-v2->payments-db service-resolver',
+      'web->api intention,proxy-upstream,service-meta'
+    ]);
+    const webToApi = connections.find(conn => conn.source === 'web');
+    expect(webToApi).toMatchObject({ status: 'allowed', intentionAction: 'allow', protocol: 'tcp' });
+  });
+
+  test('Should block derived connections that a wildcard intention denies', async () => {
+    const connections = await createClient({}, [
+      { ID: 'i-1', SourceName: '*', DestinationName: '*', Action: 'deny' },
+      { ID: 'i-2', SourceName: '*', DestinationName: 'api-v2', Action: 'allow' }
+    ]).getServiceConnections();
+
+    const status = (source: string) => connections.find(conn => conn.source === source);
+    expect(status('web')).toMatchObject({ status: 'blocked', intentionAction: 'deny', evidence: ['proxy-upstream', 'service-meta'] });
+    expect(status('api-v2')).toMatchObject({ status: 'blocked', intentionAction: 'deny', evidence: ['service-resolver'] });
+    expect(status('api')).toMatchObject({ status: 'inferred', evidence: ['service-router'] });
+  });
+
+  test('Should only guess from service names when enabled', async () => {
+    const connections = await createClient({ connectionNameHeuristics: true }).getServiceConnections();
+
+    expect(edges(connections)).toEqual(expect.arrayContaining([
+      'web->api proxy-upstream,service-meta,name-heuristic',
+      'web->api-v2 name-heuristic'
+    ]));
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for focused diagrams: neighborhoods, paths between services and
+ * instance filters
+ */
+
+import { ServiceConnection } from '../resources/consul-client.js';
+import { DependencyGraph } from '../resources/dependency-graph.js';
+import { DiagramGenerator } from '../tools/diagram-generator.js';
+import { DiagramFocus, InvalidDiagramFocusError, ServiceGraph } from '../tools/service-graph.js';
+import { serviceConnection as connection, serviceInstance } from './fixtures.js';
+
+const service = (name: string, tags: string[] = [], node = 'node-1') => serviceInstance(name, { tags, node });
+
+// web -> api -> db, web -> search -> db, api -> cache, admin -> api
+const connections = [
+  connection('web', 'api'),
+  connection('api', 'db'),
+  connection('web', 'search'),
+  connection('search', 'db'),
+  connection('api', 'cache'),
+  connection('admin', 'api')
+];
+
+const services = [
+  service('web', ['edge']),
+  service('admin', ['edge']),
+  service('api'),
+  service('search', [], 'node-2'),
+  service('db'),
+  service('cache')
+];
+
+async function graph(focus: DiagramFocus, extra: ServiceConnection[] = []): Promise<ServiceGraph> {
+  const json = await new DiagramGenerator().generateServiceDiagram(
+    services,
+    [...connections, ...extra],
+    { includeHealth: false, includeMetrics: false, format: 'json', focus }
+  );
+  return JSON.parse(json);
+}
+
+describe('Service neighborhoods and paths', () => {
+  const graph = new DependencyGraph(connections);
+
+  test('follow connections by direction and depth', () => {
+    expect([...graph.neighborhood('api', 1, 'upstream')]).toEqual([['api', 0], ['db', 1], ['cache', 1]]);
+    expect([...graph.neighborhood('api', 1, 'downstream')]).toEqual([['api', 0], ['web', 1], ['admin', 1]]);
+    expect([...graph.neighborhood('db', 2, 'downstream').keys()]).toEqual(['db', 'api', 'search', 'web', 'admin']);
+  });
+
+  test('find every connection on a path', () => {
+    const paths = graph.paths('web', 'db');
+
+    expect(paths.services.sort()).toEqual(['api', 'db', 'search', 'web']);
+    expect(paths.connections).toHaveLength(4);
+    expect(graph.paths('db', 'web')).toEqual({ services: [], connections: [] });
+  });
+});
+
+describe('Focused diagrams', () => {
+  test('draw a service with its neighborhood', async () => {
+    const { nodes, edges } = await graph({ service: 'api', direction: 'upstream' });
+
+    expect(nodes.map(node => node.id)).toEqual(['api', 'db', 'cache']);
+    expect(nodes.filter(node => node.highlighted).map(node => node.id)).toEqual(['api']);
+    expect(edges.map(edge => `${edge.from}->${edge.to}`)).toEqual(['api->db', 'api->cache']);
+  });
+
+  test('highlight paths between two services', async () => {
+    const { nodes, edges } = await graph({ pathFrom: 'web', pathTo: 'db' });
+
+    expect(nodes.map(node => node.id).sort()).toEqual(['api', 'db', 'search', 'web']);
+    expect(edges.every(edge => edge.highlighted)).toBe(true);
+
+    const diagram = await new DiagramGenerator().generateServiceDiagram(
+      services,
+      connections,
+      { includeHealth: false, includeMetrics: false, focus: { service: 'db', depth: 1, pathFrom: 'web', pathTo: 'db' } }
+    );
+    expect(diagram).toContain('web ==> api');
+    expect(diagram).toMatch(/  class [a-z,]*web[a-z,]* highlighted\n/);
+    expect(diagram).toContain('classDef highlighted stroke:#1f77b4,stroke-width:4px');
+  });
+
+  test('follow only allowed connections between named services', async () => {
+    const extra: ServiceConnection[] = [
+      connection('cache', 'search', { status: 'blocked', intentionAction: 'deny' }),
+      connection('db', 'cache', { status: 'blocked', intentionAction: 'deny' }),
+      connection('*', 'search', { status: 'allowed', intentionAction: 'allow' })
+    ];
+
+    const upstream = await graph({ service: 'api', direction: 'upstream', depth: 2 }, extra);
+    expect(upstream.nodes.map(node => node.id)).toEqual(['api', 'db', 'cache']);
+    // Blocked connections between the services drawn are still shown
+    expect(upstream.edges.map(edge => `${edge.from}->${edge.to}`)).toEqual(['api->db', 'api->cache', 'db->cache']);
+
+    const around = await graph({ service: 'admin', depth: 2 }, extra);
+    expect(around.nodes.map(node => node.id).sort()).toEqual(['admin', 'api', 'cache', 'db', 'web']);
+  });
+
+  test('filter instances by tag and node before focusing', async () => {
+    expect((await graph({ tags: ['edge'] })).nodes.map(node => node.id)).toEqual(['web', 'admin']);
+    expect((await graph({ nodes: ['node-2'] })).nodes.map(node => node.id)).toEqual(['search']);
+  });
+
+  test('reject a focus the diagram cannot draw', async () => {
+    await expect(graph({ pathFrom: 'web' })).rejects.toThrow(InvalidDiagramFocusError);
+    await expect(graph({ service: 'missing' })).rejects.toThrow('Service missing is not among the services being drawn');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for rendering service diagrams as DOT, PlantUML, D2 and JSON
+ */
+
+import { ServiceConnection, TrafficPolicy } from '../resources/consul-client.js';
+import { DiagramGenerator } from '../tools/diagram-generator.js';
+import { DiagramFormat } from '../tools/diagram-renderers.js';
+import { ServiceGraph } from '../tools/service-graph.js';
+import { serviceInstance } from './fixtures.js';
+
+const services = [
+  serviceInstance('web'),
+  serviceInstance('api', { health: { status: 'critical', checks: [] } })
+];
+
+const connections: ServiceConnection[] = [
+  { source: 'web', destination: 'api', status: 'failing', protocol: 'http', usesServiceMesh: true, latency: 42 }
+];
+
+const traffic: TrafficPolicy[] = [{
+  service: 'api',
+  datacenter: 'dc1',
+  subsets: ['v1', 'v2'],
+  splits: [
+    { weight: 80, service: 'api', subset: 'v1', datacenter: 'dc1' },
+    { weight: 20, service: 'api', subset: 'v2', datacenter: 'dc1' }
+  ],
+  failover: []
+}];
+
+function render(format: DiagramFormat): Promise<string> {
+  return new DiagramGenerator().generateServiceDiagram(
+    services,
+    connections,
+    { includeHealth: true, includeMetrics: true, format },
+    traffic
+  );
+}
+
+describe('Diagram formats', () => {
+  test('JSON is the graph every format is rendered from', async () => {
+    const graph: ServiceGraph = JSON.parse(await render('json'));
+
+    expect(graph.groups).toEqual([{ id: 'consul_service_mesh', label: 'Consul Service Mesh' }]);
+    expect(graph.nodes.map(node => [node.id, node.kind, node.style])).toEqual([
+      ['web', 'service', 'healthy'],
+      ['api', 'service', 'critical'],
+      ['api___v1', 'subset', undefined],
+      ['api___v2', 'subset', undefined]
+    ]);
+    expect(graph.nodes[2]).toMatchObject({ parent: 'api', label: 'v1 80%' });
+    expect(graph.edges).toEqual([{
+      from: 'web',
+      to: 'api',
+      kind: 'connection',
+      label: '42ms',
+      status: 'failing',
+      protocol: 'http',
+      latencyMs: 42,
+      style: 'failing'
+    }]);
+  });
+
+  test('DOT draws subsets as a cluster with the same colors', async () => {
+    const diagram = await render('dot');
+
+    expect(diagram).toMatch(/^digraph consul \{/);
+    expect(diagram).toContain('web [label="web", fillcolor="#baffc9", color="#00ae11"];');
+    expect(diagram).toContain('subgraph cluster_api {');
+    expect(diagram).toContain('fillcolor="#ffb3ba";');
+    expect(diagram).toContain('api___v2 [label="v2 20%"];');
+    expect(diagram).toContain('web -> api___v1 [label="42ms", color="#ff0000", penwidth=2, style=dashed, lhead=cluster_api];');
+  });
+
+  test('PlantUML nests subsets inside their service', async () => {
+    const diagram = await render('plantuml');
+
+    expect(diagram).toMatch(/^@startuml\n/);
+    expect(diagram).toContain('  rectangle "api" as api #ffb3ba;line:ff0000 {\n    rectangle "v1 80%" as api___v1\n');
+    expect(diagram).toContain('web -[#ff0000,thickness=2,dashed]-> api : 42ms');
+    expect(diagram).toMatch(/@enduml\n$/);
+  });
+
+  test('D2 refers to nodes by their container path', async () => {
+    const diagram = await render('d2');
+
+    expect(diagram).toContain('consul_service_mesh: "Consul Service Mesh" {');
+    expect(diagram).toContain('    api___v1: "v1 80%"');
+    expect(diagram).toContain('consul_service_mesh.web -> consul_service_mesh.api: "42ms" {\n  style.stroke: "#ff0000"');
+  });
+});
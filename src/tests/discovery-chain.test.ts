@@ -0,0 +1,96 @@
+/**
+ * Tests for reading discovery chains and drawing them as Mermaid diagrams
+ */
+
+import { ConsulClient } from '../resources/consul-client.js';
+import { DiagramGenerator } from '../tools/diagram-generator.js';
+
+// Abridged from GET /v1/discovery-chain/web: routes /api to api, which splits
+// between two subsets and fails over to dc2
+const rawChain = {
+  ServiceName: 'web',
+  Namespace: 'default',
+  Partition: 'default',
+  Datacenter: 'dc1',
+  Protocol: 'http',
+  StartNode: 'router:web.default.default',
+  Nodes: {
+    'router:web.default.default': {
+      Type: 'router',
+      Name: 'web.default.default',
+      Routes: [
+        { Definition: { Match: { HTTP: { PathPrefix: '/api', Methods: ['GET'] } }, Destination: { Service: 'api' } }, NextNode: 'splitter:api.default.default' },
+        { Definition: { Match: { HTTP: {} } }, NextNode: 'resolver:web.default.default.dc1' }
+      ]
+    },
+    'splitter:api.default.default': {
+      Type: 'splitter',
+      Name: 'api.default.default',
+      Splits: [
+        { Weight: 90, NextNode: 'resolver:v1.api.default.default.dc1' },
+        { Weight: 10, NextNode: 'resolver:v2.api.default.default.dc1' }
+      ]
+    },
+    'resolver:v1.api.default.default.dc1': {
+      Type: 'resolver',
+      Name: 'v1.api.default.default.dc1',
+      Resolver: { ConnectTimeout: '5s', Target: 'v1.api.default.default.dc1', Failover: { Targets: ['v1.api.default.default.dc2'] } }
+    },
+    'resolver:v2.api.default.default.dc1': {
+      Type: 'resolver',
+      Name: 'v2.api.default.default.dc1',
+      Resolver: { ConnectTimeout: '5s', Target: 'v2.api.default.default.dc1' }
+    },
+    'resolver:web.default.default.dc1': {
+      Type: 'resolver',
+      Name: 'web.default.default.dc1',
+      Resolver: { ConnectTimeout: '5s', Default: true, Target: 'web.default.default.dc1' }
+    }
+  },
+  Targets: {
+    'v1.api.default.default.dc1': { ID: 'v1.api.default.default.dc1', Service: 'api', ServiceSubset: 'v1', Namespace: 'default', Partition: 'default', Datacenter: 'dc1' },
+    'v1.api.default.default.dc2': { ID: 'v1.api.default.default.dc2', Service: 'api', ServiceSubset: 'v1', Namespace: 'default', Partition: 'default', Datacenter: 'dc2' },
+    'v2.api.default.default.dc1': { ID: 'v2.api.default.default.dc1', Service: 'api', ServiceSubset: 'v2', Namespace: 'default', Partition: 'default', Datacenter: 'dc1' },
+    'web.default.default.dc1': { ID: 'web.default.default.dc1', Service: 'web', ServiceSubset: '', Namespace: 'default', Partition: 'default', Datacenter: 'dc1' }
+  }
+};
+
+async function readChain() {
+  const api = { get: jest.fn().mockResolvedValue({ data: { Chain: rawChain }, index: null }) };
+  const client = new ConsulClient({} as any, { api: api as any, datacenter: 'dc1' });
+  const chain = await client.getDiscoveryChain('web');
+  return { api, chain };
+}
+
+describe('Discovery chains', () => {
+  test('Should read the compiled chain', async () => {
+    const { api, chain } = await readChain();
+
+    expect(api.get).toHaveBeenCalledWith('/discovery-chain/web', expect.objectContaining({ query: expect.objectContaining({ dc: 'dc1' }) }));
+    expect(chain).toMatchObject({ serviceName: 'web', protocol: 'http', isDefault: false, startNode: 'router:web.default.default' });
+    expect(chain.nodes.find(node => node.type === 'splitter')?.splits).toEqual([
+      { weight: 90, nextNode: 'resolver:v1.api.default.default.dc1' },
+      { weight: 10, nextNode: 'resolver:v2.api.default.default.dc1' }
+    ]);
+    expect(chain.nodes.find(node => node.id === 'resolver:v1.api.default.default.dc1')?.resolver).toEqual({
+      target: 'v1.api.default.default.dc1', connectTimeout: '5s', isDefault: false, failoverTargets: ['v1.api.default.default.dc2']
+    });
+    expect(chain.targets.find(target => target.id === 'web.default.default.dc1')?.serviceSubset).toBeUndefined();
+  });
+
+  test('Should draw routes, splits and failover', async () => {
+    const { chain } = await readChain();
+
+    const diagram = new DiagramGenerator().generateDiscoveryChainDiagram(chain);
+
+    expect(diagram).toMatch(/^flowchart LR\n/);
+    expect(diagram).toContain('service_web(["web"])');
+    expect(diagram).toContain('service_web --> router_web_default_default');
+    expect(diagram).toContain('router_web_default_default{"router: web.default.default"}');
+    expect(diagram).toContain('router_web_default_default -->|"GET /api*"| splitter_api_default_default');
+    expect(diagram).toContain('router_web_default_default -->|"default"| resolver_web_default_default_dc1');
+    expect(diagram).toContain('splitter_api_default_default -->|"90%"| resolver_v1_api_default_default_dc1');
+    expect(diagram).toContain('resolver_v1_api_default_default_dc1 -.->|failover| target_v1_api_default_default_dc2');
+    expect(diagram).toContain('target_v1_api_default_default_dc2[["v1.api (dc2)"]]');
+  });
+});
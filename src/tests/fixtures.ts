@@ -0,0 +1,39 @@
+/**
+ * Builders for the services and connections that tests analyze and draw
+ */
+
+import { ConsulService, ServiceConnection } from '../resources/consul-client.js';
+
+/**
+ * Builds a passing service instance on node-1 in dc1
+ * @param name Service name, also used as the instance ID
+ * @param fields Fields to set instead of the defaults
+ */
+export function serviceInstance(name: string, fields: Partial<ConsulService> = {}): ConsulService {
+  return {
+    id: name,
+    name,
+    address: '10.0.0.1',
+    port: '8080',
+    node: 'node-1',
+    datacenter: 'dc1',
+    tags: [],
+    meta: {},
+    health: { status: 'passing', checks: [] },
+    ...fields
+  };
+}
+
+/**
+ * Builds a healthy HTTP connection through the service mesh
+ * @param source The calling service
+ * @param destination The called service
+ * @param fields Fields to set instead of the defaults
+ */
+export function serviceConnection(
+  source: string,
+  destination: string,
+  fields: Partial<ServiceConnection> = {}
+): ServiceConnection {
+  return { source, destination, status: 'healthy', protocol: 'http', usesServiceMesh: true, ...fields };
+}
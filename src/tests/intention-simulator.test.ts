@@ -0,0 +1,88 @@
+/**
+ * Tests for the local intention evaluation behind explain_connectivity
+ */
+
+import { ServiceIntentionsEntry } from '../resources/consul-client.js';
+import { IntentionSimulator, evaluateIntentions } from '../tools/intention-simulator.js';
+
+const entries: ServiceIntentionsEntry[] = [
+  {
+    Kind: 'service-intentions',
+    Name: '*',
+    Sources: [{ Name: '*', Action: 'deny', Description: 'Zero trust baseline' }]
+  },
+  {
+    Kind: 'service-intentions',
+    Name: 'api',
+    Sources: [
+      { Name: 'web', Action: 'allow' },
+      {
+        Name: 'admin',
+        Permissions: [
+          { Action: 'deny', HTTP: { PathPrefix: '/internal/' } },
+          { Action: 'allow', HTTP: { PathPrefix: '/', Methods: ['GET', 'POST'], Header: [{ Name: 'X-Team', Exact: 'ops' }] } }
+        ]
+      },
+      { Name: '*', Namespace: 'batch', Action: 'allow' }
+    ]
+  }
+];
+
+const api = { name: 'api' };
+
+describe('Intention simulator', () => {
+  test('Should let the most specific matching intention decide', () => {
+    const web = evaluateIntentions(entries, { source: { name: 'web' }, destination: api }, 'allow');
+    expect(web.decision).toBe('allow');
+    expect(web.matchedIntention).toMatchObject({ source: 'web', destination: 'api', precedence: 9 });
+
+    const db = evaluateIntentions(entries, { source: { name: 'db' }, destination: api }, 'allow');
+    expect(db.decision).toBe('deny');
+    expect(db.matchedIntention).toMatchObject({ source: '*', destination: '*', precedence: 5 });
+    expect(db.considered.map(intention => intention.precedence)).toEqual([9, 9, 8, 5]);
+  });
+
+  test('Should match wildcard namespaces', () => {
+    const explanation = evaluateIntentions(entries, { source: { name: 'report', namespace: 'batch' }, destination: api }, 'deny');
+    expect(explanation.decision).toBe('allow');
+    expect(explanation.matchedIntention?.source).toBe('batch/*');
+  });
+
+  test('Should fall back to the default policy when nothing matches', () => {
+    const explanation = evaluateIntentions([], { source: { name: 'web' }, destination: api }, 'deny');
+    expect(explanation.decision).toBe('deny');
+    expect(explanation.matchedIntention).toBeNull();
+    expect(explanation.chain[explanation.chain.length - 1]).toContain('default ACL policy "deny"');
+  });
+
+  test('Should evaluate L7 permissions in order', () => {
+    const request = (http?: any) => evaluateIntentions(entries, { source: { name: 'admin' }, destination: api, http }, 'deny');
+
+    expect(request().decision).toBe('depends-on-request');
+    expect(request({ path: '/internal/reset', method: 'GET' }).matchedPermission?.index).toBe(0);
+    expect(request({ path: '/internal/reset', method: 'GET' }).decision).toBe('deny');
+
+    const allowed = request({ path: '/users', method: 'get', headers: { 'x-team': 'ops' } });
+    expect(allowed.decision).toBe('allow');
+    expect(allowed.matchedPermission?.index).toBe(1);
+
+    const wrongHeader = request({ path: '/users', method: 'GET', headers: { 'X-Team': 'dev' } });
+    expect(wrongHeader.decision).toBe('deny');
+    expect(wrongHeader.matchedPermission).toBeNull();
+    expect(wrongHeader.chain).toContainEqual(expect.stringContaining('header X-Team does not match'));
+  });
+
+  test('Should not contact Consul for recorded intentions', async () => {
+    const consulClient = {
+      listIntentions: jest.fn(),
+      getAclDefaultPolicy: jest.fn()
+    };
+    const simulator = new IntentionSimulator(consulClient as any);
+
+    const explanation = await simulator.explain({ source: { name: 'db' }, destination: { name: 'cache' } }, { intentions: [] });
+
+    expect(explanation).toMatchObject({ decision: 'allow', defaultPolicySource: 'assumed' });
+    expect(consulClient.listIntentions).not.toHaveBeenCalled();
+    expect(consulClient.getAclDefaultPolicy).not.toHaveBeenCalled();
+  });
+});
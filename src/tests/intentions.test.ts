@@ -0,0 +1,108 @@
+/**
+ * Tests for intention management against a mocked Consul HTTP API
+ */
+
+import { ConsulClient } from '../resources/consul-client.js';
+import { ConsulApiError } from '../resources/consul-api.js';
+import { IntentionManager, InvalidIntentionError } from '../resources/intentions.js';
+
+function createApi(entry: unknown) {
+  return {
+    get: jest.fn().mockImplementation(async (path: string) => {
+      if (path === '/connect/intentions/check') return { data: { Allowed: true }, index: null };
+      if (!entry) throw new ConsulApiError('Config entry not found', 404);
+      return { data: entry, index: null };
+    }),
+    put: jest.fn().mockResolvedValue({ data: true, index: null }),
+    delete: jest.fn().mockResolvedValue({ data: true, index: null })
+  };
+}
+
+function createManager(api: ReturnType<typeof createApi>) {
+  return new IntentionManager(new ConsulClient({} as any, { api: api as any, datacenter: 'dc1' }));
+}
+
+const existingEntry = {
+  Kind: 'service-intentions',
+  Name: 'api',
+  Sources: [
+    { Name: 'web', Action: 'deny' },
+    { Name: 'batch', Action: 'allow' }
+  ],
+  CreateIndex: 10,
+  ModifyIndex: 42
+};
+
+describe('IntentionManager', () => {
+  test('Should replace one source with a check-and-set write', async () => {
+    const api = createApi(existingEntry);
+
+    const entry = await createManager(api).upsert({ source: 'web', destination: 'api', action: 'allow' });
+
+    expect(entry.Sources.map(source => `${source.Name}:${source.Action}`)).toEqual(['web:allow', 'batch:allow']);
+    const [path, options] = api.put.mock.calls[0];
+    expect(path).toBe('/config');
+    expect(options.query).toMatchObject({ dc: 'dc1', cas: 42 });
+    expect(options.body.ModifyIndex).toBeUndefined();
+  });
+
+  test('Should create the config entry for L7 permissions', async () => {
+    const api = createApi(null);
+    const permissions = [{ Action: 'allow' as const, HTTP: { PathPrefix: '/v1/', Methods: ['GET'] } }];
+
+    const entry = await createManager(api).upsert({ source: 'web', destination: 'api', permissions });
+
+    expect(entry).toMatchObject({ Kind: 'service-intentions', Name: 'api', Sources: [{ Name: 'web', Permissions: permissions }] });
+    expect(api.put.mock.calls[0][1].query.cas).toBe(0);
+  });
+
+  test('Should reject ambiguous requests', async () => {
+    const manager = createManager(createApi(existingEntry));
+
+    await expect(manager.upsert({ source: 'web', destination: 'api' })).rejects.toThrow(InvalidIntentionError);
+    await expect(manager.upsert({
+      source: 'web',
+      destination: 'api',
+      action: 'allow',
+      permissions: [{ Action: 'deny' }]
+    })).rejects.toThrow(InvalidIntentionError);
+    await expect(manager.upsert({
+      source: 'web',
+      configEntry: existingEntry as any
+    })).rejects.toThrow(InvalidIntentionError);
+  });
+
+  test('Should fail when the entry changed concurrently', async () => {
+    const api = createApi(existingEntry);
+    api.put.mockResolvedValue({ data: false, index: null });
+
+    await expect(createManager(api).upsert({ source: 'web', destination: 'api', action: 'allow' }))
+      .rejects.toThrow('try again');
+  });
+
+  test('Should delete a source, and the entry with its last source', async () => {
+    const api = createApi(existingEntry);
+    const manager = createManager(api);
+
+    expect(await manager.delete({ source: 'web', destination: 'api' })).toBe(true);
+    expect(api.put.mock.calls[0][1].body.Sources).toEqual([{ Name: 'batch', Action: 'allow' }]);
+    expect(await manager.delete({ source: 'unknown', destination: 'api' })).toBe(false);
+
+    const single = createApi({ ...existingEntry, Sources: [{ Name: 'web', Action: 'deny' }] });
+    expect(await createManager(single).delete({ source: 'web', destination: 'api' })).toBe(true);
+    expect(single.delete).toHaveBeenCalledWith('/config/service-intentions/api', {
+      query: expect.objectContaining({ cas: 42 })
+    });
+  });
+
+  test('Should check intentions with namespaced source names', async () => {
+    const api = createApi(null);
+
+    const allowed = await createManager(api).check({ source: 'web', sourceNamespace: 'frontend', destination: 'api' });
+
+    expect(allowed).toBe(true);
+    expect(api.get).toHaveBeenCalledWith('/connect/intentions/check', {
+      query: expect.objectContaining({ source: 'frontend/web', destination: 'api' })
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Tests for KV access against a mocked Consul HTTP API
+ */
+
+import { ConsulClient } from '../resources/consul-client.js';
+import { ConsulApiError } from '../resources/consul-api.js';
+import { InvalidKvRequestError, KvManager, parseKvDocument } from '../resources/kv.js';
+
+function pair(key: string, value: string | Buffer | null, modifyIndex = 7) {
+  return {
+    Key: key,
+    Value: value === null ? null : (typeof value === 'string' ? Buffer.from(value) : value).toString('base64'),
+    Flags: 0,
+    CreateIndex: 5,
+    ModifyIndex: modifyIndex,
+    LockIndex: 0
+  };
+}
+
+function createApi(pairs: ReturnType<typeof pair>[]) {
+  return {
+    get: jest.fn().mockImplementation(async (path: string, options: any) => {
+      const key = decodeURIComponent(path.replace(/^\/kv\//, ''));
+      const matches = pairs.filter(p => (options.query.recurse || options.query.keys ? p.Key.startsWith(key) : p.Key === key));
+      if (matches.length === 0) throw new ConsulApiError('Not found', 404);
+      return { data: options.query.keys ? matches.map(p => p.Key) : matches, index: '1' };
+    }),
+    put: jest.fn().mockResolvedValue({ data: true, index: null }),
+    delete: jest.fn().mockResolvedValue({ data: true, index: null })
+  };
+}
+
+function createManager(api: ReturnType<typeof createApi>) {
+  return new KvManager(new ConsulClient({} as any, { api: api as any, datacenter: 'dc1' }));
+}
+
+describe('KvManager', () => {
+  test('Should decode text values and truncate long ones', async () => {
+    const api = createApi([pair('config/api/banner', 'héllo world'), pair('config/api/empty', null)]);
+    const manager = createManager(api);
+
+    expect(await manager.get('config/api/banner')).toMatchObject({
+      value: 'héllo world', encoding: 'utf8', size: 12, truncated: false, modifyIndex: 7
+    });
+    // The cut falls inside "é", which is dropped rather than garbled
+    expect(await manager.get('config/api/banner', 2)).toMatchObject({ value: 'h', size: 12, truncated: true });
+    expect(await manager.get('config/api/empty')).toMatchObject({ value: null, size: 0 });
+    expect(await manager.get('config/api/missing')).toBeNull();
+    expect(api.get.mock.calls[0][1].query).toMatchObject({ dc: 'dc1' });
+  });
+
+  test('Should return binary values as base64', async () => {
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]);
+    const entry = await createManager(createApi([pair('certs/logo', bytes)])).get('certs/logo');
+
+    expect(entry).toMatchObject({ value: bytes.toString('base64'), encoding: 'base64', size: 6 });
+  });
+
+  test('Should limit listings', async () => {
+    const api = createApi([pair('app/a', 'x'.repeat(2000)), pair('app/b', '2'), pair('app/c', '3')]);
+    const manager = createManager(api);
+
+    const listing = await manager.list('app/', { limit: 2 });
+    expect(listing).toMatchObject({ prefix: 'app/', total: 3, truncated: true });
+    expect(listing.entries?.map(entry => [entry.key, entry.value?.length, entry.truncated])).toEqual([
+      ['app/a', 1024, true],
+      ['app/b', 1, false]
+    ]);
+
+    const keys = await manager.list('app/', { keysOnly: true, separator: '/' });
+    expect(keys).toEqual({ prefix: 'app/', keys: ['app/a', 'app/b', 'app/c'], total: 3, truncated: false });
+    expect(api.get.mock.calls[1][1].query).toMatchObject({ keys: true, separator: '/' });
+
+    expect(await manager.list('missing/')).toMatchObject({ entries: [], total: 0 });
+  });
+
+  test('Should write raw values with check-and-set', async () => {
+    const api = createApi([]);
+    const manager = createManager(api);
+
+    await expect(manager.put('feature flags/new ui', 'on', { cas: 7 })).resolves.toBe(true);
+    const [path, options] = api.put.mock.calls[0];
+    expect(path).toBe('/kv/feature%20flags/new%20ui');
+    expect(options).toMatchObject({ query: { dc: 'dc1', cas: 7 }, body: Buffer.from('on') });
+
+    api.put.mockResolvedValueOnce({ data: false, index: null });
+    await expect(manager.put('flags/a', 'AAE=', { encoding: 'base64', cas: 3 })).resolves.toBe(false);
+    expect(api.put.mock.calls[1][1].body).toEqual(Buffer.from([0, 1]));
+  });
+
+  test('Should reject unsafe or invalid writes', async () => {
+    const api = createApi([]);
+    const manager = createManager(api);
+
+    await expect(manager.delete('/', { recurse: true })).rejects.toThrow(InvalidKvRequestError);
+    await expect(manager.delete('app/', { recurse: true, cas: 1 })).rejects.toThrow(InvalidKvRequestError);
+    await expect(manager.put('app/a', 'not base64!', { encoding: 'base64' })).rejects.toThrow(InvalidKvRequestError);
+    await expect(manager.put('app/a', 'x'.repeat(512 * 1024 + 1))).rejects.toThrow(/at most/);
+    expect(api.put).not.toHaveBeenCalled();
+    expect(api.delete).not.toHaveBeenCalled();
+
+    await expect(manager.delete('app/', { recurse: true })).resolves.toBe(true);
+    expect(api.delete.mock.calls[0][1].query).toMatchObject({ recurse: true });
+  });
+
+  test('Should diff two prefixes into a check-and-set change set', async () => {
+    const api = createApi([
+      pair('config/staging/', null),
+      pair('config/staging/db/host', 'db.staging'),
+      pair('config/staging/log_level', 'debug'),
+      pair('config/staging/timeout', '30s'),
+      pair('config/prod/log_level', 'debug', 20),
+      pair('config/prod/timeout', '10s', 21),
+      pair('config/prod/legacy', 'yes', 22)
+    ]);
+
+    const diff = await createManager(api).diff('config/staging/', 'config/prod/', { includeDeletes: true });
+
+    expect(diff).toMatchObject({ added: 1, removed: 1, changed: 1, unchanged: 1, truncated: false });
+    expect(diff.entries).toEqual([
+      { key: 'db/host', status: 'added', sourceValue: 'db.staging' },
+      { key: 'legacy', status: 'removed', targetValue: 'yes' },
+      { key: 'timeout', status: 'changed', sourceValue: '30s', targetValue: '10s' }
+    ]);
+    expect(diff.changes).toEqual([
+      { op: 'set', key: 'config/prod/db/host', sourceKey: 'config/staging/db/host', sourceIndex: 7, cas: 0 },
+      { op: 'delete', key: 'config/prod/legacy', cas: 22 },
+      { op: 'set', key: 'config/prod/timeout', sourceKey: 'config/staging/timeout', sourceIndex: 7, cas: 21 }
+    ]);
+  });
+
+  test('Should stop the change set where it fills one transaction', async () => {
+    const keys = Array.from({ length: 40 }, (_, i) => `config/staging/key${String(i).padStart(2, '0')}`);
+    const api = createApi(keys.map(key => pair(key, 'value')));
+
+    const diff = await createManager(api).diff('config/staging/', 'config/prod/');
+
+    // Each copy also checks its source key, so 32 copies take 64 operations
+    expect(diff).toMatchObject({ added: 40, truncated: true });
+    expect(diff.entries).toHaveLength(32);
+    expect(diff.changes).toHaveLength(32);
+    expect(diff.changes[31].key).toBe('config/prod/key31');
+  });
+
+  test('Should diff a prefix against a YAML document', async () => {
+    const api = createApi([pair('app/db/port', '5432'), pair('app/name', 'shop')]);
+    const document = parseKvDocument('db:\n  port: 5433\nname: shop\nfeatures: [a, b]\n');
+
+    const diff = await createManager(api).diff(document, 'app/');
+
+    expect(diff.changes).toEqual([
+      { op: 'set', key: 'app/db/port', value: '5433', cas: 7 },
+      { op: 'set', key: 'app/features', value: '["a","b"]', cas: 0 }
+    ]);
+    expect(() => parseKvDocument('- just\n- a list')).toThrow(InvalidKvRequestError);
+  });
+
+  test('Should report conflicts in a dry run without writing', async () => {
+    const api = createApi([pair('app/a', 'old', 7), pair('app/b', 'same', 8)]);
+
+    const result = await createManager(api).apply([
+      { op: 'set', key: 'app/a', value: 'new', cas: 7 },
+      { op: 'set', key: 'app/b', value: 'same' },
+      { op: 'set', key: 'app/c', value: 'x', cas: 0 },
+      { op: 'delete', key: 'app/a', cas: 6 }
+    ], { dryRun: true });
+
+    expect(result.committed).toBe(false);
+    expect(result.operations.map(outcome => outcome.action)).toEqual(['update', 'unchanged', 'create', 'delete']);
+    expect(result.errors).toEqual([{ key: 'app/a', message: 'The key is at modify index 7, not 6' }]);
+    expect(api.put).not.toHaveBeenCalled();
+  });
+
+  test('Should apply a change set in one transaction', async () => {
+    const api = createApi([pair('config/staging/timeout', '30s')]);
+    const manager = createManager(api);
+    const changes = [
+      { op: 'set' as const, key: 'config/prod/timeout', sourceKey: 'config/staging/timeout', cas: 21 },
+      { op: 'check' as const, key: 'config/prod/lock', cas: 0 },
+      { op: 'delete' as const, key: 'config/prod/legacy' }
+    ];
+
+    api.put.mockResolvedValueOnce({ data: { Results: [{ KV: pair('config/prod/timeout', null, 23) }], Errors: null }, index: null });
+    await expect(manager.apply(changes)).resolves.toMatchObject({ dryRun: false, committed: true, errors: [] });
+
+    const [path, options] = api.put.mock.calls[0];
+    expect(path).toBe('/txn');
+    expect(options.query).toEqual({ dc: 'dc1' });
+    expect(options.body.map((op: any) => [op.KV.Verb, op.KV.Key, op.KV.Index])).toEqual([
+      ['cas', 'config/prod/timeout', 21],
+      ['check-not-exists', 'config/prod/lock', undefined],
+      ['delete', 'config/prod/legacy', undefined]
+    ]);
+    expect(options.body[0].KV.Value).toBe(Buffer.from('30s').toString('base64'));
+
+    const rollback = JSON.stringify({ Results: null, Errors: [{ OpIndex: 0, What: 'failed to set key: index is stale' }] });
+    api.put.mockRejectedValueOnce(new ConsulApiError('Conflict', 409, rollback));
+    await expect(manager.apply(changes)).resolves.toMatchObject({
+      committed: false,
+      errors: [{ key: 'config/prod/timeout', message: 'failed to set key: index is stale' }]
+    });
+
+    // A 409 that is not Consul's, e.g. from a proxy, keeps its error
+    api.put.mockRejectedValueOnce(new ConsulApiError('Conflict', 409, '<html>Conflict</html>'));
+    await expect(manager.apply(changes)).rejects.toThrow(ConsulApiError);
+
+    await expect(manager.apply([])).rejects.toThrow(InvalidKvRequestError);
+    await expect(manager.apply([{ op: 'set', key: 'a', value: 'x', sourceIndex: 3 }])).rejects.toThrow(/needs source_key/);
+    await expect(manager.apply([{ op: 'set', key: 'a', value: 'x', sourceKey: 'b' }])).rejects.toThrow(/either value or source_key/);
+  });
+
+  test('Should check the source key a copy was diffed from', async () => {
+    const api = createApi([pair('config/staging/timeout', '45s', 30), pair('config/prod/timeout', '10s', 21)]);
+    const manager = createManager(api);
+    const changes = [
+      { op: 'set' as const, key: 'config/prod/timeout', sourceKey: 'config/staging/timeout', sourceIndex: 12, cas: 21 }
+    ];
+
+    const dryRun = await manager.apply(changes, { dryRun: true });
+    expect(dryRun.errors).toEqual([
+      { key: 'config/prod/timeout', message: 'The source key config/staging/timeout is at modify index 30, not 12' }
+    ]);
+
+    const rollback = JSON.stringify({ Results: null, Errors: [{ OpIndex: 0, What: 'failed to check index: index is stale' }] });
+    api.put.mockRejectedValueOnce(new ConsulApiError('Conflict', 409, rollback));
+    await expect(manager.apply(changes)).resolves.toMatchObject({
+      committed: false,
+      errors: [{ key: 'config/prod/timeout', message: 'failed to check index: index is stale' }]
+    });
+    expect(api.put.mock.calls[0][1].body.map((op: any) => [op.KV.Verb, op.KV.Key, op.KV.Index])).toEqual([
+      ['check-index', 'config/staging/timeout', 12],
+      ['cas', 'config/prod/timeout', 21]
+    ]);
+  });
+});
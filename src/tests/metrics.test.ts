@@ -0,0 +1,161 @@
+/**
+ * Tests for the metrics providers and how ConsulClient applies their data
+ * to service connections.
+ */
+
+import {
+  NoMetricsProvider,
+  PrometheusMetricsProvider,
+  createMetricsProvider,
+  renderQuery
+} from '../resources/metrics.js';
+import { ConsulClient } from '../resources/consul-client.js';
+
+function prometheusResponse(value: string | null) {
+  return {
+    ok: true,
+    status: 200,
+    json: async () => ({
+      status: 'success',
+      data: {
+        resultType: 'vector',
+        result: value === null ? [] : [{ metric: {}, value: [1700000000, value] }]
+      }
+    })
+  };
+}
+
+describe('Metrics providers', () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test('Should report no data when no provider is configured', async () => {
+    const metrics = await new NoMetricsProvider().getConnectionMetrics();
+    expect(metrics).toEqual({
+      source: 'none',
+      window: null,
+      latency: null,
+      errorRate: null,
+      requestVolume: null
+    });
+  });
+
+  test('Should escape label values when rendering queries', () => {
+    const query = renderQuery('x{a="{{source}}"}[{{window}}]', { source: 'we"b', window: '1m' });
+    expect(query).toBe('x{a="we\\"b"}[1m]');
+  });
+
+  test('Should query Prometheus for connection metrics', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(prometheusResponse('123.6'))
+      .mockResolvedValueOnce(prometheusResponse('0.02'))
+      .mockResolvedValueOnce(prometheusResponse(null));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const provider = new PrometheusMetricsProvider({ url: 'http://prometheus:9090/', window: '1m' });
+    const metrics = await provider.getConnectionMetrics('web', 'api', 'dc2');
+
+    expect(metrics).toEqual({
+      source: 'prometheus',
+      window: '1m',
+      latency: 124,
+      errorRate: 0.02,
+      requestVolume: null
+    });
+
+    const firstUrl = decodeURIComponent(fetchMock.mock.calls[0][0]);
+    expect(firstUrl.startsWith('http://prometheus:9090/api/v1/query?query=')).toBe(true);
+    expect(firstUrl).toContain('local_cluster="web",consul_destination_service="api",datacenter=~"dc2|"');
+    expect(firstUrl).toContain('[1m]');
+  });
+
+  test('Should treat Prometheus failures as missing data', async () => {
+    globalThis.fetch = jest.fn().mockRejectedValue(new Error('ECONNREFUSED')) as unknown as typeof fetch;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const provider = new PrometheusMetricsProvider({ url: 'http://prometheus:9090' });
+    const metrics = await provider.getConnectionMetrics('web', 'api');
+
+    expect(metrics.latency).toBeNull();
+    expect(metrics.errorRate).toBeNull();
+    expect(metrics.requestVolume).toBeNull();
+  });
+
+  test('Should report unavailable service metrics as null', async () => {
+    const sample = await new NoMetricsProvider().getServiceMetrics();
+    expect(sample.source).toBe('none');
+    expect(Object.values(sample.values).every(value => value === null)).toBe(true);
+  });
+
+  test('Should apply per-service query overrides', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(prometheusResponse('0.5'));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    const provider = new PrometheusMetricsProvider({
+      url: 'http://prometheus:9090',
+      queries: {
+        service: { cpuUsage: 'cpu_by_name{job="{{service}}"}' },
+        services: { 'api-1': { cpuUsage: 'cpu_by_id{id="{{service_id}}"}' } }
+      }
+    });
+
+    const byName = await provider.getServiceMetrics('api');
+    expect(byName.values.cpuUsage).toBe(0.5);
+    expect(byName.window).toBe('5m');
+    expect(fetchMock.mock.calls.map(call => decodeURIComponent(call[0])))
+      .toContainEqual(expect.stringContaining('cpu_by_name{job="api"}'));
+
+    fetchMock.mockClear();
+    await provider.getServiceMetrics('api', 'api-1');
+    expect(fetchMock.mock.calls.map(call => decodeURIComponent(call[0])))
+      .toContainEqual(expect.stringContaining('cpu_by_id{id="api-1"}'));
+  });
+
+  test('Should select the provider from configuration', () => {
+    expect(createMetricsProvider({}).source).toBe('none');
+    expect(createMetricsProvider({ prometheusUrl: 'http://prometheus:9090' }).source).toBe('prometheus');
+    expect(createMetricsProvider({ provider: 'none', prometheusUrl: 'http://prometheus:9090' }).source).toBe('none');
+    expect(() => createMetricsProvider({ provider: 'prometheus' })).toThrow('PROMETHEUS_URL');
+  });
+});
+
+describe('Connection metrics in ConsulClient', () => {
+  function createClient(errorRate: number | null) {
+    const api = {
+      get: jest.fn().mockResolvedValue({
+        data: [{ ID: '1', SourceName: 'web', DestinationName: 'api', Action: 'allow' }],
+        index: '10'
+      })
+    };
+    const provider = {
+      source: 'prometheus' as const,
+      getConnectionMetrics: jest.fn().mockResolvedValue({
+        source: 'prometheus',
+        window: '5m',
+        latency: 80,
+        errorRate,
+        requestVolume: 12
+      }),
+      getServiceMetrics: jest.fn()
+    };
+    return new ConsulClient({} as any, { api: api as any, metricsProvider: provider });
+  }
+
+  test('Should leave status unchanged without a measured error rate', async () => {
+    const [connection] = await createClient(null).getServiceConnections();
+    expect(connection.status).toBe('allowed');
+    expect(connection.errorRate).toBeUndefined();
+    expect(connection.latency).toBe(80);
+    expect(connection.metricsSource).toBe('prometheus');
+  });
+
+  test('Should mark connections degraded on a measured error rate', async () => {
+    const [connection] = await createClient(0.08).getServiceConnections();
+    expect(connection.status).toBe('degraded');
+    expect(connection.errorMessage).toContain('8.0%');
+    expect(connection.metricsWindow).toBe('5m');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for node listings, node details and node-level health rollups
+ */
+
+import { ConsulClient } from '../resources/consul-client.js';
+import { HealthManager } from '../resources/health.js';
+import { NodeManager } from '../resources/nodes.js';
+
+const serfHealth = (node: string, status = 'passing') => ({
+  Node: node,
+  CheckID: 'serfHealth',
+  Name: 'Serf Health Status',
+  Status: status,
+  Output: status === 'passing' ? 'Agent alive and reachable' : 'Agent not live or unreachable',
+  ServiceID: '',
+  ServiceName: ''
+});
+
+const serviceCheck = (node: string, serviceId: string, serviceName: string) => ({
+  Node: node,
+  CheckID: `service:${serviceId}`,
+  Name: `Service '${serviceName}' check`,
+  Status: 'passing',
+  Output: 'HTTP GET http://localhost/health: 200 OK',
+  ServiceID: serviceId,
+  ServiceName: serviceName
+});
+
+const catalogService = (node: string, id: string, name: string) => ({
+  Node: node,
+  Address: node === 'node-1' ? '10.0.0.1' : '10.0.0.2',
+  ServiceID: id,
+  ServiceName: name,
+  ServiceAddress: '',
+  ServicePort: 8080,
+  ServiceTags: null,
+  ServiceMeta: null
+});
+
+const catalogNode = (node: string, address: string) => ({
+  ID: `${node}-id`,
+  Node: node,
+  Address: address,
+  Datacenter: 'dc1',
+  TaggedAddresses: { lan: address, wan: '203.0.113.1' },
+  Meta: { 'consul-network-segment': '' }
+});
+
+// node-2 is down: its Serf check is critical while its service checks
+// still report their last, passing, state
+function createMockConsul() {
+  const instances: Record<string, unknown[]> = {
+    api: [catalogService('node-1', 'api-1', 'api'), catalogService('node-2', 'api-2', 'api')],
+    db: [catalogService('node-2', 'db-1', 'db')],
+    cache: [catalogService('node-2', 'cache-1', 'cache')]
+  };
+  const nodes = [catalogNode('node-1', '10.0.0.1'), catalogNode('node-2', '10.0.0.2')];
+  const checks = [
+    serfHealth('node-1'),
+    serfHealth('node-2', 'critical'),
+    serviceCheck('node-1', 'api-1', 'api'),
+    serviceCheck('node-2', 'api-2', 'api'),
+    serviceCheck('node-2', 'db-1', 'db'),
+    serviceCheck('node-2', 'cache-1', 'cache')
+  ];
+
+  return {
+    agent: {
+      self: jest.fn().mockResolvedValue({ Config: { Datacenter: 'dc1' } }),
+      members: jest.fn().mockResolvedValue([
+        { Name: 'node-1', Addr: '10.0.0.1', Port: 8301, Tags: { dc: 'dc1', role: 'node' }, Status: 1 },
+        { Name: 'node-2', Addr: '10.0.0.2', Port: 8301, Tags: { dc: 'dc1', role: 'node' }, Status: 4 }
+      ])
+    },
+    catalog: {
+      service: {
+        list: jest.fn().mockResolvedValue({ consul: [], api: [], db: [], cache: [] }),
+        nodes: jest.fn().mockImplementation(async (opts: any) => instances[opts.service] || [])
+      },
+      node: {
+        list: jest.fn().mockResolvedValue(nodes),
+        services: jest.fn().mockImplementation(async (opts: any) => {
+          const node = nodes.find(candidate => candidate.Node === opts.node);
+          return node ? { Node: node, Services: {} } : null;
+        })
+      }
+    },
+    health: {
+      state: jest.fn().mockImplementation(async (opts: any) =>
+        opts.state === 'any' ? checks : checks.filter(check => check.Status === opts.state)
+      )
+    }
+  };
+}
+
+describe('Nodes', () => {
+  test('list nodes with their Serf status and failing instances', async () => {
+    const nodes = await new NodeManager(new ConsulClient(createMockConsul() as any)).getNodes();
+
+    expect(nodes).toEqual([
+      {
+        id: 'node-1-id', name: 'node-1', address: '10.0.0.1', datacenter: 'dc1', partition: undefined,
+        status: 'passing', serfStatus: 'alive', serviceCount: 1, failingServiceCount: 0
+      },
+      {
+        id: 'node-2-id', name: 'node-2', address: '10.0.0.2', datacenter: 'dc1', partition: undefined,
+        status: 'critical', serfStatus: 'failed', serviceCount: 3, failingServiceCount: 3
+      }
+    ]);
+  });
+
+  test('get a node with its checks, membership and instances', async () => {
+    const manager = new NodeManager(new ConsulClient(createMockConsul() as any));
+    const node = await manager.getNode('node-2');
+
+    expect(node).toMatchObject({
+      name: 'node-2',
+      taggedAddresses: { lan: '10.0.0.2', wan: '203.0.113.1' },
+      health: { status: 'critical' },
+      serf: { status: 'failed', port: 8301, role: 'node' }
+    });
+    expect(node!.health.checks.map(check => check.id)).toEqual(['serfHealth']);
+    expect(node!.services.map(service => [service.id, service.status, service.checks.map(check => check.id)])).toEqual([
+      ['api-2', 'critical', ['service:api-2']],
+      ['db-1', 'critical', ['service:db-1']],
+      ['cache-1', 'critical', ['service:cache-1']]
+    ]);
+    await expect(manager.getNode('node-9')).resolves.toBeNull();
+  });
+
+  test('nodes in other datacenters have no Serf status', async () => {
+    const consul = createMockConsul();
+    consul.agent.members.mockResolvedValue([
+      { Name: 'node-1', Addr: '10.0.0.1', Port: 8301, Tags: { dc: 'dc2', role: 'node' }, Status: 1 }
+    ]);
+    const nodes = await new NodeManager(new ConsulClient(consul as any)).getNodes();
+
+    expect(nodes.map(node => node.serfStatus)).toEqual(['unknown', 'unknown']);
+  });
+
+  test('health summary rolls failing services up to their node', async () => {
+    const summary = await new HealthManager(new ConsulClient(createMockConsul() as any)).getHealthSummary();
+
+    expect(summary.failingChecksByService).toEqual([]);
+    expect(summary.failingChecksByNode).toEqual([{
+      node: 'node-2',
+      status: 'critical',
+      failingChecks: 1,
+      failingServices: ['api', 'db', 'cache'],
+      nodeFailure: true
+    }]);
+  });
+});
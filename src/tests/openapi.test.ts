@@ -0,0 +1,87 @@
+/**
+ * Tests for the REST API routes and the generated OpenAPI document
+ */
+
+import { buildApiRoutes } from '../server/routes.js';
+import { buildOpenApiDocument } from '../server/openapi.js';
+
+describe('OpenAPI document', () => {
+  const routes = buildApiRoutes();
+  const document: any = buildOpenApiDocument(routes, {
+    title: 'Consul MCP Server REST API',
+    version: '0.1.0',
+    basePath: '/api/v1'
+  });
+
+  test('Should describe every route with OpenAPI path templates', () => {
+    expect(document.servers).toEqual([{ url: '/api/v1' }]);
+    expect(Object.keys(document.paths)).toEqual(expect.arrayContaining([
+      '/datacenters',
+      '/services',
+      '/services/{service_name}/analysis',
+      '/services/{service_name}/metrics',
+      '/health-checks',
+      '/connections',
+      '/diagram',
+      '/diagram.svg',
+      '/blast-radius',
+      '/mesh/topology',
+      '/nodes',
+      '/nodes/{node}',
+      '/mesh/analysis',
+      '/services/{service_name}/discovery-chain',
+      '/config-entries/{kind}',
+      '/config-entries/{kind}/{name}'
+    ]));
+
+    const operationIds = Object.values(document.paths)
+      .flatMap((operations: any) => Object.values(operations).map((op: any) => op.operationId));
+    expect(new Set(operationIds).size).toBe(routes.length);
+  });
+
+  test('Should derive parameters from the protocol schemas', () => {
+    const metrics = document.paths['/services/{service_name}/metrics'].get;
+
+    expect(metrics.parameters).toEqual([
+      { name: 'service_name', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'service_id', in: 'query', required: false, schema: { type: 'string' } },
+      expect.objectContaining({ name: 'datacenter', in: 'query', required: false, schema: { type: 'string' } }),
+      expect.objectContaining({ name: 'namespace', in: 'query', required: false }),
+      expect.objectContaining({ name: 'partition', in: 'query', required: false })
+    ]);
+    expect(document.paths['/health-checks'].get.parameters).toEqual([
+      { name: 'failing_only', in: 'query', required: false, schema: { type: 'boolean' } },
+      expect.objectContaining({ name: 'datacenter', in: 'query' }),
+      expect.objectContaining({ name: 'namespace', in: 'query' }),
+      expect.objectContaining({ name: 'partition', in: 'query' })
+    ]);
+  });
+
+  test('Should derive response bodies from the protocol schemas', () => {
+    const schema = document.paths['/services/{service_name}/metrics'].get
+      .responses['200'].content['application/json'].schema;
+
+    // One sample, or one per datacenter for "*"
+    const [single, perDatacenter] = schema.properties.metrics.anyOf;
+    expect(schema.required).toEqual(['metrics']);
+    expect(single.properties.window).toEqual({ type: 'string', nullable: true });
+    expect(perDatacenter.type).toBe('array');
+    expect(document.paths['/health-checks'].get.responses['500'].content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/ApiError' });
+    expect(document.paths['/diagram.svg'].get.responses['200'].content)
+      .toEqual({ 'image/svg+xml': { schema: { type: 'string', description: 'SVG document' } } });
+  });
+
+  test('Should only describe write routes in read-write mode', () => {
+    const readWrite: any = buildOpenApiDocument(buildApiRoutes({ allowWrites: true }), {
+      title: 'Consul MCP Server REST API',
+      version: '0.1.0',
+      basePath: '/api/v1'
+    });
+
+    expect(document.paths['/intentions/check'].get).toBeDefined();
+    expect(document.paths['/intentions']).toBeUndefined();
+    expect(Object.keys(readWrite.paths['/intentions'])).toEqual(['put', 'delete']);
+    expect(readWrite.paths['/intentions'].put.requestBody.required).toBe(true);
+  });
+});
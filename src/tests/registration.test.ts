@@ -0,0 +1,139 @@
+/**
+ * Tests for service registration against a fake Consul agent and catalog
+ */
+
+import { ConsulClient } from '../resources/consul-client.js';
+import { ConsulApiError } from '../resources/consul-api.js';
+import { InvalidRegistrationError, RegistrationManager } from '../resources/registration.js';
+
+const serfHealth = { Node: 'node-1', CheckID: 'serfHealth', Name: 'Serf Health Status', Status: 'passing', Output: '', ServiceID: '', ServiceName: '' };
+
+/**
+ * Keeps registered services and checks in memory, like the agent endpoints would
+ */
+function createApi() {
+  const services = new Map<string, any>();
+  const checks = new Map<string, any>([['serfHealth', serfHealth]]);
+
+  const api = {
+    services,
+    checks,
+    get: jest.fn().mockImplementation(async (path: string) => {
+      if (path === '/agent/self') return { data: { Config: { Datacenter: 'dc1', NodeName: 'node-1' } }, index: null };
+      if (path === '/agent/checks') return { data: Object.fromEntries(checks), index: null };
+      if (path.startsWith('/agent/service/')) {
+        const service = services.get(decodeURIComponent(path.slice('/agent/service/'.length)));
+        if (!service) throw new ConsulApiError('unknown service ID', 404);
+        return { data: service, index: null };
+      }
+      if (path === '/catalog/node-services/ext-1') {
+        return { data: { Node: { Node: 'ext-1', Address: '10.0.0.9' }, Services: [...services.values()] }, index: null };
+      }
+      if (path === '/health/node/ext-1') return { data: [...checks.values()].filter(check => check.Node === 'ext-1'), index: null };
+      throw new ConsulApiError('Not found', 404);
+    }),
+    put: jest.fn().mockImplementation(async (path: string, options: any) => {
+      if (path === '/agent/service/register') {
+        services.set(options.body.ID || options.body.Service, options.body);
+      } else if (path.startsWith('/agent/service/maintenance/')) {
+        const id = path.slice('/agent/service/maintenance/'.length);
+        if (options.query.enable) {
+          checks.set(`_service_maintenance:${id}`, {
+            Node: 'node-1', CheckID: `_service_maintenance:${id}`, Name: 'Service Maintenance Mode',
+            Status: 'critical', Output: '', ServiceID: id, ServiceName: ''
+          });
+        } else {
+          checks.delete(`_service_maintenance:${id}`);
+        }
+      } else if (path === '/catalog/register' && options.body.Check) {
+        checks.set(options.body.Check.CheckID, { Output: '', ServiceName: '', ...options.body.Check });
+      } else if (path === '/catalog/deregister' && options.body.CheckID) {
+        checks.delete(options.body.CheckID);
+      }
+      return { data: true, index: null };
+    })
+  };
+  return api;
+}
+
+function createManager(api: ReturnType<typeof createApi>) {
+  return new RegistrationManager(new ConsulClient({} as any, { api: api as any, datacenter: 'dc1' }));
+}
+
+describe('RegistrationManager', () => {
+  test('Should register with the agent and return the state before and after', async () => {
+    const api = createApi();
+
+    const change = await createManager(api).register({
+      target: 'agent',
+      service: { name: 'analytics', id: 'analytics-1', address: 'service-analytics', port: 9090,
+        check: { http: 'http://service-analytics:9090/health', interval: '10s' } }
+    });
+
+    expect(change.before).toBeNull();
+    expect(change.after).toMatchObject({
+      id: 'analytics-1', name: 'analytics', address: 'service-analytics', port: '9090', node: 'node-1', datacenter: 'dc1',
+      health: { status: 'passing', maintenance: false }
+    });
+    expect(api.put.mock.calls[0][1].body).toMatchObject({
+      ID: 'analytics-1',
+      Service: 'analytics',
+      Check: { HTTP: 'http://service-analytics:9090/health', Interval: '10s' }
+    });
+  });
+
+  test('Should report the agent node of an instance without checks', async () => {
+    const api = createApi();
+    api.checks.clear();
+
+    const change = await createManager(api).register({
+      target: 'agent',
+      service: { name: 'analytics', id: 'analytics-1', port: 9090 }
+    });
+
+    expect(change.after).toMatchObject({ id: 'analytics-1', node: 'node-1', health: { status: 'passing', checks: [] } });
+  });
+
+  test('Should drain an agent instance with maintenance mode', async () => {
+    const api = createApi();
+    api.services.set('web-1', { ID: 'web-1', Service: 'web', Address: '10.0.0.1', Port: 80, Tags: null, Meta: null });
+    const manager = createManager(api);
+
+    const drained = await manager.setMaintenance({ target: 'agent', serviceId: 'web-1' }, true, 'Incident 42');
+    expect(drained.before?.health).toMatchObject({ status: 'passing', maintenance: false });
+    expect(drained.after?.health).toMatchObject({ status: 'critical', maintenance: true });
+    expect(api.put.mock.calls[0][1].query).toMatchObject({ enable: true, reason: 'Incident 42' });
+
+    const restored = await manager.setMaintenance({ target: 'agent', serviceId: 'web-1' }, false);
+    expect(restored.after?.health.maintenance).toBe(false);
+  });
+
+  test('Should set maintenance on catalog instances with a maintenance check', async () => {
+    const api = createApi();
+    api.services.set('billing-1', { ID: 'billing-1', Service: 'billing', Address: '', Port: 443, Tags: [], Meta: {} });
+
+    const change = await createManager(api).setMaintenance({ target: 'catalog', serviceId: 'billing-1', node: 'ext-1' }, true);
+
+    expect(change.after?.health).toMatchObject({ status: 'critical', maintenance: true });
+    const register = api.put.mock.calls.find(([path]) => path === '/catalog/register')!;
+    expect(register[1].body).toMatchObject({
+      Node: 'ext-1',
+      Address: '10.0.0.9',
+      SkipNodeUpdate: true,
+      Check: { CheckID: '_service_maintenance:billing-1', Status: 'critical', ServiceID: 'billing-1' }
+    });
+  });
+
+  test('Should reject incomplete or impossible changes', async () => {
+    const api = createApi();
+    const manager = createManager(api);
+
+    await expect(manager.deregister({ target: 'agent', serviceId: 'missing-1' })).rejects.toThrow(InvalidRegistrationError);
+    await expect(manager.deregister({ target: 'catalog', serviceId: 'web-1' })).rejects.toThrow(/node/);
+    await expect(manager.register({
+      target: 'catalog', node: 'ext-1', nodeAddress: '10.0.0.9',
+      service: { name: 'billing', check: { ttl: '30s' } }
+    })).rejects.toThrow(/cannot define a check/);
+    expect(api.put).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for rendering service diagrams as SVG images
+ */
+
+import { ServiceConnection, TrafficPolicy } from '../resources/consul-client.js';
+import { DiagramGenerator } from '../tools/diagram-generator.js';
+import { renderServiceImage, renderSvg } from '../tools/svg-renderer.js';
+import { buildServiceGraph } from '../tools/service-graph.js';
+import { serviceInstance } from './fixtures.js';
+
+const services = [
+  serviceInstance('web'),
+  serviceInstance('api', { health: { status: 'critical', checks: [] } })
+];
+
+const connections: ServiceConnection[] = [
+  { source: 'web', destination: 'api', status: 'failing', protocol: 'http', usesServiceMesh: true, latency: 42 }
+];
+
+const traffic: TrafficPolicy[] = [{
+  service: 'api',
+  datacenter: 'dc1',
+  subsets: ['v1', 'v2'],
+  splits: [
+    { weight: 80, service: 'api', subset: 'v1', datacenter: 'dc1' },
+    { weight: 20, service: 'api', subset: 'v2', datacenter: 'dc1' }
+  ],
+  failover: []
+}];
+
+const graph = buildServiceGraph(services, connections, { includeHealth: true, includeMetrics: true }, traffic);
+
+// Top-left corner of every box with the given label
+function boxAt(svg: string, label: string): { x: number; y: number } {
+  const match = svg.match(new RegExp(`<rect x="([\\d.]+)" y="([\\d.]+)"[^>]*/><text[^>]*>${label}</text>`));
+  if (!match) throw new Error(`No box labelled ${label}`);
+  return { x: Number(match[1]), y: Number(match[2]) };
+}
+
+describe('SVG diagrams', () => {
+  test('draw nodes inside their containers with the diagram colors', async () => {
+    const svg = await renderSvg(graph);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('Consul Service Mesh');
+    expect(svg).toContain('fill="#ffb3ba" stroke="#ff0000"');
+    expect(svg).toContain('>Critical Service</text>');
+
+    const mesh = boxAt(svg, 'Consul Service Mesh');
+    const api = boxAt(svg, 'api');
+    const subset = boxAt(svg, 'v1 80%');
+    expect(api.x).toBeGreaterThan(mesh.x);
+    expect(api.y).toBeGreaterThan(mesh.y);
+    expect(subset.y).toBeGreaterThan(api.y);
+  });
+
+  test('draw edges between the boxes they connect', async () => {
+    const svg = await renderSvg(graph);
+    const path = svg.match(/<path d="M([\d.]+) ([\d.]+)[^"]* L([\d.]+) ([\d.]+)" [^>]*stroke="#ff0000"/);
+
+    expect(path).not.toBeNull();
+    expect(svg).toContain('stroke-dasharray="5 5" marker-end="url(#arrow-ff0000)"');
+    expect(Number(path![2])).toBeGreaterThanOrEqual(boxAt(svg, 'web').y);
+    expect(Number(path![4])).toBeLessThanOrEqual(boxAt(svg, 'v1 80%').y);
+    expect(svg).toContain('>42ms</text>');
+  });
+
+  test('escape labels and return SVG as an image', async () => {
+    const image = await renderServiceImage(
+      buildServiceGraph([serviceInstance('a&b')], [], { includeHealth: false, includeMetrics: false }),
+      'svg'
+    );
+
+    expect(image.mimeType).toBe('image/svg+xml');
+    expect(image.data.toString()).toContain('>a&amp;b</text>');
+  });
+
+  test('the generator renders the same graph as the text formats', async () => {
+    const image = await new DiagramGenerator().generateServiceImage(
+      services,
+      connections,
+      { includeHealth: true, includeMetrics: true },
+      'svg',
+      traffic
+    );
+
+    expect(image.data.toString()).toBe(await renderSvg(graph));
+  });
+});
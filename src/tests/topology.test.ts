@@ -0,0 +1,116 @@
+/**
+ * Tests for the graph-theoretic analysis of the mesh topology
+ */
+
+import { DependencyGraph } from '../resources/dependency-graph.js';
+import { ServiceAnalyzer } from '../tools/status-analyzer.js';
+import { serviceConnection as connection, serviceInstance } from './fixtures.js';
+
+// gateway -> web -> api -> db and cache, admin -> api, batch is not connected
+const connections = [
+  connection('gateway', 'web'),
+  connection('web', 'api'),
+  connection('api', 'db'),
+  connection('api', 'cache'),
+  connection('admin', 'api')
+];
+
+const names = ['gateway', 'web', 'api', 'db', 'cache', 'admin', 'batch'];
+
+const analyzer = new ServiceAnalyzer({
+  getServices: async () => names.map(name => serviceInstance(name)),
+  getServiceConnections: async () => connections,
+  getAllHealthChecks: async () => [],
+  getDatacenter: async () => 'dc1'
+} as any);
+
+describe('Dependency graph topology', () => {
+  const graph = new DependencyGraph(connections, names);
+
+  test('betweenness counts the shortest chains through a service', () => {
+    const betweenness = graph.betweenness();
+
+    // 6 of the 30 ordered pairs of other services chain through api, 3 through web
+    expect(betweenness.get('api')).toBeCloseTo(0.2);
+    expect(betweenness.get('web')).toBeCloseTo(0.1);
+    expect(betweenness.get('db')).toBe(0);
+  });
+
+  test('articulation points split the mesh', () => {
+    expect(graph.articulationPoints()).toEqual(['web', 'api']);
+    expect(new DependencyGraph([connection('a', 'b'), connection('b', 'c'), connection('c', 'a')]).articulationPoints())
+      .toEqual([]);
+  });
+
+  test('longest chains count a cycle as one level', () => {
+    expect(graph.longestChains(5)).toEqual([
+      { services: ['gateway', 'web', 'api', 'db'], depth: 4 },
+      { services: ['admin', 'api', 'db'], depth: 3 }
+    ]);
+    expect(graph.longestChains(1)).toHaveLength(1);
+
+    const cyclic = new DependencyGraph([connection('a', 'b'), connection('b', 'a'), connection('b', 'c')]);
+    expect(cyclic.longestChains(5)).toEqual([{ services: ['a', 'b', 'c'], depth: 2 }]);
+  });
+});
+
+describe('Topology analysis', () => {
+  test('reports findings with their definitions', async () => {
+    const topology = await analyzer.analyzeTopology();
+
+    expect(topology).toMatchObject({
+      datacenter: 'dc1',
+      serviceCount: 7,
+      connectionCount: 5,
+      cycles: [],
+      articulationPoints: ['web', 'api'],
+      fanInOutliers: [],
+      isolatedServices: ['batch']
+    });
+    expect(topology.centrality).toEqual([
+      { service: 'api', betweenness: expect.closeTo(0.2), fanIn: 2, fanOut: 2 },
+      { service: 'web', betweenness: expect.closeTo(0.1), fanIn: 1, fanOut: 1 }
+    ]);
+  });
+
+  test('flags services with unusually high fan-in', async () => {
+    const hub = ['a', 'b', 'c', 'd', 'e'].map(name => connection(name, 'db'));
+    const topology = await new ServiceAnalyzer({
+      getServices: async () => [],
+      getServiceConnections: async () => [...hub, connection('f', 'g')],
+      getDatacenter: async () => 'dc1'
+    } as any).analyzeTopology();
+
+    expect(topology.fanInOutliers).toEqual([{ service: 'db', count: 5 }]);
+    expect(topology.fanOutOutliers).toEqual([]);
+  });
+
+  test('ignores deny and wildcard intentions', async () => {
+    const topology = await new ServiceAnalyzer({
+      getServices: async () => names.map(name => serviceInstance(name)),
+      getServiceConnections: async () => [
+        ...connections,
+        connection('batch', 'db', { status: 'blocked', intentionAction: 'deny' }),
+        connection('*', '*', { status: 'blocked', intentionAction: 'deny' })
+      ],
+      getDatacenter: async () => 'dc1'
+    } as any).analyzeTopology();
+
+    expect(topology).toMatchObject({
+      serviceCount: 7,
+      connectionCount: 5,
+      articulationPoints: ['web', 'api'],
+      isolatedServices: ['batch']
+    });
+    expect(topology.centrality.map(entry => entry.service)).toEqual(['api', 'web']);
+  });
+
+  test('mesh analysis uses centrality and finds isolated services', async () => {
+    const analysis = await analyzer.analyzeServiceMesh();
+
+    expect(analysis.issues).toContain('1 services appear to be isolated: batch');
+    expect(analysis.recommendations).toContain(
+      'Critical path services on the most call chains: api, web. Consider monitoring these closely.'
+    );
+  });
+});
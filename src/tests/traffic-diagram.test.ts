@@ -0,0 +1,88 @@
+/**
+ * Tests for reading splitter and resolver traffic policies and drawing them
+ * in service diagrams
+ */
+
+import { ConsulClient, ServiceConnection } from '../resources/consul-client.js';
+import { DiagramGenerator } from '../tools/diagram-generator.js';
+import { serviceInstance } from './fixtures.js';
+
+// api sends 90% of requests to v1 and 10% to v2; v1 fails over to dc2 and
+// everything else to api-fallback
+const configEntries: Record<string, unknown[]> = {
+  '/config/service-splitter': [{
+    Kind: 'service-splitter',
+    Name: 'api',
+    Splits: [
+      { Weight: 90, ServiceSubset: 'v1' },
+      { Weight: 10, ServiceSubset: 'v2' }
+    ]
+  }],
+  '/config/service-resolver': [{
+    Kind: 'service-resolver',
+    Name: 'api',
+    DefaultSubset: 'v1',
+    Subsets: { v1: { Filter: 'Service.Meta.version == v1' }, v2: { Filter: 'Service.Meta.version == v2' } },
+    Failover: {
+      v1: { Datacenters: ['dc2'] },
+      '*': { Service: 'api-fallback' }
+    }
+  }]
+};
+
+async function readPolicies() {
+  const api = { get: jest.fn(async (path: string) => ({ data: configEntries[path] || [], index: null })) };
+  const client = new ConsulClient({} as any, { api: api as any, datacenter: 'dc1' });
+  return client.getTrafficPolicies();
+}
+
+describe('Traffic policies', () => {
+  test('combine splitters and resolvers per service', async () => {
+    const [policy] = await readPolicies();
+
+    expect(policy).toMatchObject({
+      service: 'api',
+      datacenter: 'dc1',
+      subsets: ['v1', 'v2'],
+      defaultSubset: 'v1',
+      splits: [
+        { weight: 90, service: 'api', subset: 'v1', datacenter: 'dc1' },
+        { weight: 10, service: 'api', subset: 'v2', datacenter: 'dc1' }
+      ],
+      failover: [
+        { subset: 'v1', targets: [{ service: 'api', subset: 'v1', datacenter: 'dc2' }] },
+        { subset: undefined, targets: [{ service: 'api-fallback', datacenter: 'dc1' }] }
+      ]
+    });
+  });
+
+  test('draw subsets inside their service with split weights and failover edges', async () => {
+    const traffic = await readPolicies();
+    const connections: ServiceConnection[] = [
+      { source: 'web', destination: 'api', status: 'healthy', protocol: 'http', usesServiceMesh: true }
+    ];
+
+    const diagram = await new DiagramGenerator().generateServiceDiagram(
+      [
+        serviceInstance('web'),
+        serviceInstance('api'),
+        serviceInstance('api', { health: { status: 'critical', checks: [] } }),
+        serviceInstance('api-fallback')
+      ],
+      connections,
+      { includeHealth: true, includeMetrics: false },
+      traffic
+    );
+
+    expect(diagram).toContain('subgraph api ["api"]');
+    expect(diagram).toContain('api___v1["v1 (default) 90%"]');
+    expect(diagram).toContain('api___v2["v2 10%"]');
+    expect(diagram).toContain('class api critical');
+    expect(diagram.match(/subgraph api /g)).toHaveLength(1);
+    expect(diagram).toContain('web --> api');
+    expect(diagram).toContain('dc2_api___v1["v1.api (dc2)"]:::external');
+    expect(diagram).toContain('api___v1 -.->|"failover dc2"| dc2_api___v1');
+    expect(diagram).toContain('api -.->|"failover"| api_fallback');
+    expect(diagram).not.toContain('api_fallback["api-fallback"]:::external');
+  });
+});
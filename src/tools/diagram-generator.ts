@@ -1,134 +1,147 @@
-import { ConsulService, ServiceConnection } from '../resources/consul-client.js';
+import {
+  ConsulService,
+  DiscoveryChain,
+  DiscoveryChainNode,
+  ServiceConnection,
+  TrafficPolicy
+} from '../resources/consul-client.js';
+import { DiagramFormat, renderServiceGraph } from './diagram-renderers.js';
+import { buildServiceGraph, formatNodeId, formatServiceLabel, GraphOptions } from './service-graph.js';
+import { DiagramImage, DiagramImageType, renderServiceImage } from './svg-renderer.js';
 
-export interface DiagramOptions {
-  includeHealth: boolean;
-  includeMetrics: boolean;
+// Health, metrics and focus options of the graph, plus the format to draw it in
+export interface DiagramOptions extends GraphOptions {
+  format?: DiagramFormat;   // Defaults to "mermaid"
 }
 
 /**
- * DiagramGenerator creates Mermaid diagrams of service relationships
+ * DiagramGenerator creates diagrams of service relationships
  */
 export class DiagramGenerator {
   /**
-   * Generates a Mermaid diagram of service relationships
+   * Generates a diagram of service relationships. With traffic policies,
+   * services with subsets contain a node per subset, and edges show split
+   * weights, redirects and failover targets. A focus draws part of the mesh.
    * @param services List of services
    * @param connections List of service connections
    * @param options Diagram generation options
-   * @returns Mermaid diagram as a string
+   * @param traffic Splitter and resolver policies of the services
+   * @returns Diagram source in the requested format
    */
   async generateServiceDiagram(
     services: ConsulService[], 
     connections: ServiceConnection[],
-    options: DiagramOptions
+    options: DiagramOptions,
+    traffic: TrafficPolicy[] = []
   ): Promise<string> {
-    // Start building the Mermaid diagram
-    let diagram = 'flowchart TD\n';
+    const graph = buildServiceGraph(services, connections, options, traffic);
+    return renderServiceGraph(graph, options.format ?? 'mermaid');
+  }
+
+  /**
+   * Renders the same diagram as an SVG or PNG image
+   * @param services List of services
+   * @param connections List of service connections
+   * @param options Diagram generation options
+   * @param type Image type
+   * @param traffic Splitter and resolver policies of the services
+   * @returns Image data and its MIME type
+   */
+  async generateServiceImage(
+    services: ConsulService[],
+    connections: ServiceConnection[],
+    options: GraphOptions,
+    type: DiagramImageType,
+    traffic: TrafficPolicy[] = []
+  ): Promise<DiagramImage> {
+    const graph = buildServiceGraph(services, connections, options, traffic);
+    return renderServiceImage(graph, type);
+  }
+  
+  /**
+   * Generates a Mermaid diagram of a service's discovery chain, from the
+   * service through its routers, splitters and resolvers to the targets
+   * that receive its traffic
+   * @param chain Compiled discovery chain
+   * @returns Mermaid diagram as a string
+   */
+  generateDiscoveryChainDiagram(chain: DiscoveryChain): string {
+    let diagram = 'flowchart LR\n';
     
-    // Add a title
-    diagram += '  subgraph "Consul Service Mesh"\n';
+    const service = formatNodeId(`service ${chain.serviceName}`);
+    diagram += `  ${service}(["${this.escapeLabel(formatServiceLabel(chain.serviceName, chain))}"])\n`;
+    diagram += `  ${service} --> ${formatNodeId(chain.startNode)}\n`;
     
-    // Add nodes for each service
-    for (const service of services) {
-      const serviceId = this.formatId(service.name);
+    for (const node of chain.nodes) {
+      const nodeId = formatNodeId(node.id);
+      diagram += `  ${nodeId}${this.chainNodeShape(node)}\n`;
       
-      // Add styling based on health if requested
-      if (options.includeHealth) {
-        const healthStyle = this.getHealthStyle(service.health.status);
-        diagram += `    ${serviceId}["${service.name}"]${healthStyle}\n`;
-      } else {
-        diagram += `    ${serviceId}["${service.name}"]\n`;
+      for (const route of node.routes || []) {
+        diagram += `  ${nodeId} -->|"${this.escapeLabel(this.describeRoute(route.match))}"| ${formatNodeId(route.nextNode)}\n`;
       }
-    }
-    
-    diagram += '  end\n\n';
-    
-    // Add connections between services
-    for (const connection of connections) {
-      const sourceId = this.formatId(connection.source);
-      const targetId = this.formatId(connection.destination);
-      
-      // Style connections based on status
-      const connectionStyle = this.getConnectionStyle(connection.status);
-      
-      // Add label if metrics included
-      let label = '';
-      if (options.includeMetrics && connection.latency) {
-        label = ` |${connection.latency}ms|`;
+      for (const split of node.splits || []) {
+        diagram += `  ${nodeId} -->|"${split.weight}%"| ${formatNodeId(split.nextNode)}\n`;
       }
-      
-      diagram += `  ${sourceId} -->`;
-      if (label) {
-        diagram += label;
+      if (node.resolver) {
+        diagram += `  ${nodeId} --> ${formatNodeId(`target ${node.resolver.target}`)}\n`;
+        for (const failover of node.resolver.failoverTargets) {
+          diagram += `  ${nodeId} -.->|failover| ${formatNodeId(`target ${failover}`)}\n`;
+        }
       }
-      diagram += ` ${targetId}${connectionStyle}\n`;
     }
     
-    // Add legend
-    diagram += '\n  %% Legend\n';
-    diagram += '  subgraph "Legend"\n';
-    diagram += '    healthy["Healthy Service"]:::healthy\n';
-    diagram += '    warning["Warning Service"]:::warning\n';
-    diagram += '    critical["Critical Service"]:::critical\n';
-    diagram += '    healthy_conn["Healthy Connection"];\n';
-    diagram += '    warning_conn["Warning Connection"]:::warningConn;\n';
-    diagram += '    failing_conn["Failing Connection"]:::failingConn;\n';
-    diagram += '  end\n\n';
-    
-    // Add styles
-    diagram += '  %% Styles\n';
-    diagram += '  classDef healthy fill:#baffc9,stroke:#00ae11,color:#000\n';
-    diagram += '  classDef warning fill:#ffffba,stroke:#ffae00,color:#000\n';
-    diagram += '  classDef critical fill:#ffb3ba,stroke:#ff0000,color:#000\n';
-    diagram += '  classDef warningConn stroke:#ffae00,stroke-width:2px\n';
-    diagram += '  classDef failingConn stroke:#ff0000,stroke-width:2px,stroke-dasharray: 5 5\n';
+    for (const target of chain.targets) {
+      const name = target.serviceSubset ? `${target.serviceSubset}.${target.service}` : target.service;
+      const location = target.peer ? `peer ${target.peer}` : target.datacenter;
+      const label = `${formatServiceLabel(name, target)} (${location})`;
+      diagram += `  ${formatNodeId(`target ${target.id}`)}[["${this.escapeLabel(label)}"]]\n`;
+    }
     
     return diagram;
   }
   
   /**
-   * Formats a service name into a valid Mermaid ID
-   * @param name Service name
-   * @returns Formatted ID
+   * Gets the node declaration for a discovery chain node: routers are
+   * rhombuses, splitters hexagons and resolvers rectangles
    */
-  private formatId(name: string): string {
-    // Replace invalid characters and make sure it's a valid ID
-    return name.replace(/[^a-zA-Z0-9]/g, '_');
+  private chainNodeShape(node: DiscoveryChainNode): string {
+    const label = this.escapeLabel(`${node.type}: ${node.name}`);
+    switch (node.type) {
+      case 'router':
+        return `{"${label}"}`;
+      case 'splitter':
+        return `{{"${label}"}}`;
+      default: {
+        const timeout = node.resolver?.connectTimeout ? `<br/>connect timeout ${node.resolver.connectTimeout}` : '';
+        return `["${label}${timeout}"]`;
+      }
+    }
   }
   
   /**
-   * Gets the style class for a health status
-   * @param status Health status
-   * @returns Mermaid class definition
+   * Describes a service-router route's HTTP match for an edge label
    */
-  private getHealthStyle(status: string): string {
-    switch (status) {
-      case 'critical':
-        return ':::critical';
-      case 'warning':
-        return ':::warning';
-      case 'passing':
-        return ':::healthy';
-      default:
-        return '';
+  private describeRoute(match?: Record<string, unknown>): string {
+    if (!match) return 'default';
+    
+    const parts: string[] = [];
+    const methods = match.Methods as string[] | undefined;
+    if (methods?.length) parts.push(methods.join(','));
+    for (const field of ['PathExact', 'PathPrefix', 'PathRegex']) {
+      if (match[field]) parts.push(`${field === 'PathPrefix' ? `${match[field]}*` : match[field]}`);
     }
+    const headers = match.Header as { Name: string }[] | undefined;
+    if (headers?.length) parts.push(`headers ${headers.map(header => header.Name).join(',')}`);
+    const query = match.QueryParam as { Name: string }[] | undefined;
+    if (query?.length) parts.push(`query ${query.map(param => param.Name).join(',')}`);
+    
+    return parts.length ? parts.join(' ') : 'default';
   }
   
   /**
-   * Gets the style for a connection status
-   * @param status Connection status
-   * @returns Mermaid class definition
+   * Escapes double quotes, which end a quoted Mermaid label
    */
-  private getConnectionStyle(status: string): string {
-    switch (status) {
-      case 'degraded':
-      case 'failing':
-        return ':::failingConn';
-      case 'warning':
-        return ':::warningConn';
-      case 'blocked':
-        return ':::failingConn';
-      default:
-        return '';
-    }
+  private escapeLabel(label: string): string {
+    return label.replace(/"/g, '#quot;');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,340 @@
+import { EDGE_STYLES, GraphNode, HIGHLIGHT_STYLE, NODE_STYLES, ServiceGraph } from './service-graph.js';
+
+// Diagram formats a service graph can be rendered as; "json" is the graph
+// itself, for tools that lay it out on their own
+export const DIAGRAM_FORMATS = ['mermaid', 'dot', 'plantuml', 'd2', 'json'] as const;
+
+export type DiagramFormat = typeof DIAGRAM_FORMATS[number];
+
+/**
+ * Renders a service graph in a diagram format
+ * @param graph Graph built by buildServiceGraph
+ * @param format Diagram format
+ * @returns Diagram source
+ */
+export function renderServiceGraph(graph: ServiceGraph, format: DiagramFormat): string {
+  switch (format) {
+    case 'dot':
+      return renderDot(graph);
+    case 'plantuml':
+      return renderPlantUml(graph);
+    case 'd2':
+      return renderD2(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+    default:
+      return renderMermaid(graph);
+  }
+}
+
+/**
+ * Renders a Mermaid flowchart. Services with subsets are subgraphs.
+ */
+export function renderMermaid(graph: ServiceGraph): string {
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const children = childrenOf(graph);
+  let diagram = 'flowchart TD\n';
+
+  for (const group of graph.groups) {
+    diagram += `  subgraph "${group.label}"\n`;
+    for (const node of topLevelNodes(graph, group.id)) {
+      const subsets = children.get(node.id) || [];
+      if (subsets.length) {
+        diagram += `    subgraph ${node.id} [${label(node.label)}]\n`;
+        for (const subset of subsets) {
+          diagram += `      ${subset.id}[${label(subset.label)}]\n`;
+        }
+        diagram += '    end\n';
+        if (node.style) {
+          diagram += `    class ${node.id} ${node.style}\n`;
+        }
+      } else {
+        diagram += `    ${node.id}[${label(node.label)}]${node.style ? `:::${node.style}` : ''}\n`;
+      }
+    }
+    diagram += '  end\n\n';
+  }
+
+  for (const edge of graph.edges.filter(edge => edge.kind === 'connection')) {
+    const edgeLabel = edge.label ? ` |${edge.label}|` : '';
+    const arrow = edge.highlighted ? '==>' : '-->';
+    diagram += `  ${edge.from} ${arrow}${edgeLabel} ${edge.to}${edge.style ? `:::${edge.style}Conn` : ''}\n`;
+  }
+
+  for (const node of topLevelNodes(graph, undefined)) {
+    diagram += `  ${node.id}[${label(node.label)}]${node.style ? `:::${node.style}` : ''}\n`;
+  }
+
+  for (const edge of graph.edges) {
+    switch (edge.kind) {
+      case 'split':
+        diagram += `  ${edge.from} -->|${label(edge.label || '')}| ${edge.to}\n`;
+        break;
+      case 'redirect':
+        diagram += `  ${edge.from} ==>|redirect| ${edge.to}\n`;
+        break;
+      case 'failover':
+        diagram += `  ${edge.from} -.->|${label(edge.label || '')}| ${edge.to}\n`;
+        break;
+    }
+  }
+
+  const highlighted = graph.nodes.filter(node => node.highlighted).map(node => node.id);
+  if (highlighted.length) {
+    diagram += `  class ${highlighted.join(',')} highlighted\n`;
+  }
+
+  // Add legend
+  diagram += '\n  %% Legend\n';
+  diagram += '  subgraph "Legend"\n';
+  for (const [name, style] of Object.entries(NODE_STYLES)) {
+    diagram += `    ${name}["${style.label}"]:::${name}\n`;
+  }
+  diagram += '    healthy_conn["Healthy Connection"];\n';
+  for (const [name, style] of Object.entries(EDGE_STYLES)) {
+    diagram += `    ${name}_conn["${style.label}"]:::${name}Conn;\n`;
+  }
+  diagram += '  end\n\n';
+
+  // Add styles
+  diagram += '  %% Styles\n';
+  for (const [name, style] of Object.entries(NODE_STYLES)) {
+    diagram += `  classDef ${name} fill:${style.fill},stroke:${style.stroke}${style.dashed ? ',stroke-dasharray: 5 5' : ''},color:#000\n`;
+  }
+  for (const [name, style] of Object.entries(EDGE_STYLES)) {
+    diagram += `  classDef ${name}Conn stroke:${style.stroke},stroke-width:2px${style.dashed ? ',stroke-dasharray: 5 5' : ''}\n`;
+  }
+  if (highlighted.length) {
+    diagram += `  classDef highlighted stroke:${HIGHLIGHT_STYLE.stroke},stroke-width:4px\n`;
+  }
+
+  return diagram;
+}
+
+/**
+ * Renders a Graphviz DOT digraph. Groups and services with subsets are
+ * clusters; edges to a service with subsets end at its cluster's border.
+ */
+export function renderDot(graph: ServiceGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const children = childrenOf(graph);
+  const nodeAttributes = (node: GraphNode) => {
+    const style = node.style && NODE_STYLES[node.style];
+    return [
+      `label=${quote(node.label)}`,
+      ...(style ? [`fillcolor="${style.fill}"`] : []),
+      ...(node.highlighted ? [`color="${HIGHLIGHT_STYLE.stroke}"`, 'penwidth=3'] : style ? [`color="${style.stroke}"`] : []),
+      ...(style?.dashed ? ['style="rounded,filled,dashed"'] : [])
+    ].join(', ');
+  };
+
+  const lines = [
+    'digraph consul {',
+    '  compound=true;',
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica"];'
+  ];
+
+  for (const group of graph.groups) {
+    lines.push(`  subgraph cluster_${group.id} {`, `    label=${quote(group.label)};`);
+    for (const node of topLevelNodes(graph, group.id)) {
+      const subsets = children.get(node.id) || [];
+      if (!subsets.length) {
+        lines.push(`    ${node.id} [${nodeAttributes(node)}];`);
+        continue;
+      }
+      const style = node.style && NODE_STYLES[node.style];
+      lines.push(`    subgraph cluster_${node.id} {`, `      label=${quote(node.label)};`);
+      if (style) {
+        lines.push('      style="rounded,filled";', `      fillcolor="${style.fill}";`, `      color="${style.stroke}";`);
+      }
+      if (node.highlighted) {
+        lines.push(`      color="${HIGHLIGHT_STYLE.stroke}";`, '      penwidth=3;');
+      }
+      for (const subset of subsets) {
+        lines.push(`      ${subset.id} [${nodeAttributes(subset)}];`);
+      }
+      lines.push('    }');
+    }
+    lines.push('  }');
+  }
+
+  for (const node of topLevelNodes(graph, undefined)) {
+    lines.push(`  ${node.id} [${nodeAttributes(node)}];`);
+  }
+
+  for (const edge of graph.edges) {
+    // DOT edges join nodes, so an edge to a cluster is clipped at its border
+    const from = children.get(edge.from)?.[0];
+    const to = children.get(edge.to)?.[0];
+    const style = edge.style && EDGE_STYLES[edge.style];
+    const attributes = [
+      edge.label ? `label=${quote(edge.label)}` : '',
+      style ? `color="${style.stroke}"` : edge.highlighted ? `color="${HIGHLIGHT_STYLE.stroke}"` : '',
+      edge.highlighted || edge.kind === 'redirect' ? 'penwidth=3' : style ? 'penwidth=2' : '',
+      style?.dashed || edge.kind === 'failover' ? 'style=dashed' : '',
+      from ? `ltail=cluster_${edge.from}` : '',
+      to ? `lhead=cluster_${edge.to}` : ''
+    ].filter(Boolean);
+    const attributeList = attributes.length ? ` [${attributes.join(', ')}]` : '';
+    lines.push(`  ${from?.id || edge.from} -> ${to?.id || edge.to}${attributeList};`);
+  }
+
+  lines.push('  subgraph cluster_legend {', '    label="Legend";');
+  for (const [name, style] of Object.entries(NODE_STYLES)) {
+    lines.push(`    legend_${name} [label="${style.label}", fillcolor="${style.fill}", color="${style.stroke}"${style.dashed ? ', style="rounded,filled,dashed"' : ''}];`);
+  }
+  lines.push('  }', '}');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders a PlantUML diagram of rectangles. Groups and services with
+ * subsets contain their nodes.
+ */
+export function renderPlantUml(graph: ServiceGraph): string {
+  // PlantUML has no escape for double quotes in names
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+  const children = childrenOf(graph);
+  const color = (node: GraphNode) => {
+    const style = node.style && NODE_STYLES[node.style];
+    const line = node.highlighted ? `line:${HIGHLIGHT_STYLE.stroke.slice(1)};line.bold` : style ? `line:${style.stroke.slice(1)}` : '';
+    const parts = [style?.fill, line, style?.dashed ? 'line.dashed' : ''].filter(Boolean);
+    return parts.length ? ` ${style ? '' : '#'}${parts.join(';')}` : '';
+  };
+
+  const lines = ['@startuml', 'skinparam rectangle {', '  RoundCorner 10', '}'];
+
+  for (const group of graph.groups) {
+    lines.push(`rectangle ${quote(group.label)} as ${group.id} {`);
+    for (const node of topLevelNodes(graph, group.id)) {
+      const subsets = children.get(node.id) || [];
+      if (!subsets.length) {
+        lines.push(`  rectangle ${quote(node.label)} as ${node.id}${color(node)}`);
+        continue;
+      }
+      lines.push(`  rectangle ${quote(node.label)} as ${node.id}${color(node)} {`);
+      for (const subset of subsets) {
+        lines.push(`    rectangle ${quote(subset.label)} as ${subset.id}${color(subset)}`);
+      }
+      lines.push('  }');
+    }
+    lines.push('}');
+  }
+
+  for (const node of topLevelNodes(graph, undefined)) {
+    lines.push(`rectangle ${quote(node.label)} as ${node.id}${color(node)}`);
+  }
+
+  for (const edge of graph.edges) {
+    const style = edge.style && EDGE_STYLES[edge.style];
+    const arrowStyle = [
+      style ? style.stroke : edge.highlighted ? HIGHLIGHT_STYLE.stroke : '',
+      edge.highlighted ? 'thickness=3' : style ? 'thickness=2' : '',
+      style?.dashed || edge.kind === 'failover' ? 'dashed' : '',
+      edge.kind === 'redirect' ? 'bold' : ''
+    ].filter(Boolean).join(',');
+    const arrow = arrowStyle ? `-[${arrowStyle}]->` : '-->';
+    lines.push(`${edge.from} ${arrow} ${edge.to}${edge.label ? ` : ${edge.label}` : ''}`);
+  }
+
+  lines.push('legend right', '  |= Color |= Meaning |');
+  for (const style of Object.values(NODE_STYLES)) {
+    lines.push(`  |<${style.fill}>| ${style.label} |`);
+  }
+  lines.push('endlegend', '@enduml');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders a D2 diagram. Groups and services with subsets are containers,
+ * so nodes are referred to by their path through them.
+ */
+export function renderD2(graph: ServiceGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const children = childrenOf(graph);
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const path = (id: string): string => {
+    const node = nodes.get(id);
+    if (!node) return id;
+    return [node.group, node.parent, node.id].filter(Boolean).join('.');
+  };
+  const nodeStyle = (node: GraphNode, indent: string): string[] => {
+    const style = node.style && NODE_STYLES[node.style];
+    return [
+      ...(style ? [`${indent}style.fill: "${style.fill}"`] : []),
+      ...(node.highlighted
+        ? [`${indent}style.stroke: "${HIGHLIGHT_STYLE.stroke}"`, `${indent}style.stroke-width: 3`]
+        : style ? [`${indent}style.stroke: "${style.stroke}"`] : []),
+      ...(style?.dashed ? [`${indent}style.stroke-dash: 5`] : [])
+    ];
+  };
+  const declare = (node: GraphNode, indent: string): string[] => {
+    const body = [
+      ...nodeStyle(node, `${indent}  `),
+      ...(children.get(node.id) || []).flatMap(subset => declare(subset, `${indent}  `))
+    ];
+    return body.length
+      ? [`${indent}${node.id}: ${quote(node.label)} {`, ...body, `${indent}}`]
+      : [`${indent}${node.id}: ${quote(node.label)}`];
+  };
+
+  const lines = ['direction: down'];
+
+  for (const group of graph.groups) {
+    lines.push(`${group.id}: ${quote(group.label)} {`);
+    for (const node of topLevelNodes(graph, group.id)) {
+      lines.push(...declare(node, '  '));
+    }
+    lines.push('}');
+  }
+
+  for (const node of topLevelNodes(graph, undefined)) {
+    lines.push(...declare(node, ''));
+  }
+
+  for (const edge of graph.edges) {
+    const style = edge.style && EDGE_STYLES[edge.style];
+    const stroke = style?.stroke || (edge.highlighted ? HIGHLIGHT_STYLE.stroke : undefined);
+    const width = edge.highlighted || edge.kind === 'redirect' ? 4 : style ? 2 : undefined;
+    const attributes = [
+      ...(stroke ? [`style.stroke: "${stroke}"`] : []),
+      ...(width ? [`style.stroke-width: ${width}`] : []),
+      ...(style?.dashed || edge.kind === 'failover' ? ['style.stroke-dash: 5'] : [])
+    ];
+    const connection = `${path(edge.from)} -> ${path(edge.to)}${edge.label ? `: ${quote(edge.label)}` : ''}`;
+    lines.push(attributes.length
+      ? `${connection} {\n${attributes.map(attribute => `  ${attribute}`).join('\n')}\n}`
+      : connection);
+  }
+
+  lines.push('legend: Legend {');
+  for (const [name, style] of Object.entries(NODE_STYLES)) {
+    lines.push(`  ${name}: ${quote(style.label)} {`, `    style.fill: "${style.fill}"`, `    style.stroke: "${style.stroke}"`);
+    if (style.dashed) lines.push('    style.stroke-dash: 5');
+    lines.push('  }');
+  }
+  lines.push('}');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Nodes drawn directly in a group, or outside every group
+ */
+function topLevelNodes(graph: ServiceGraph, group: string | undefined): GraphNode[] {
+  return graph.nodes.filter(node => node.group === group && !node.parent);
+}
+
+/**
+ * Subset nodes by the ID of the service node they are drawn inside
+ */
+function childrenOf(graph: ServiceGraph): Map<string, GraphNode[]> {
+  const children = new Map<string, GraphNode[]>();
+  for (const node of graph.nodes) {
+    if (node.parent) children.set(node.parent, [...(children.get(node.parent) || []), node]);
+  }
+  return children;
+}
@@ -0,0 +1,298 @@
+import {
+  ConsulClient,
+  IntentionHeaderMatch,
+  IntentionPermission,
+  IntentionSource,
+  ServiceIntentionsEntry
+} from '../resources/consul-client.js';
+
+export type IntentionDecision = 'allow' | 'deny' | 'depends-on-request';
+
+export type DefaultPolicy = 'allow' | 'deny';
+
+export interface ServiceRef {
+  name: string;
+  namespace?: string; // Defaults to "default"
+  partition?: string; // Defaults to "default"
+}
+
+export interface HttpRequestSpec {
+  path?: string;
+  method?: string;
+  headers?: Record<string, string>;
+}
+
+export interface ConnectivityRequest {
+  source: ServiceRef;
+  destination: ServiceRef;
+  http?: HttpRequestSpec; // Without it L7 intentions cannot be decided
+}
+
+/**
+ * Intention data to evaluate instead of reading it from Consul
+ */
+export interface RecordedIntentions {
+  intentions?: ServiceIntentionsEntry[];
+  defaultPolicy?: DefaultPolicy;
+}
+
+export interface ConsideredIntention {
+  source: string;         // Source as written in the intention, e.g. "*" or "frontend/web"
+  destination: string;    // Destination as written in the intention
+  precedence: number;     // 1 (least specific) to 9 (most specific)
+  matches: boolean;       // Whether the source matches the request's source
+  action?: 'allow' | 'deny';
+  permissions?: IntentionPermission[];
+  description?: string;
+}
+
+export interface ConnectivityExplanation {
+  source: string;
+  destination: string;
+  decision: IntentionDecision;
+  defaultPolicy: DefaultPolicy;
+  defaultPolicySource: 'argument' | 'consul' | 'assumed';
+  matchedIntention: ConsideredIntention | null;
+  matchedPermission: { index: number; permission: IntentionPermission } | null;
+  chain: string[];                    // Evaluation steps, in order
+  considered: ConsideredIntention[];  // Intentions for the destination, by precedence
+}
+
+const DEFAULT = 'default';
+const WILDCARD = '*';
+
+/**
+ * IntentionSimulator explains whether one service may connect to another,
+ * evaluating intentions the way Consul does
+ */
+export class IntentionSimulator {
+  private consulClient: ConsulClient;
+
+  /**
+   * Creates a new IntentionSimulator
+   * @param consulClient Client to read intentions and the default ACL policy
+   * with when they are not recorded
+   */
+  constructor(consulClient: ConsulClient) {
+    this.consulClient = consulClient;
+  }
+
+  /**
+   * Explains the decision for a connection
+   * @param request Source, destination and optional HTTP request
+   * @param recorded Intentions and default policy to use instead of Consul's
+   * @returns The decision and how it was reached
+   */
+  async explain(request: ConnectivityRequest, recorded: RecordedIntentions = {}): Promise<ConnectivityExplanation> {
+    const entries = recorded.intentions ?? await this.consulClient.listIntentions();
+
+    if (recorded.defaultPolicy) {
+      return evaluateIntentions(entries, request, recorded.defaultPolicy, 'argument');
+    }
+    if (recorded.intentions) {
+      return evaluateIntentions(entries, request, 'allow', 'assumed');
+    }
+
+    const defaultPolicy = await this.consulClient.getAclDefaultPolicy();
+    return defaultPolicy
+      ? evaluateIntentions(entries, request, defaultPolicy, 'consul')
+      : evaluateIntentions(entries, request, 'allow', 'assumed');
+  }
+}
+
+/**
+ * Evaluates intentions for a connection without contacting Consul.
+ *
+ * Like Consul, only the most specific intention whose source and destination
+ * match is used. An L4 intention decides by its action. An L7 intention
+ * decides by its first permission that matches the HTTP request, and by the
+ * default policy when none does.
+ * @param entries service-intentions config entries
+ * @param request Source, destination and optional HTTP request
+ * @param defaultPolicy Default ACL policy
+ * @param defaultPolicySource Where the default policy came from, for the explanation
+ */
+export function evaluateIntentions(
+  entries: ServiceIntentionsEntry[],
+  request: ConnectivityRequest,
+  defaultPolicy: DefaultPolicy,
+  defaultPolicySource: ConnectivityExplanation['defaultPolicySource'] = 'argument'
+): ConnectivityExplanation {
+  const source = formatRef(request.source.name, request.source.namespace, request.source.partition);
+  const destination = formatRef(request.destination.name, request.destination.namespace, request.destination.partition);
+  const http = request.http;
+
+  const considered = entries
+    .filter(entry => destinationMatches(entry, request.destination))
+    .flatMap(entry => (entry.Sources || []).map(intentionSource => ({
+      source: formatRef(intentionSource.Name, intentionSource.Namespace, intentionSource.Partition, intentionSource.Peer),
+      destination: formatRef(entry.Name, entry.Namespace, entry.Partition),
+      precedence: precedence(entry, intentionSource),
+      matches: sourceMatches(intentionSource, request.source),
+      action: intentionSource.Action,
+      permissions: intentionSource.Permissions?.length ? intentionSource.Permissions : undefined,
+      description: intentionSource.Description
+    })))
+    .sort((a, b) => b.precedence - a.precedence);
+
+  const chain = [
+    `Evaluating ${source} -> ${destination}${http ? ` (${http.method || 'any method'} ${http.path || 'any path'})` : ''}`,
+    `${considered.length} intention(s) apply to ${destination}; the most specific matching one decides`
+  ];
+
+  const explanation = (
+    decision: IntentionDecision,
+    matchedIntention: ConsideredIntention | null = null,
+    matchedPermission: ConnectivityExplanation['matchedPermission'] = null
+  ): ConnectivityExplanation => ({
+    source,
+    destination,
+    decision,
+    defaultPolicy,
+    defaultPolicySource,
+    matchedIntention,
+    matchedPermission,
+    chain,
+    considered
+  });
+
+  const matched = considered.find(intention => {
+    chain.push(`Precedence ${intention.precedence}: ${intention.source} -> ${intention.destination} ` +
+      (intention.matches ? 'matches' : 'does not match the source'));
+    return intention.matches;
+  });
+
+  if (!matched) {
+    chain.push(`No intention matches, so the ${defaultPolicySource} default ACL policy "${defaultPolicy}" applies`);
+    return explanation(defaultPolicy);
+  }
+
+  if (!matched.permissions) {
+    const action = matched.action || defaultPolicy;
+    chain.push(`L4 intention: ${action}`);
+    return explanation(action, matched);
+  }
+
+  if (!http) {
+    chain.push(`L7 intention with ${matched.permissions.length} permission(s); the decision depends on the HTTP request`);
+    return explanation('depends-on-request', matched);
+  }
+
+  for (const [index, permission] of matched.permissions.entries()) {
+    const mismatch = httpMismatch(permission, http);
+    if (mismatch) {
+      chain.push(`Permission ${index + 1} (${permission.Action}) does not match: ${mismatch}`);
+      continue;
+    }
+    chain.push(`Permission ${index + 1} matches: ${permission.Action}`);
+    return explanation(permission.Action, matched, { index, permission });
+  }
+
+  chain.push(`No permission matches, so the ${defaultPolicySource} default ACL policy "${defaultPolicy}" applies`);
+  return explanation(defaultPolicy, matched);
+}
+
+/**
+ * Formats a service reference, leaving out default namespaces and partitions
+ */
+function formatRef(name: string, namespace?: string, partition?: string, peer?: string): string {
+  const parts = [
+    peer ? `peer:${peer}` : partition && partition !== DEFAULT ? partition : undefined,
+    namespace && namespace !== DEFAULT ? namespace : undefined,
+    name
+  ];
+  return parts.filter(Boolean).join('/');
+}
+
+function nameMatches(pattern: string | undefined, value: string | undefined): boolean {
+  const expected = pattern || DEFAULT;
+  return expected === WILDCARD || expected === (value || DEFAULT);
+}
+
+function destinationMatches(entry: ServiceIntentionsEntry, destination: ServiceRef): boolean {
+  return (entry.Partition || DEFAULT) === (destination.partition || DEFAULT) &&
+    nameMatches(entry.Namespace, destination.namespace) &&
+    nameMatches(entry.Name, destination.name);
+}
+
+/**
+ * Whether an intention source names the requesting service. Sources from
+ * cluster peers never match a local service.
+ */
+function sourceMatches(intentionSource: IntentionSource, source: ServiceRef): boolean {
+  return !intentionSource.Peer &&
+    (intentionSource.Partition || DEFAULT) === (source.partition || DEFAULT) &&
+    nameMatches(intentionSource.Namespace, source.namespace) &&
+    nameMatches(intentionSource.Name, source.name);
+}
+
+/**
+ * Computes Consul's intention precedence: exact destinations beat wildcard
+ * ones, then exact sources beat wildcard ones, namespace wildcards ranking
+ * below name wildcards
+ */
+function precedence(entry: ServiceIntentionsEntry, intentionSource: IntentionSource): number {
+  const rank = (namespace?: string, name?: string) =>
+    namespace === WILDCARD ? 1 : name === WILDCARD ? 2 : 3;
+  return (rank(entry.Namespace, entry.Name) - 1) * 3 + rank(intentionSource.Namespace, intentionSource.Name);
+}
+
+/**
+ * Checks an HTTP request against a permission's match rules
+ * @returns Why the request does not match, or undefined when it does
+ */
+function httpMismatch(permission: IntentionPermission, http: HttpRequestSpec): string | undefined {
+  const rule = permission.HTTP;
+  if (!rule) return undefined;
+
+  const path = http.path;
+  if (rule.PathExact !== undefined && path !== rule.PathExact) {
+    return `path is not ${rule.PathExact}`;
+  }
+  if (rule.PathPrefix !== undefined && !path?.startsWith(rule.PathPrefix)) {
+    return `path does not start with ${rule.PathPrefix}`;
+  }
+  // Envoy matches the whole path; JavaScript regexes stand in for RE2 here
+  if (rule.PathRegex !== undefined && (path === undefined || !fullMatch(rule.PathRegex, path))) {
+    return `path does not match ${rule.PathRegex}`;
+  }
+  if (rule.Methods?.length && !rule.Methods.includes((http.method || '').toUpperCase())) {
+    return `method is not one of ${rule.Methods.join(', ')}`;
+  }
+
+  for (const header of rule.Header || []) {
+    if (!headerMatches(header, http.headers || {})) {
+      return `header ${header.Name} does not match`;
+    }
+  }
+
+  return undefined;
+}
+
+function headerMatches(header: IntentionHeaderMatch, headers: Record<string, string>): boolean {
+  const key = Object.keys(headers).find(name => name.toLowerCase() === header.Name.toLowerCase());
+  const value = key === undefined ? undefined : headers[key];
+
+  let matches: boolean;
+  if (header.Exact !== undefined) {
+    matches = value === header.Exact;
+  } else if (header.Prefix !== undefined) {
+    matches = value !== undefined && value.startsWith(header.Prefix);
+  } else if (header.Suffix !== undefined) {
+    matches = value !== undefined && value.endsWith(header.Suffix);
+  } else if (header.Regex !== undefined) {
+    matches = value !== undefined && fullMatch(header.Regex, value);
+  } else {
+    matches = value !== undefined;
+  }
+
+  return header.Invert ? !matches : matches;
+}
+
+function fullMatch(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(value);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,480 @@
+import {
+  ConsulService,
+  HealthStatus,
+  ServiceConnection,
+  TrafficPolicy,
+  TrafficTarget
+} from '../resources/consul-client.js';
+import {
+  connectionDestination,
+  connectionSource,
+  DependencyDirection,
+  DependencyGraph,
+  qualifiedServiceName
+} from '../resources/dependency-graph.js';
+
+/**
+ * Error for a diagram focus that does not fit the services being drawn
+ */
+export class InvalidDiagramFocusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDiagramFocusError';
+  }
+}
+
+export interface GraphOptions {
+  includeHealth: boolean;
+  includeMetrics: boolean;
+  focus?: DiagramFocus;
+}
+
+// Part of the mesh to draw. Filters pick service instances first; the
+// neighborhood and paths are then found among the services left.
+export interface DiagramFocus {
+  service?: string;                 // Draw this service and its neighborhood
+  depth?: number;                   // Hops from the service; defaults to 1
+  direction?: DependencyDirection;  // Defaults to "both"
+  pathFrom?: string;                // Highlight every path from this service...
+  pathTo?: string;                  // ...to this one
+  tags?: string[];                  // Only instances with all of these tags
+  nodes?: string[];                 // Only instances on one of these nodes
+  health?: HealthStatus[];          // Only instances with one of these statuses
+}
+
+// Parts of a service's identity beyond its name
+export interface ServiceScope {
+  datacenter?: string;
+  namespace?: string;
+  partition?: string;
+}
+
+// "service" is a service with all its instances, "subset" a resolver subset
+// inside its service, and "external" a traffic target the graph has no
+// instances of
+export type GraphNodeKind = 'service' | 'subset' | 'external';
+
+// Style classes every renderer draws the same way
+export type NodeStyle = 'healthy' | 'warning' | 'critical' | 'external';
+export type EdgeStyle = 'warning' | 'failing';
+
+export interface GraphNode {
+  id: string;               // Unique; only letters, digits and underscores
+  label: string;
+  kind: GraphNodeKind;
+  service: string;
+  subset?: string;
+  namespace?: string;
+  partition?: string;
+  datacenter?: string;
+  peer?: string;
+  group?: string;           // ID of the group the node is drawn in
+  parent?: string;          // ID of the service node a subset belongs to
+  instances?: number;
+  health?: HealthStatus;    // Worst instance health, with includeHealth
+  style?: NodeStyle;
+  highlighted?: boolean;    // The focus service, or on a highlighted path
+}
+
+// "connection" is a service calling another; the other kinds are where a
+// splitter or resolver sends that traffic on to
+export type GraphEdgeKind = 'connection' | 'split' | 'redirect' | 'failover';
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+  label?: string;
+  status?: string;          // Connection status
+  protocol?: string;
+  latencyMs?: number;       // With includeMetrics
+  weight?: number;          // Split percentage
+  style?: EdgeStyle;
+  highlighted?: boolean;    // On a highlighted path
+}
+
+// Top-level box, one per datacenter when the graph spans several
+export interface GraphGroup {
+  id: string;
+  label: string;
+  datacenter?: string;
+}
+
+export interface ServiceGraph {
+  groups: GraphGroup[];
+  nodes: GraphNode[];       // Groups' nodes in order, then external ones
+  edges: GraphEdge[];       // Connections, then traffic edges
+}
+
+// Colors of the style classes, shared by the renderers
+export const NODE_STYLES: Record<NodeStyle, { label: string; fill: string; stroke: string; dashed?: boolean }> = {
+  healthy: { label: 'Healthy Service', fill: '#baffc9', stroke: '#00ae11' },
+  warning: { label: 'Warning Service', fill: '#ffffba', stroke: '#ffae00' },
+  critical: { label: 'Critical Service', fill: '#ffb3ba', stroke: '#ff0000' },
+  external: { label: 'Traffic Target Outside the Diagram', fill: '#eeeeee', stroke: '#999999', dashed: true }
+};
+
+export const EDGE_STYLES: Record<EdgeStyle, { label: string; stroke: string; dashed?: boolean }> = {
+  warning: { label: 'Warning Connection', stroke: '#ffae00' },
+  failing: { label: 'Failing Connection', stroke: '#ff0000', dashed: true }
+};
+
+// Outline of highlighted nodes and color of highlighted edges
+export const HIGHLIGHT_STYLE = { label: 'Focus or Path', stroke: '#1f77b4' };
+
+// Consul Enterprise names the implicit namespace and partition "default"
+const DEFAULT_SCOPE = 'default';
+
+// Health statuses from best to worst
+const STATUS_ORDER: HealthStatus[] = ['unknown', 'passing', 'warning', 'critical'];
+
+/**
+ * Builds the graph of services, their connections and where splitters and
+ * resolvers send their traffic. Every diagram format is rendered from it.
+ * @param services List of services; instances of a service share one node
+ * @param connections List of service connections
+ * @param options Whether to include health and latency
+ * @param traffic Splitter and resolver policies of the services
+ */
+export function buildServiceGraph(
+  services: ConsulService[],
+  connections: ServiceConnection[],
+  options: GraphOptions,
+  traffic: TrafficPolicy[] = []
+): ServiceGraph {
+  const focused = options.focus ? focusServices(services, connections, options.focus) : undefined;
+  if (focused) {
+    services = focused.services;
+    connections = focused.connections;
+  }
+
+  // Services from several datacenters get one group per datacenter, and
+  // their IDs include the datacenter so same-named services stay apart
+  const datacenters = [...new Set(services.map(service => service.datacenter || ''))];
+  const multiDatacenter = datacenters.length > 1;
+  const groups: GraphGroup[] = multiDatacenter
+    ? datacenters.map(dc => ({ id: formatNodeId(`datacenter ${dc}`), label: `Datacenter ${dc || 'unknown'}`, datacenter: dc || undefined }))
+    : [{ id: 'consul_service_mesh', label: 'Consul Service Mesh' }];
+
+  const serviceId = (name: string, scope: ServiceScope) => formatNodeId(name, {
+    datacenter: multiDatacenter ? scope.datacenter : undefined,
+    namespace: scope.namespace,
+    partition: scope.partition
+  });
+  const policies = new Map(traffic.map(policy => [serviceId(policy.service, policy), policy]));
+
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  for (const group of groups) {
+    const instances = new Map<string, ConsulService[]>();
+    for (const service of services) {
+      if (multiDatacenter && (service.datacenter || undefined) !== group.datacenter) continue;
+      const id = serviceId(service.name, service);
+      instances.set(id, [...(instances.get(id) || []), service]);
+    }
+
+    for (const [id, [service, ...others]] of instances) {
+      const health = options.includeHealth ? worstStatus([service, ...others]) : undefined;
+      nodes.set(id, {
+        id,
+        label: formatServiceLabel(service.name, service),
+        kind: 'service',
+        service: service.name,
+        namespace: service.namespace,
+        partition: service.partition,
+        datacenter: service.datacenter,
+        group: group.id,
+        instances: others.length + 1,
+        health,
+        style: health ? healthStyle(health) : undefined,
+        highlighted: focused?.highlightedServices.has(qualifiedServiceName(service.name, service)) || undefined
+      });
+
+      // Subsets are drawn inside their service
+      const policy = policies.get(id);
+      for (const subset of policy?.subsets || []) {
+        const subsetId = formatSubsetId(id, subset);
+        nodes.set(subsetId, {
+          id: subsetId,
+          label: describeSubset(policy!, subset),
+          kind: 'subset',
+          service: service.name,
+          subset,
+          namespace: service.namespace,
+          partition: service.partition,
+          datacenter: service.datacenter,
+          group: group.id,
+          parent: id
+        });
+      }
+    }
+  }
+
+  for (const connection of connections) {
+    const datacenter = multiDatacenter ? connection.datacenter : undefined;
+    const latencyMs = options.includeMetrics && connection.latency ? connection.latency : undefined;
+    edges.push({
+      from: formatNodeId(connection.source, {
+        datacenter,
+        namespace: connection.sourceNamespace,
+        partition: connection.sourcePartition
+      }),
+      to: formatNodeId(connection.destination, {
+        datacenter,
+        namespace: connection.destinationNamespace,
+        partition: connection.destinationPartition
+      }),
+      kind: 'connection',
+      label: latencyMs ? `${latencyMs}ms` : undefined,
+      status: connection.status,
+      protocol: connection.protocol,
+      latencyMs,
+      style: connectionStyle(connection.status),
+      highlighted: focused?.highlightedConnections.has(connection) || undefined
+    });
+  }
+
+  // Traffic targets that are not drawn yet, such as a service in another
+  // datacenter, get nodes of their own
+  const targetNode = (target: TrafficTarget, policy: TrafficPolicy): string => {
+    const remote = Boolean(target.peer) || target.datacenter !== policy.datacenter;
+    const location = target.peer ? `peer ${target.peer}` : target.datacenter;
+    const id = serviceId(target.service, {
+      ...target,
+      datacenter: multiDatacenter && !target.peer ? target.datacenter : undefined
+    });
+    // Without datacenter groups, services elsewhere get separate nodes
+    const nodeId = target.peer || (remote && !multiDatacenter) ? formatNodeId(`${location} ${id}`) : id;
+
+    const targetId = target.subset ? formatSubsetId(nodeId, target.subset) : nodeId;
+    if (!nodes.has(targetId)) {
+      const name = target.subset ? `${target.subset}.${target.service}` : target.service;
+      nodes.set(targetId, {
+        id: targetId,
+        label: formatServiceLabel(name, target) + (remote && location ? ` (${location})` : ''),
+        kind: 'external',
+        service: target.service,
+        subset: target.subset,
+        namespace: target.namespace,
+        partition: target.partition,
+        datacenter: target.datacenter,
+        peer: target.peer,
+        style: 'external'
+      });
+    }
+    return targetId;
+  };
+
+  const drawnServices = [...nodes.values()].filter(node => node.kind === 'service').map(node => node.id);
+  for (const id of drawnServices) {
+    const policy = policies.get(id);
+    if (!policy) continue;
+
+    // Splits to a subset of the service itself are shown on the subset's node
+    for (const split of policy.splits) {
+      if (ownSubset(split, policy)) continue;
+      edges.push({ from: id, to: targetNode(split, policy), kind: 'split', label: `${split.weight}%`, weight: split.weight });
+    }
+
+    if (policy.redirect) {
+      edges.push({ from: id, to: targetNode(policy.redirect, policy), kind: 'redirect', label: 'redirect' });
+    }
+
+    for (const failover of policy.failover) {
+      const from = failover.subset && policy.subsets.includes(failover.subset)
+        ? formatSubsetId(id, failover.subset)
+        : id;
+      failover.targets.forEach((target, index) => {
+        const order = failover.targets.length > 1 ? ` ${index + 1}` : '';
+        const location = target.peer ? ` peer ${target.peer}`
+          : target.datacenter !== policy.datacenter ? ` ${target.datacenter}` : '';
+        edges.push({ from, to: targetNode(target, policy), kind: 'failover', label: `failover${order}${location}` });
+      });
+    }
+  }
+
+  return { groups, nodes: [...nodes.values()], edges };
+}
+
+/**
+ * Picks the services and connections a focus asks for, and which of them
+ * to highlight
+ */
+function focusServices(services: ConsulService[], connections: ServiceConnection[], focus: DiagramFocus): {
+  services: ConsulService[];
+  connections: ServiceConnection[];
+  highlightedServices: Set<string>;
+  highlightedConnections: Set<ServiceConnection>;
+} {
+  if (Boolean(focus.pathFrom) !== Boolean(focus.pathTo)) {
+    throw new InvalidDiagramFocusError('A path needs both the service it starts at and the one it ends at');
+  }
+
+  const filtered = services.filter(instance =>
+    (!focus.tags?.length || focus.tags.every(tag => instance.tags.includes(tag))) &&
+    (!focus.nodes?.length || focus.nodes.includes(instance.node)) &&
+    (!focus.health?.length || focus.health.includes(instance.health.status))
+  );
+  // Connections need both ends left after filtering
+  const names = new Set(filtered.map(instance => qualifiedServiceName(instance.name, instance)));
+  const filtering = Boolean(focus.tags?.length || focus.nodes?.length || focus.health?.length);
+  const kept = filtering
+    ? connections.filter(conn => names.has(connectionSource(conn)) && names.has(connectionDestination(conn)))
+    : connections;
+  // Services are chosen by following dependencies only, so deny and
+  // wildcard intentions pull nothing in; they are still drawn between the
+  // services kept
+  const graph = new DependencyGraph(kept, [...names]);
+
+  // A name matches the service in every namespace and partition drawn
+  const named = (name: string) => {
+    const matches = graph.named(name);
+    if (matches.length === 0) {
+      throw new InvalidDiagramFocusError(`Service ${name} is not among the services being drawn`);
+    }
+    return matches;
+  };
+  const focusNames = focus.service ? named(focus.service) : [];
+  const fromNames = focus.pathFrom ? named(focus.pathFrom) : [];
+  const toNames = focus.pathTo ? named(focus.pathTo) : [];
+
+  let selected: Set<string> | undefined;
+  const highlightedServices = new Set<string>();
+  const highlightedConnections = new Set<ServiceConnection>();
+
+  if (focus.service) {
+    selected = new Set(focusNames.flatMap(name =>
+      [...graph.neighborhood(name, focus.depth ?? 1, focus.direction ?? 'both').keys()]
+    ));
+    focusNames.forEach(name => highlightedServices.add(name));
+  }
+
+  if (focus.pathFrom && focus.pathTo) {
+    const paths = fromNames.flatMap(from => toNames.map(to => graph.paths(from, to)));
+    const onPath = [...fromNames, ...toNames, ...paths.flatMap(path => path.services)];
+    selected = new Set([...(selected || []), ...onPath]);
+    onPath.forEach(name => highlightedServices.add(name));
+    paths.flatMap(path => path.connections).forEach(conn => highlightedConnections.add(conn));
+  }
+
+  if (!selected) {
+    return { services: filtered, connections: kept, highlightedServices, highlightedConnections };
+  }
+  return {
+    services: filtered.filter(instance => selected!.has(qualifiedServiceName(instance.name, instance))),
+    connections: kept.filter(conn => selected!.has(connectionSource(conn)) && selected!.has(connectionDestination(conn))),
+    highlightedServices,
+    highlightedConnections
+  };
+}
+
+/**
+ * Formats a service name into an ID that is valid in every diagram format.
+ * Same-named services in different datacenters, partitions or namespaces
+ * get different IDs.
+ * @param name Service name
+ * @param scope Datacenter, namespace and partition to qualify the ID with
+ */
+export function formatNodeId(name: string, scope: ServiceScope = {}): string {
+  const qualified = [
+    scope.datacenter,
+    nonDefault(scope.partition),
+    nonDefault(scope.namespace),
+    name
+  ].filter(Boolean).join('__');
+  // Replace invalid characters and make sure it's a valid ID
+  return qualified.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+/**
+ * Formats the label of a service, prefixed with its partition and
+ * namespace when they are not the defaults
+ */
+export function formatServiceLabel(name: string, scope: ServiceScope): string {
+  return [nonDefault(scope.partition), nonDefault(scope.namespace), name]
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Gets the ID of a subset's node inside its service
+ */
+function formatSubsetId(serviceId: string, subset: string): string {
+  return `${serviceId}___${subset.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Treats the "default" namespace or partition like an unset one, so OSS and
+ * Enterprise data for the same service produce the same ID
+ */
+function nonDefault(value?: string): string | undefined {
+  return value && value !== DEFAULT_SCOPE ? value : undefined;
+}
+
+function worstStatus(instances: ConsulService[]): HealthStatus {
+  return instances
+    .map(instance => instance.health.status)
+    .reduce((worst, status) => STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(worst) ? status : worst);
+}
+
+function healthStyle(status: HealthStatus): NodeStyle | undefined {
+  switch (status) {
+    case 'critical':
+      return 'critical';
+    case 'warning':
+      return 'warning';
+    case 'passing':
+      return 'healthy';
+    default:
+      return undefined;
+  }
+}
+
+function connectionStyle(status: string): EdgeStyle | undefined {
+  switch (status) {
+    case 'degraded':
+    case 'failing':
+    case 'blocked':
+      return 'failing';
+    case 'warning':
+      return 'warning';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Labels a subset with the share of traffic the service's splitter sends it
+ */
+function describeSubset(policy: TrafficPolicy, subset: string): string {
+  const weight = policy.splits
+    .filter(split => ownSubset(split, policy) === subset)
+    .reduce((total, split) => total + split.weight, 0);
+  const parts = [
+    subset,
+    subset === policy.defaultSubset ? '(default)' : '',
+    policy.splits.length ? `${weight}%` : ''
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Gets the subset of the policy's own service a split sends traffic to,
+ * when it is one drawn inside the service
+ */
+function ownSubset(split: TrafficTarget, policy: TrafficPolicy): string | undefined {
+  const subset = split.subset || policy.defaultSubset;
+  return subset && sameService(split, policy) && policy.subsets.includes(subset) ? subset : undefined;
+}
+
+/**
+ * Whether a split or resolver target is the policy's own service
+ */
+function sameService(target: TrafficTarget, policy: TrafficPolicy): boolean {
+  return !target.peer &&
+    target.service === policy.service &&
+    (target.namespace || DEFAULT_SCOPE) === (policy.namespace || DEFAULT_SCOPE) &&
+    (target.partition || DEFAULT_SCOPE) === (policy.partition || DEFAULT_SCOPE) &&
+    target.datacenter === policy.datacenter;
+}
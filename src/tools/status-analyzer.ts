@@ -1,4 +1,5 @@
-import { ConsulClient } from '../resources/consul-client.js';
+import { ConsulClient, ServiceConnection } from '../resources/consul-client.js';
+import { DependencyChain, DependencyGraph, isDependency, qualifiedServiceName } from '../resources/dependency-graph.js';
 import { ServiceManager } from '../resources/services.js';
 import { HealthManager } from '../resources/health.js';
 
@@ -10,6 +11,55 @@ export interface ServiceAnalysis {
   recommendations: string[];
 }
 
+/**
+ * Interface for topology analysis results
+ */
+export interface TopologyAnalysis {
+  datacenter?: string;
+  serviceCount: number;
+  connectionCount: number;
+  centrality: ServiceCentrality[]; // Services on at least one shortest chain, most central first
+  cycles: string[][];
+  articulationPoints: string[];
+  longestChains: DependencyChain[];
+  fanInOutliers: DegreeCount[];
+  fanOutOutliers: DegreeCount[];
+  isolatedServices: string[];
+}
+
+export interface ServiceCentrality {
+  service: string;
+  betweenness: number;
+  fanIn: number;  // Services that call it
+  fanOut: number; // Services it calls
+}
+
+export interface DegreeCount {
+  service: string;
+  count: number;
+}
+
+/**
+ * What each finding of a topology analysis means, keyed by the field of
+ * the analyze_topology response it describes
+ */
+export const TOPOLOGY_DEFINITIONS = {
+  centrality: 'Betweenness centrality: the share of shortest call chains between two other services that pass through ' +
+    'the service, from 0 to 1. Services with high centrality carry traffic for many others.',
+  cycles: 'Groups of services that each depend on all of the others, directly or through each other, ' +
+    'plus services that call themselves. A failure anywhere in a cycle can reach every service in it.',
+  articulation_points: 'Services whose removal splits the mesh into more disconnected parts, ' +
+    'with connections treated as going both ways.',
+  longest_chains: 'The deepest dependency chains, from a service nothing calls to one that calls nothing. ' +
+    'Depth counts levels of dependencies, with a cycle as one level. Latency and failures add up along a chain.',
+  fan_in_outliers: 'Services called by at least 3 services and by 2 standard deviations more services than average.',
+  fan_out_outliers: 'Services that call at least 3 services and 2 standard deviations more services than average.',
+  isolated_services: 'Services with no connections to or from any other service.'
+};
+
+// Chains returned by a topology analysis
+const LONGEST_CHAIN_LIMIT = 5;
+
 /**
  * ServiceAnalyzer provides analysis of service health and performance
  */
@@ -117,27 +167,29 @@ export class ServiceAnalyzer {
       }
     }
     
-    // Get metrics for additional insights
+    // Get metrics for additional insights. Only measured values are used;
+    // metrics the provider has no data for are null and skipped.
     try {
       const metrics = await this.serviceManager.getServiceMetrics(serviceName);
+      const sourceNote = ` (${metrics.source}, ${metrics.window})`;
       
-      if (metrics.errorRate > 0.05) {
-        issues.push(`High error rate: ${(metrics.errorRate * 100).toFixed(1)}%`);
+      if (metrics.errorRate !== null && metrics.errorRate > 0.05) {
+        issues.push(`High error rate: ${(metrics.errorRate * 100).toFixed(1)}%${sourceNote}`);
         recommendations.push('Investigate application logs for errors');
       }
       
-      if (metrics.cpu.usage > 0.8) {
-        issues.push(`High CPU usage: ${(metrics.cpu.usage * 100).toFixed(1)}%`);
+      if (metrics.cpu.usage !== null && metrics.cpu.usage > 0.8) {
+        issues.push(`High CPU usage: ${(metrics.cpu.usage * 100).toFixed(1)}%${sourceNote}`);
         recommendations.push('Consider scaling horizontally or optimizing resource usage');
       }
       
-      if (metrics.memory.used / metrics.memory.total > 0.9) {
-        issues.push(`High memory usage: ${metrics.memory.used}/${metrics.memory.total} MB`);
+      if (metrics.memory.used !== null && metrics.memory.total && metrics.memory.used / metrics.memory.total > 0.9) {
+        issues.push(`High memory usage: ${metrics.memory.used}/${metrics.memory.total} MB${sourceNote}`);
         recommendations.push('Check for memory leaks or increase memory allocation');
       }
       
-      if (metrics.responseTime.p99 > 500) {
-        issues.push(`Slow response times (p99): ${metrics.responseTime.p99}ms`);
+      if (metrics.responseTime.p99 !== null && metrics.responseTime.p99 > 500) {
+        issues.push(`Slow response times (p99): ${metrics.responseTime.p99}ms${sourceNote}`);
         recommendations.push('Optimize critical paths or add caching');
       }
     } catch (error) {
@@ -156,6 +208,22 @@ export class ServiceAnalyzer {
     };
   }
   
+  /**
+   * Analyzes the shape of the dependency graph: which services many call
+   * chains pass through, dependency cycles, services that hold the mesh
+   * together, the deepest chains and unusually high fan-in or fan-out
+   * @returns Topology findings; TOPOLOGY_DEFINITIONS explains each one
+   */
+  async analyzeTopology(): Promise<TopologyAnalysis> {
+    const services = await this.consulClient.getServices();
+    const connections = await this.consulClient.getServiceConnections();
+    
+    return {
+      datacenter: await this.consulClient.getDatacenter(),
+      ...describeTopology(services.map(service => qualifiedServiceName(service.name, service)), connections)
+    };
+  }
+  
   /**
    * Analyzes the overall health of the service mesh
    * @returns Analysis of the entire service mesh
@@ -181,6 +249,13 @@ export class ServiceAnalyzer {
       issues.push(`${healthSummary.warning} services have warning health checks`);
     }
     
+    // Services on a failing node fail with it; point at the node instead
+    for (const node of healthSummary.failingChecksByNode.filter(rollup => rollup.nodeFailure)) {
+      const services = node.failingServices.length ? `: ${node.failingServices.join(', ')}` : '';
+      issues.push(`Node ${node.node} is ${node.status}, failing the ${node.failingServices.length} services on it${services}`);
+      recommendations.push(`Check the health of node ${node.node} before the services on it`);
+    }
+    
     //// Analyze failing connections
     const failingConnections = connections.filter(
         conn => conn.status === 'degraded' || conn.status === 'failing' || conn.status === 'blocked'
@@ -201,55 +276,20 @@ export class ServiceAnalyzer {
       }
       
       // Network topology analysis
-      const serviceConnectivityMap = new Map<string, Set<string>>();
-      for (const service of services) {
-        serviceConnectivityMap.set(service.name, new Set());
-      }
-      
-      for (const conn of connections) {
-        const outgoing = serviceConnectivityMap.get(conn.source);
-        if (outgoing) {
-          outgoing.add(conn.destination);
-        }
-      }
+      const topology = describeTopology(services.map(service => qualifiedServiceName(service.name, service)), connections);
       
-      // Find isolated services
-      const isolatedServices = [];
-      for (const [serviceName, connections] of serviceConnectivityMap.entries()) {
-        const hasIncoming = connections.size > 0;
-        const hasOutgoing = Array.from(serviceConnectivityMap.values())
-          .some(outgoing => outgoing.has(serviceName));
-        
-        if (!hasIncoming && !hasOutgoing) {
-          isolatedServices.push(serviceName);
-        }
-      }
-      
-      if (isolatedServices.length > 0) {
+      if (topology.isolatedServices.length > 0) {
+        const isolatedServices = topology.isolatedServices;
         issues.push(`${isolatedServices.length} services appear to be isolated: ${isolatedServices.join(', ')}`);
         recommendations.push('Review isolated services to determine if they should be connected to the mesh');
       }
       
-      // Find critical path services (most connected)
-      const connectionCounts = new Map<string, number>();
-      for (const [serviceName, outgoing] of serviceConnectivityMap.entries()) {
-        connectionCounts.set(serviceName, (connectionCounts.get(serviceName) || 0) + outgoing.size);
-        
-        for (const target of outgoing) {
-          connectionCounts.set(target, (connectionCounts.get(target) || 0) + 1);
-        }
-      }
-      
-      // Sort services by connection count
-      const mostConnected = Array.from(connectionCounts.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 3)
-        .filter(([_, count]) => count > 2)
-        .map(([name]) => name);
+      // Critical path services are the ones most call chains pass through
+      const mostCentral = topology.centrality.slice(0, 3).map(entry => entry.service);
       
-      if (mostConnected.length > 0) {
-        const criticalServices = mostConnected.join(', ');
-        recommendations.push(`Critical path services with most connections: ${criticalServices}. Consider monitoring these closely.`);
+      if (mostCentral.length > 0) {
+        const criticalServices = mostCentral.join(', ');
+        recommendations.push(`Critical path services on the most call chains: ${criticalServices}. Consider monitoring these closely.`);
       }
       
       // Create summary
@@ -279,4 +319,40 @@ export class ServiceAnalyzer {
         recommendations: [...new Set(recommendations)] // Remove duplicates
       };
     }
-  }
\ No newline at end of file
+  }
+
+/**
+ * Computes the topology findings of a set of services and their connections
+ */
+function describeTopology(serviceNames: string[], connections: ServiceConnection[]): Omit<TopologyAnalysis, 'datacenter'> {
+  const graph = new DependencyGraph(connections, serviceNames);
+  const betweenness = graph.betweenness();
+  const degrees = graph.services.map(service => ({ service, ...graph.degree(service) }));
+  
+  return {
+    serviceCount: graph.services.length,
+    connectionCount: connections.filter(isDependency).length,
+    centrality: degrees
+      .map(degree => ({ ...degree, betweenness: betweenness.get(degree.service)! }))
+      .filter(entry => entry.betweenness > 0)
+      .sort((a, b) => b.betweenness - a.betweenness),
+    cycles: graph.cycles(),
+    articulationPoints: graph.articulationPoints(),
+    longestChains: graph.longestChains(LONGEST_CHAIN_LIMIT),
+    fanInOutliers: outliers(degrees.map(degree => ({ service: degree.service, count: degree.fanIn }))),
+    fanOutOutliers: outliers(degrees.map(degree => ({ service: degree.service, count: degree.fanOut }))),
+    isolatedServices: degrees.filter(degree => degree.fanIn === 0 && degree.fanOut === 0).map(degree => degree.service)
+  };
+}
+
+/**
+ * Picks the counts of at least 3 that are 2 standard deviations above the mean
+ */
+function outliers(counts: DegreeCount[]): DegreeCount[] {
+  if (counts.length === 0) return [];
+  const mean = counts.reduce((sum, entry) => sum + entry.count, 0) / counts.length;
+  const deviation = Math.sqrt(counts.reduce((sum, entry) => sum + (entry.count - mean) ** 2, 0) / counts.length);
+  return counts
+    .filter(entry => entry.count >= 3 && entry.count > mean + 2 * deviation)
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,244 @@
+import elk, { ElkExtendedEdge, ElkLabel, ElkNode } from 'elkjs/lib/elk.bundled.js';
+import { EDGE_STYLES, GraphEdge, GraphNode, HIGHLIGHT_STYLE, NODE_STYLES, ServiceGraph } from './service-graph.js';
+
+// The CommonJS bundle's module object; the constructor is its default export
+const ELK = elk.default;
+
+/**
+ * Error for an image that cannot be rendered on this server
+ */
+export class DiagramRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiagramRenderError';
+  }
+}
+
+// Image types a service graph can be rendered as
+export const DIAGRAM_IMAGE_TYPES = ['svg', 'png'] as const;
+
+export type DiagramImageType = typeof DIAGRAM_IMAGE_TYPES[number];
+
+export interface DiagramImage {
+  mimeType: 'image/svg+xml' | 'image/png';
+  data: Buffer;
+}
+
+// Text is measured with a fixed average glyph width, since there is no
+// browser to measure it
+const FONT_SIZE = 12;
+const CHAR_WIDTH = 7;
+const NODE_HEIGHT = 36;
+const LEGEND_HEIGHT = 40;
+const DEFAULT_STROKE = '#333333';
+
+/**
+ * Renders a service graph as an image. The layout is computed in-process
+ * with ELK, so no browser is needed; PNG output rasterizes the SVG with
+ * resvg, an optional dependency.
+ * @param graph Graph built by buildServiceGraph
+ * @param type Image type
+ * @param scale Zoom factor for PNG output
+ */
+export async function renderServiceImage(graph: ServiceGraph, type: DiagramImageType, scale = 2): Promise<DiagramImage> {
+  const svg = await renderSvg(graph);
+  if (type === 'svg') {
+    return { mimeType: 'image/svg+xml', data: Buffer.from(svg) };
+  }
+  return { mimeType: 'image/png', data: await rasterize(svg, scale) };
+}
+
+/**
+ * Renders a service graph as SVG. Groups and services with subsets are
+ * boxes around their nodes, and styles match the text diagram formats.
+ */
+export async function renderSvg(graph: ServiceGraph): Promise<string> {
+  const layout = await new ELK().layout(toElkGraph(graph));
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const groups = new Map(graph.groups.map(group => [group.id, group]));
+  const width = Math.max(layout.width || 0, legendWidth());
+  const height = (layout.height || 0) + LEGEND_HEIGHT;
+
+  // ELK places nodes relative to their parent, and edges relative to the
+  // node that contains both ends
+  const origins = new Map([['root', { x: 0, y: 0 }]]);
+  const shapes: string[] = [];
+  const drawShape = (shape: ElkNode, parent: { x: number; y: number }) => {
+    const origin = { x: parent.x + (shape.x || 0), y: parent.y + (shape.y || 0) };
+    origins.set(shape.id, origin);
+    const node = nodes.get(shape.id);
+    const group = groups.get(shape.id);
+    const isContainer = Boolean(shape.children?.length) || Boolean(group);
+    const label = node?.label ?? group?.label ?? '';
+    shapes.push(drawBox({ ...shape, ...origin }, node, label, isContainer));
+    for (const child of shape.children || []) drawShape(child, origin);
+  };
+  for (const child of layout.children || []) drawShape(child, { x: 0, y: 0 });
+
+  const edges = (layout.edges || []).map((edge: ElkExtendedEdge & { container?: string }) =>
+    drawEdge(edge, graph.edges[Number(edge.id.slice(1))], origins.get(edge.container || 'root') || { x: 0, y: 0 })
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `font-family="Helvetica, Arial, sans-serif" font-size="${FONT_SIZE}">`,
+    `<defs>${arrowMarkers()}</defs>`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...shapes,
+    ...edges,
+    drawLegend(layout.height || 0),
+    '</svg>'
+  ].join('\n') + '\n';
+}
+
+/**
+ * Converts the graph into ELK's format, in which groups and services with
+ * subsets are compound nodes
+ */
+function toElkGraph(graph: ServiceGraph): ElkNode {
+  const leaf = (node: GraphNode): ElkNode => ({
+    id: node.id,
+    width: Math.max(80, textWidth(node.label) + 24),
+    height: NODE_HEIGHT
+  });
+  const container = (id: string, label: string, children: ElkNode[]): ElkNode => ({
+    id,
+    children,
+    layoutOptions: {
+      'elk.padding': '[top=28,left=12,bottom=12,right=12]',
+      'elk.nodeSize.minimum': `(${textWidth(label) + 24}, 0)`,
+      'elk.nodeSize.constraints': 'MINIMUM_SIZE'
+    }
+  });
+  const withChildren = (node: GraphNode): ElkNode => {
+    const subsets = graph.nodes.filter(child => child.parent === node.id);
+    return subsets.length ? container(node.id, node.label, subsets.map(leaf)) : leaf(node);
+  };
+  const topLevel = (group: string | undefined) =>
+    graph.nodes.filter(node => node.group === group && !node.parent).map(withChildren);
+
+  return {
+    id: 'root',
+    layoutOptions: {
+      'elk.algorithm': 'layered',
+      'elk.direction': 'DOWN',
+      'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+      'elk.edgeLabels.inline': 'true',
+      'elk.spacing.nodeNode': '30',
+      'elk.layered.spacing.nodeNodeBetweenLayers': '50',
+      'elk.padding': '[top=12,left=12,bottom=12,right=12]'
+    },
+    children: [
+      ...graph.groups.map(group => container(group.id, group.label, topLevel(group.id))),
+      ...topLevel(undefined)
+    ],
+    // Edge IDs point back into graph.edges
+    edges: graph.edges.map((edge, index): ElkExtendedEdge => ({
+      id: `e${index}`,
+      sources: [edge.from],
+      targets: [edge.to],
+      labels: edge.label ? [{ text: edge.label, width: textWidth(edge.label) + 8, height: FONT_SIZE + 4 }] : []
+    }))
+  };
+}
+
+function drawBox(shape: ElkNode, node: GraphNode | undefined, label: string, isContainer: boolean): string {
+  const style = node?.style && NODE_STYLES[node.style];
+  const x = shape.x || 0;
+  const y = shape.y || 0;
+  const width = shape.width || 0;
+  const height = shape.height || 0;
+  const fill = style?.fill || (isContainer ? (node ? '#f7f7f7' : '#fcfcfc') : '#ffffff');
+  const stroke = node?.highlighted ? HIGHLIGHT_STYLE.stroke : style?.stroke || (isContainer && !node ? '#bbbbbb' : DEFAULT_STROKE);
+  const strokeWidth = node?.highlighted ? 3 : 1;
+  const dash = style?.dashed || (isContainer && !node) ? ' stroke-dasharray="5 5"' : '';
+  const text = isContainer
+    ? `<text x="${x + 10}" y="${y + 18}" font-weight="bold">${escapeXml(label)}</text>`
+    : `<text x="${x + width / 2}" y="${y + height / 2 + FONT_SIZE / 3}" text-anchor="middle">${escapeXml(label)}</text>`;
+  return `<g><rect x="${x}" y="${y}" width="${width}" height="${height}" rx="6" fill="${fill}" ` +
+    `stroke="${stroke}" stroke-width="${strokeWidth}"${dash}/>${text}</g>`;
+}
+
+function drawEdge(layout: ElkExtendedEdge, edge: GraphEdge, origin: { x: number; y: number }): string {
+  const style = edge.style && EDGE_STYLES[edge.style];
+  const stroke = style?.stroke || (edge.highlighted ? HIGHLIGHT_STYLE.stroke : DEFAULT_STROKE);
+  const strokeWidth = edge.highlighted || edge.kind === 'redirect' ? 3 : style ? 2 : 1;
+  const dash = style?.dashed || edge.kind === 'failover' ? ' stroke-dasharray="5 5"' : '';
+
+  const paths = (layout.sections || []).map(section => {
+    const points = [section.startPoint, ...(section.bendPoints || []), section.endPoint];
+    const d = points.map((point, index) => `${index ? 'L' : 'M'}${origin.x + point.x} ${origin.y + point.y}`).join(' ');
+    return `<path d="${d}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}"${dash} marker-end="url(#${markerId(stroke)})"/>`;
+  });
+  const labels = (layout.labels || []).map((label: ElkLabel) => {
+    const x = origin.x + (label.x || 0);
+    const y = origin.y + (label.y || 0);
+    return `<rect x="${x}" y="${y}" width="${label.width}" height="${label.height}" fill="#ffffff" opacity="0.85"/>` +
+      `<text x="${x + (label.width || 0) / 2}" y="${y + FONT_SIZE}" text-anchor="middle" fill="${stroke}">${escapeXml(label.text || '')}</text>`;
+  });
+  return `<g>${[...paths, ...labels].join('')}</g>`;
+}
+
+/**
+ * Draws the node styles in a row below the diagram
+ */
+function drawLegend(top: number): string {
+  let x = 12;
+  const items = Object.values(NODE_STYLES).map(style => {
+    const item = `<rect x="${x}" y="${top + 10}" width="16" height="16" rx="3" fill="${style.fill}" stroke="${style.stroke}"` +
+      `${style.dashed ? ' stroke-dasharray="3 3"' : ''}/><text x="${x + 22}" y="${top + 22}">${escapeXml(style.label)}</text>`;
+    x += textWidth(style.label) + 44;
+    return item;
+  });
+  return `<g>${items.join('')}</g>`;
+}
+
+function legendWidth(): number {
+  return Object.values(NODE_STYLES).reduce((width, style) => width + textWidth(style.label) + 44, 12);
+}
+
+/**
+ * One arrowhead per edge color, since SVG 1.1 markers cannot inherit it
+ */
+function arrowMarkers(): string {
+  const colors = new Set([DEFAULT_STROKE, HIGHLIGHT_STYLE.stroke, ...Object.values(EDGE_STYLES).map(style => style.stroke)]);
+  return [...colors].map(color =>
+    `<marker id="${markerId(color)}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">` +
+    `<path d="M0 0 L10 5 L0 10 z" fill="${color}"/></marker>`
+  ).join('');
+}
+
+function markerId(color: string): string {
+  return `arrow-${color.slice(1)}`;
+}
+
+function textWidth(text: string): number {
+  return text.length * CHAR_WIDTH;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Converts SVG to PNG with resvg, loaded on first use so servers that never
+ * render PNGs do not need it
+ */
+async function rasterize(svg: string, scale: number): Promise<Buffer> {
+  let resvg: typeof import('@resvg/resvg-js');
+  try {
+    resvg = await import('@resvg/resvg-js');
+  } catch {
+    throw new DiagramRenderError('PNG output needs the optional @resvg/resvg-js package; install it or request SVG');
+  }
+
+  const image = new resvg.Resvg(svg, {
+    fitTo: { mode: 'zoom', value: scale },
+    font: { loadSystemFonts: true, defaultFontFamily: 'Helvetica' }
+  });
+  return image.render().asPng();
+}